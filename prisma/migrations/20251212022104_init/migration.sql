@@ -1,37 +1,87 @@
 -- CreateTable
 CREATE TABLE "User" (
-    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "id" SERIAL NOT NULL,
     "telegramId" BIGINT NOT NULL,
     "firstName" TEXT,
+    "fullName" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "address" TEXT,
+    "jobPosition" TEXT,
+    "accountType" TEXT NOT NULL DEFAULT 'INDIVIDUAL',
+    "firmName" TEXT,
+    "firmState" TEXT,
+    "branchName" TEXT,
+    "registrationNumber" TEXT,
+    "approvalStatus" TEXT NOT NULL DEFAULT 'APPROVED',
+    "isVerified" BOOLEAN NOT NULL DEFAULT false,
+    "isBanned" BOOLEAN NOT NULL DEFAULT false,
     "username" TEXT,
+    "country" TEXT,
+    "preferredCurrency" TEXT NOT NULL DEFAULT 'USD',
+    "firmCode" TEXT,
     "subscription" TEXT NOT NULL DEFAULT 'FREE',
-    "subscriptionExp" DATETIME,
-    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    "subscriptionExp" TIMESTAMP(3),
+    "monthlyUsage" INTEGER NOT NULL DEFAULT 0,
+    "usageResetDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "teamOwnerId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Admin" (
+    "id" SERIAL NOT NULL,
+    "telegramId" BIGINT NOT NULL,
+    "username" TEXT,
+    "role" TEXT NOT NULL DEFAULT 'ADMIN',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Admin_pkey" PRIMARY KEY ("id")
 );
 
 -- CreateTable
 CREATE TABLE "CaseMatter" (
-    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "id" SERIAL NOT NULL,
+    "refCode" TEXT,
     "title" TEXT NOT NULL,
     "description" TEXT,
+    "analysis" TEXT,
+    "qaHistory" TEXT,
+    "scenarios" TEXT,
     "jurisdiction" TEXT,
     "status" TEXT NOT NULL DEFAULT 'OPEN',
     "userId" INTEGER NOT NULL,
-    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-    "updatedAt" DATETIME NOT NULL,
-    CONSTRAINT "CaseMatter_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CaseMatter_pkey" PRIMARY KEY ("id")
 );
 
 -- CreateTable
 CREATE TABLE "Document" (
-    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "id" SERIAL NOT NULL,
     "caseId" INTEGER NOT NULL,
     "type" TEXT NOT NULL,
     "filePath" TEXT,
     "textContent" TEXT,
-    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-    CONSTRAINT "Document_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "CaseMatter" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Document_pkey" PRIMARY KEY ("id")
 );
 
 -- CreateIndex
 CREATE UNIQUE INDEX "User_telegramId_key" ON "User"("telegramId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Admin_telegramId_key" ON "Admin"("telegramId");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_teamOwnerId_fkey" FOREIGN KEY ("teamOwnerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CaseMatter" ADD CONSTRAINT "CaseMatter_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Document" ADD CONSTRAINT "Document_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "CaseMatter"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
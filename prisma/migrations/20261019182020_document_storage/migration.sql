@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "fileName" TEXT,
+ADD COLUMN     "mimeType" TEXT,
+ADD COLUMN     "size" INTEGER,
+ADD COLUMN     "sourceUrl" TEXT,
+ADD COLUMN     "storage" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Document_caseId_idx" ON "Document"("caseId");
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" SERIAL NOT NULL,
+    "reference" TEXT NOT NULL,
+    "provider" TEXT NOT NULL DEFAULT 'PAYSTACK',
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "plan" TEXT NOT NULL,
+    "amount" INTEGER,
+    "currency" TEXT,
+    "telegramId" BIGINT NOT NULL,
+    "userId" INTEGER,
+    "periodEnd" TIMESTAMP(3),
+    "failureReason" TEXT,
+    "rawEvent" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_reference_key" ON "Payment"("reference");
+
+-- CreateIndex
+CREATE INDEX "Payment_telegramId_idx" ON "Payment"("telegramId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "expiryReminderDays" INTEGER,
+ADD COLUMN     "expiryReminderFor" TIMESTAMP(3);
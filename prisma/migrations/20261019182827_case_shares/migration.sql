@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "CaseShare" (
+    "id" SERIAL NOT NULL,
+    "caseId" INTEGER NOT NULL,
+    "sharedById" INTEGER NOT NULL,
+    "sharedWithId" INTEGER NOT NULL,
+    "permission" TEXT NOT NULL DEFAULT 'READ',
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3),
+    "acceptedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CaseShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CaseShare_sharedWithId_idx" ON "CaseShare"("sharedWithId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CaseShare_caseId_sharedWithId_key" ON "CaseShare"("caseId", "sharedWithId");
+
+-- AddForeignKey
+ALTER TABLE "CaseShare" ADD CONSTRAINT "CaseShare_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "CaseMatter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CaseShare" ADD CONSTRAINT "CaseShare_sharedById_fkey" FOREIGN KEY ("sharedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CaseShare" ADD CONSTRAINT "CaseShare_sharedWithId_fkey" FOREIGN KEY ("sharedWithId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "AnalysisVersion" (
+    "id" SERIAL NOT NULL,
+    "caseId" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "viabilityScore" INTEGER NOT NULL,
+    "prediction" TEXT NOT NULL,
+    "caseCategory" TEXT NOT NULL,
+    "keyIssues" TEXT NOT NULL,
+    "scenarios" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AnalysisVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnalysisVersion_caseId_version_key" ON "AnalysisVersion"("caseId", "version");
+
+-- AddForeignKey
+ALTER TABLE "AnalysisVersion" ADD CONSTRAINT "AnalysisVersion_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "CaseMatter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CaseMatter" ADD COLUMN     "analysisStatus" TEXT;
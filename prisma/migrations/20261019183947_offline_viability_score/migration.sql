@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "AnalysisVersion" ADD COLUMN     "offlineFactors" TEXT,
+ADD COLUMN     "offlineScore" INTEGER,
+ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'llm';
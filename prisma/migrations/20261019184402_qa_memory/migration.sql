@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "CaseMatter" ADD COLUMN     "qaSummary" TEXT,
+ADD COLUMN     "qaSummaryUpTo" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "qaThreadStart" INTEGER NOT NULL DEFAULT 0;
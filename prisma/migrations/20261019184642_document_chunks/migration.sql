@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "indexedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "DocumentChunk" (
+    "id" SERIAL NOT NULL,
+    "documentId" INTEGER NOT NULL,
+    "caseId" INTEGER NOT NULL,
+    "page" INTEGER,
+    "position" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "embedding" TEXT NOT NULL,
+    "embeddingModel" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DocumentChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentChunk_caseId_idx" ON "DocumentChunk"("caseId");
+
+-- AddForeignKey
+ALTER TABLE "DocumentChunk" ADD CONSTRAINT "DocumentChunk_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
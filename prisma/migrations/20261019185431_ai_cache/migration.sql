@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "AiCacheEntry" (
+    "key" TEXT NOT NULL,
+    "tenant" TEXT NOT NULL,
+    "task" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "response" TEXT NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AiCacheEntry_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "AiCacheEntry_tenant_idx" ON "AiCacheEntry"("tenant");
+
+-- CreateIndex
+CREATE INDEX "AiCacheEntry_lastUsedAt_idx" ON "AiCacheEntry"("lastUsedAt");
+
+-- CreateIndex
+CREATE INDEX "AiCacheEntry_expiresAt_idx" ON "AiCacheEntry"("expiresAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CaseMatter" ADD COLUMN     "scenariosPrompt" TEXT;
+
+-- AlterTable
+ALTER TABLE "AnalysisVersion" ADD COLUMN     "promptVersion" TEXT;
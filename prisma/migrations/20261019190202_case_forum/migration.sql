@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "CaseMatter" ADD COLUMN     "court" TEXT,
+ADD COLUMN     "jurisdictionProfile" TEXT,
+ADD COLUMN     "parties" TEXT;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "CaseMatter" ADD COLUMN     "accrualDate" TEXT,
+ADD COLUMN     "deadlines" TEXT,
+ADD COLUMN     "limitationClaim" TEXT;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "CaseEvent" (
+    "id" SERIAL NOT NULL,
+    "caseId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'DEADLINE',
+    "title" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "time" TEXT,
+    "source" TEXT,
+    "createdById" INTEGER,
+    "lastReminderDays" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CaseEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CaseEvent_caseId_idx" ON "CaseEvent"("caseId");
+
+-- CreateIndex
+CREATE INDEX "CaseEvent_date_idx" ON "CaseEvent"("date");
+
+-- AddForeignKey
+ALTER TABLE "CaseEvent" ADD CONSTRAINT "CaseEvent_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "CaseMatter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CaseEvent" ADD CONSTRAINT "CaseEvent_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
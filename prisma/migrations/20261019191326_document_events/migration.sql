@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "CaseEvent" ADD COLUMN     "documentId" INTEGER,
+ADD COLUMN     "page" INTEGER,
+ADD COLUMN     "passage" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "CaseEvent" ADD CONSTRAINT "CaseEvent_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CaseMatter" ADD COLUMN     "chronologyBuiltAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "CaseEvent" ADD COLUMN     "foundDate" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "UsageRecord" ADD COLUMN     "firmId" INTEGER;
+
+-- Backfill: earlier records only have the user, so take their current firm
+UPDATE "UsageRecord" AS r SET "firmId" = COALESCE(u."teamOwnerId", u."id") FROM "User" AS u WHERE r."userId" = u."id";
@@ -0,0 +1,339 @@
+import { prisma } from '../../services/db';
+import { CommandRegistry, formatCommand } from '../registry';
+import { isAdmin } from '../helpers';
+import { costReport, CostLine } from '../../services/usageService';
+import { clearCache, firmTenant, getCacheStats } from '../../services/cacheService';
+import { aiService } from '../../services/ai';
+import { PROMPT_NAMES, currentVersion, getTemplate, promptVersions } from '../../services/prompts';
+import { EXPERIMENT_PROMPTS, isExperimentPrompt, runPromptExperiment, formatExperimentSummary, formatExperimentTranscript } from '../../services/promptExperimentService';
+
+const DEFAULT_EXPERIMENT_SAMPLE = 5;
+
+function costLine(line: CostLine): string {
+    return `${line.label}: $${line.costUsd.toFixed(2)} (${line.calls} calls, ${line.tokensIn + line.tokensOut} tokens)`;
+}
+
+// Admin-only commands: approvals, user management, plans and broadcasts
+export function registerAdmin(registry: CommandRegistry) {
+    // ADMIN: Approve User
+    registry.command({ name: 'approve', description: 'Approve a pending Firm/Bar registration', section: 'admin', usage: '<telegram_id>', adminOnly: true }, async (ctx) => {
+        const adminWait = await isAdmin(ctx.from.id);
+        if (!adminWait.isAdmin) return;
+
+        const args = ctx.message.text.split(' ');
+        const targetId = args[1];
+
+        if (!targetId) return ctx.reply('Usage: /approve <telegram_id>');
+
+        try {
+            await prisma.user.update({
+                where: { telegramId: BigInt(targetId) },
+                data: { approvalStatus: 'APPROVED' } as any
+            });
+            await ctx.reply(`✅ User ${targetId} APPROVED.`);
+            try {
+                await ctx.telegram.sendMessage(targetId, '✅ **Account Approved!**\n\nYour registration has been verified. You can now use the bot.');
+            } catch (e) { ctx.reply('Could not notify user (blocked bot?)'); }
+        } catch (e) {
+            ctx.reply('❌ Error approving user. Check ID.');
+        }
+    });
+
+    // ADMIN: Pending List
+    registry.command({ name: 'pending', description: 'List registrations awaiting approval', section: 'admin', adminOnly: true }, async (ctx) => {
+        const adminWait = await isAdmin(ctx.from.id);
+        if (!adminWait.isAdmin) return;
+
+        const pending = await prisma.user.findMany({
+            where: {
+                approvalStatus: 'PENDING'
+            }
+        });
+
+        if (pending.length === 0) return ctx.reply('No pending approvals.');
+
+        const list = pending.map(u => `• ${u.firstName || u.username} (ID: ${u.telegramId}) - ${u.accountType} - Reg: ${u.registrationNumber}`).join('\n');
+        await ctx.reply(`⏳ **Pending Approvals**\n\n${list}`);
+    });
+
+    // ADMIN DASHBOARD
+    registry.command({ name: 'admin', description: 'Admin dashboard', section: 'admin', adminOnly: true }, async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.reply('⛔ Access denied.');
+
+        const commands = registry.adminCommands()
+            .filter(c => c.name !== 'admin')
+            .map(c => `${formatCommand(c)} - ${c.description}`)
+            .join('\n');
+
+        await ctx.reply(`🔐 **Admin Dashboard**\n\nRole: ${adminCheck.role}\n\nCommands:\n${commands}`, {
+            reply_markup: {
+                inline_keyboard: [
+                    [{ text: '📊 Stats', callback_data: 'admin_stats' }, { text: '👥 Users', callback_data: 'admin_users' }],
+                    [{ text: '📢 Broadcast', callback_data: 'admin_broadcast' }]
+                ]
+            }
+        });
+    });
+
+    // USERS LIST
+    registry.command({ name: 'users', description: 'List all users', section: 'admin', adminOnly: true }, async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.reply('⛔ Access denied.');
+
+        const users = await prisma.user.findMany({ take: 20, orderBy: { createdAt: 'desc' } });
+        const totalUsers = await prisma.user.count();
+
+        let msg = `👥 **Users** (${totalUsers} total)\n\n`;
+        users.forEach((u, i) => {
+            msg += `${i + 1}. @${u.username || 'N/A'} - ${u.subscription}${u.isBanned ? ' ⛔' : ''}\n`;
+        });
+        msg += '\nUse /ban @username to ban/unban';
+
+        await ctx.reply(msg);
+    });
+
+    // STATS
+    registry.command({ name: 'stats', description: 'Bot statistics', section: 'admin', adminOnly: true }, async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.reply('⛔ Access denied.');
+
+        const totalUsers = await prisma.user.count();
+        const totalCases = await prisma.caseMatter.count();
+        const freeUsers = await prisma.user.count({ where: { subscription: 'FREE' } });
+        const proUsers = await prisma.user.count({ where: { subscription: 'PRO' } });
+        const firmUsers = await prisma.user.count({ where: { subscription: 'FIRM' } });
+        const barUsers = await prisma.user.count({ where: { subscription: 'BAR' } });
+        const verifiedUsers = await prisma.user.count({ where: { isVerified: true } });
+
+        await ctx.reply(`📊 **Bot Statistics**\n\n👥 Total Users: ${totalUsers}\n✅ Verified: ${verifiedUsers}\n📁 Total Cases: ${totalCases}\n\n**Subscriptions:**\n🆓 FREE: ${freeUsers}\n⭐ PRO: ${proUsers}\n🏢 FIRM: ${firmUsers}\n⚖️ BAR: ${barUsers}`);
+    });
+
+    // BAN/UNBAN USER
+    registry.command({ name: 'ban', description: 'Ban/unban user', section: 'admin', usage: '@username', adminOnly: true }, async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.reply('⛔ Access denied.');
+
+        const args = ctx.message.text.split(' ');
+        if (args.length < 2) return ctx.reply('Usage: /ban @username');
+
+        const username = args[1].replace('@', '');
+        const user = await prisma.user.findFirst({ where: { username } });
+
+        if (!user) return ctx.reply(`User @${username} not found.`);
+
+        const newBanStatus = !user.isBanned;
+        await prisma.user.update({ where: { id: user.id }, data: { isBanned: newBanStatus } });
+
+        await ctx.reply(`${newBanStatus ? '⛔ Banned' : '✅ Unbanned'}: @${username}`);
+    });
+
+    // SET PLAN
+    registry.command({ name: 'setplan', description: 'Set user plan', section: 'admin', usage: '@username PLAN', adminOnly: true }, async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.reply('⛔ Access denied.');
+
+        const args = ctx.message.text.split(' ');
+        if (args.length < 3) return ctx.reply('Usage: /setplan @username PLAN\nPlans: FREE, PRO, FIRM, BAR');
+
+        const username = args[1].replace('@', '');
+        const plan = args[2].toUpperCase();
+
+        if (!['FREE', 'PRO', 'FIRM', 'BAR'].includes(plan)) {
+            return ctx.reply('Invalid plan. Use: FREE, PRO, FIRM, or BAR');
+        }
+
+        const user = await prisma.user.findFirst({ where: { username } });
+        if (!user) return ctx.reply(`User @${username} not found.`);
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                subscription: plan,
+                subscriptionExp: plan !== 'FREE' ? new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) : null
+            }
+        });
+
+        await ctx.reply(`✅ @${username} is now on ${plan} plan.`);
+    });
+
+    // EXTEND PLAN (Add days)
+    registry.command({ name: 'extend', description: 'Extend a user\'s plan', section: 'admin', usage: '@username DAYS', adminOnly: true }, async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.reply('⛔ Access denied.');
+
+        const args = ctx.message.text.split(' ');
+        if (args.length < 3) return ctx.reply('Usage: /extend @username DAYS\nExample: /extend @chidi 10');
+
+        const username = args[1].replace('@', '');
+        const days = parseInt(args[2]);
+
+        if (isNaN(days) || days < 1) return ctx.reply('Please provide a valid number of days.');
+
+        const user = await prisma.user.findFirst({ where: { username } });
+        if (!user) return ctx.reply(`User @${username} not found.`);
+
+        // Calculate new expiration
+        const currentExp = user.subscriptionExp && user.subscriptionExp > new Date()
+            ? user.subscriptionExp
+            : new Date();
+
+        const newExp = new Date(currentExp.getTime() + (days * 24 * 60 * 60 * 1000));
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { subscriptionExp: newExp }
+        });
+
+        // Format date for reply
+        const dateStr = newExp.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+        await ctx.reply(`✅ Extended @${username}'s plan by **${days} days**.\n📅 New Expiry: ${dateStr}`);
+    });
+
+    // AI COSTS
+    registry.command({ name: 'costs', description: 'AI usage and cost report', section: 'admin', usage: '[days]', adminOnly: true }, async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.reply('⛔ Access denied.');
+
+        // Defaults to the current calendar month
+        const days = parseInt(ctx.message.text.split(' ')[1] || '');
+        const since = days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+        const report = await costReport(since);
+
+        let msg = `💰 **AI Costs since ${report.since.toDateString()}**\n\n`;
+        msg += `${costLine(report.total)}\n`;
+        msg += `\n**By feature:**\n${report.byFeature.map(costLine).join('\n') || 'No usage'}\n`;
+        msg += `\n**By plan:**\n${report.byPlan.map(costLine).join('\n') || 'No usage'}\n`;
+        msg += `\n**By firm:**\n${report.byFirm.slice(0, 10).map(costLine).join('\n') || 'No usage'}\n`;
+        msg += `\n**Top users:**\n${report.byUser.slice(0, 10).map(costLine).join('\n') || 'No usage'}`;
+
+        await ctx.reply(msg);
+    });
+
+    // AI RESPONSE CACHE
+    registry.command({ name: 'cache', description: 'AI cache stats, or purge it', section: 'admin', usage: '[purge [@username]]', adminOnly: true }, async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.reply('⛔ Access denied.');
+
+        const args = ctx.message.text.split(' ').slice(1);
+        if (args[0] === 'purge') {
+            if (!args[1]) {
+                const count = await clearCache();
+                return ctx.reply(`🧹 Cleared ${count} cached AI responses.`);
+            }
+            // A user's entries belong to their firm, so purge the whole firm's
+            const username = args[1].replace('@', '');
+            const user = await prisma.user.findFirst({ where: { username } });
+            if (!user) return ctx.reply(`User @${username} not found.`);
+            const count = await clearCache(firmTenant(user.teamOwnerId ?? user.id));
+            return ctx.reply(`🧹 Cleared ${count} cached AI responses for @${username}'s firm.`);
+        }
+
+        const stats = await getCacheStats();
+        const lookups = stats.hits + stats.misses;
+        const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+
+        let msg = `🗄️ **AI Response Cache**${stats.enabled ? '' : ' (disabled)'}\n\n`;
+        msg += `Entries: ${stats.entries}/${stats.maxEntries} (TTL ${stats.ttlHours}h)\n`;
+        msg += `Since restart: ${stats.hits} hits, ${stats.misses} misses (${hitRate}% hit rate)\n`;
+        msg += `Hits served by current entries: ${stats.storedHits}\n`;
+        if (stats.tenants.length > 0) {
+            msg += `\n**Largest tenants:**\n${stats.tenants.slice(0, 10).map(t => `${t.tenant}: ${t.entries}`).join('\n')}\n`;
+        }
+        msg += '\nUse /cache purge [@username] to clear it';
+
+        await ctx.reply(msg);
+    });
+
+    // PROMPT TEMPLATES
+    registry.command({ name: 'prompts', description: 'List prompt templates and versions', section: 'admin', adminOnly: true }, async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.reply('⛔ Access denied.');
+
+        let msg = '📝 Prompt Templates\n';
+        PROMPT_NAMES.forEach(name => {
+            const live = currentVersion(name);
+            msg += `\n${name}\n`;
+            promptVersions(name).forEach(version => {
+                msg += `  v${version}${version === live ? ' (live)' : ''} - ${getTemplate(name, version).description}\n`;
+            });
+        });
+        msg += `\nUse /abtest <${EXPERIMENT_PROMPTS.join('|')}> <version> [cases] to compare a version with the live one`;
+
+        await ctx.reply(msg);
+    });
+
+    // PROMPT A/B TEST
+    registry.command({ name: 'abtest', description: 'A/B test a prompt version on sample cases', section: 'admin', usage: '<prompt> <version> [cases]', adminOnly: true }, async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.reply('⛔ Access denied.');
+
+        const [, name, versionArg, sampleArg] = ctx.message.text.split(' ');
+        if (!name || !versionArg) return ctx.reply(`Usage: /abtest <${EXPERIMENT_PROMPTS.join('|')}> <version> [cases]`);
+        if (!isExperimentPrompt(name)) return ctx.reply(`Only ${EXPERIMENT_PROMPTS.join(', ')} can be tested on cases.`);
+
+        const version = parseInt(versionArg);
+        if (!promptVersions(name).includes(version)) return ctx.reply(`${name} has no version ${versionArg}. See /prompts.`);
+        if (version === currentVersion(name)) return ctx.reply(`${name}@${version} is already live - pick another version.`);
+        if (!aiService.available) return ctx.reply('⚠️ No AI provider is configured.');
+
+        const sampleSize = parseInt(sampleArg) > 0 ? parseInt(sampleArg) : DEFAULT_EXPERIMENT_SAMPLE;
+        await ctx.reply(`🧪 Running ${name}@${currentVersion(name)} and ${name}@${version} on ${sampleSize} sample cases. The results will follow here.`);
+
+        // Two AI calls per case - answer when done instead of holding up the update queue
+        runPromptExperiment(name, version, sampleSize)
+            .then(async report => {
+                if (report.runs.length === 0) return ctx.reply('No cases with facts to test on.');
+                await ctx.reply(formatExperimentSummary(report), { parse_mode: 'Markdown' })
+                    .catch(() => ctx.reply(formatExperimentSummary(report)));
+                await ctx.replyWithDocument({ source: Buffer.from(formatExperimentTranscript(report), 'utf-8'), filename: `abtest_${name}_v${version}.txt` });
+            })
+            .catch(err => {
+                console.error('[Prompts] A/B test failed:', err);
+                return ctx.reply(`❌ A/B test failed: ${err.message || err}`);
+            });
+    });
+
+    // BROADCAST
+    registry.command({ name: 'broadcast', description: 'Send to all users', section: 'admin', usage: 'MESSAGE', adminOnly: true }, async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.reply('⛔ Access denied.');
+
+        const message = ctx.message.text.replace('/broadcast ', '').trim();
+        if (!message || message === '/broadcast') return ctx.reply('Usage: /broadcast Your message here');
+
+        const users = await prisma.user.findMany({ where: { isBanned: false } });
+        let sent = 0;
+
+        for (const user of users) {
+            try {
+                await ctx.telegram.sendMessage(Number(user.telegramId), `📢 **Announcement**\n\n${message}`);
+                sent++;
+            } catch (e) { /* User may have blocked bot */ }
+        }
+
+        await ctx.reply(`✅ Broadcast sent to ${sent}/${users.length} users.`);
+    });
+
+    // Admin action handlers
+    registry.action('admin_stats', async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.answerCbQuery('Access denied');
+
+        const totalUsers = await prisma.user.count();
+        const totalCases = await prisma.caseMatter.count();
+        await ctx.answerCbQuery();
+        await ctx.reply(`📊 Quick Stats: ${totalUsers} users, ${totalCases} cases`);
+    });
+
+    registry.action('admin_users', async (ctx) => {
+        const adminCheck = await isAdmin(ctx.from.id);
+        if (!adminCheck.isAdmin) return ctx.answerCbQuery('Access denied');
+
+        await ctx.answerCbQuery();
+        const users = await prisma.user.findMany({ take: 10, orderBy: { createdAt: 'desc' } });
+        let msg = '👥 Recent Users:\n';
+        users.forEach((u, i) => { msg += `${i + 1}. @${u.username || 'N/A'} (${u.subscription})\n`; });
+        await ctx.reply(msg);
+    });
+}
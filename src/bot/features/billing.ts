@@ -0,0 +1,187 @@
+import { prisma } from '../../services/db';
+import { getPlanPrices } from '../../services/currencyService';
+import { createPlanCheckout } from '../../services/paymentService';
+import { getEffectivePlan, describeExpiry } from '../../services/subscriptionService';
+import { CommandRegistry } from '../registry';
+
+// Subscription plans, pricing by country and plan selection
+export function registerBilling(registry: CommandRegistry) {
+    // SUBSCRIBE COMMAND - Subscription management with detailed plans
+    registry.command({ name: 'subscribe', description: 'View plans & upgrade', section: 'billing' }, async (ctx) => {
+        const userId = ctx.from.id;
+
+        // Get user's country and currency
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(userId) } });
+        const userCurrency = user?.preferredCurrency || 'USD';
+        const userCountry = user?.country || 'United States';
+
+        // Get localized prices
+        const pricesArray = await getPlanPrices(userCurrency);
+        const proPriceLocal = pricesArray.find(p => p.name === 'PRO')?.localFormatted || '';
+        const firmPriceLocal = pricesArray.find(p => p.name === 'FIRM')?.localFormatted || '';
+        const barPriceLocal = pricesArray.find(p => p.name === 'BAR')?.localFormatted || '';
+
+        const planDetails = `💎 **Subscription Plans**
+📍 Prices for: ${userCountry}
+
+**🆓 FREE - $0/mo**
+• 2 cases per month
+• Basic AI analysis
+• PDF export only
+
+**⭐ PRO - $8/mo** ${proPriceLocal ? `(${proPriceLocal})` : ''}
+• 10 cases per month
+• AI scenario simulation
+• PDF & Word export
+• Priority processing
+
+**🏢 FIRM - $49/mo** ${firmPriceLocal ? `(${firmPriceLocal})` : ''}
+• 20 cases per month
+• All PRO features
+• Add up to 15 staff members
+• Shared team dashboard
+• Priority support
+
+**⚖️ BAR ASSOCIATION - $199/mo** ${barPriceLocal ? `(${barPriceLocal})` : ''}
+• Unlimited cases
+• All FIRM features
+• Add up to 100 members
+• White-label branding
+• API access
+• Analytics dashboard
+
+Select a plan:`;
+
+        await ctx.reply(planDetails, {
+            reply_markup: {
+                inline_keyboard: [
+                    [{ text: '🆓 FREE ($0)', callback_data: 'plan_FREE' }],
+                    [{ text: `⭐ PRO ($8${proPriceLocal ? ' / ' + proPriceLocal : ''})`, callback_data: 'plan_PRO' }],
+                    [{ text: `🏢 FIRM ($49${firmPriceLocal ? ' / ' + firmPriceLocal : ''})`, callback_data: 'plan_FIRM' }],
+                    [{ text: `⚖️ BAR ($199${barPriceLocal ? ' / ' + barPriceLocal : ''})`, callback_data: 'plan_BAR' }],
+                    [{ text: '🌍 Change Country', callback_data: 'change_country' }]
+                ]
+            }
+        });
+    });
+
+    // CHANGE COUNTRY HANDLER
+    registry.action('change_country', async (ctx) => {
+        await ctx.answerCbQuery();
+        await ctx.reply('🌍 **Select Your Country/Region**\n\nThis sets your preferred currency for pricing:', {
+            reply_markup: {
+                inline_keyboard: [
+                    [
+                        { text: '🇳🇬 Nigeria', callback_data: 'set_country_NG' },
+                        { text: '🇺🇸 USA', callback_data: 'set_country_US' }
+                    ],
+                    [
+                        { text: '🇬🇧 UK', callback_data: 'set_country_GB' },
+                        { text: '🇪🇺 Europe', callback_data: 'set_country_EU' }
+                    ],
+                    [
+                        { text: '🇬🇭 Ghana', callback_data: 'set_country_GH' },
+                        { text: '🇰🇪 Kenya', callback_data: 'set_country_KE' }
+                    ],
+                    [
+                        { text: '🇿🇦 South Africa', callback_data: 'set_country_ZA' },
+                        { text: '🇮🇳 India', callback_data: 'set_country_IN' }
+                    ]
+                ]
+            }
+        });
+    });
+
+    // SET COUNTRY HANDLER
+    registry.action(/^set_country_(\w+)/, async (ctx) => {
+        const countryCode = ctx.match[1];
+        const userId = ctx.from.id;
+
+        const countryMap: Record<string, { name: string; currency: string }> = {
+            NG: { name: 'Nigeria', currency: 'NGN' },
+            US: { name: 'United States', currency: 'USD' },
+            GB: { name: 'United Kingdom', currency: 'GBP' },
+            EU: { name: 'Europe', currency: 'EUR' },
+            GH: { name: 'Ghana', currency: 'GHS' },
+            KE: { name: 'Kenya', currency: 'KES' },
+            ZA: { name: 'South Africa', currency: 'ZAR' },
+            IN: { name: 'India', currency: 'INR' }
+        };
+
+        const country = countryMap[countryCode] || { name: 'United States', currency: 'USD' };
+
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { country: country.name, preferredCurrency: country.currency }
+        });
+
+        await ctx.answerCbQuery(`Country set to ${country.name}`);
+        await ctx.reply(`✅ **Country Updated**\n\n📍 ${country.name}\n💱 Currency: ${country.currency}\n\nUse /subscribe to see prices in your currency.`);
+    });
+
+    // MY PLAN COMMAND - View current subscription
+    registry.command({ name: 'myplan', description: 'Check your usage limits', section: 'billing' }, async (ctx) => {
+        const user = await prisma.user.findUnique({
+            where: { telegramId: BigInt(ctx.from.id) },
+            include: { teamMembers: true, teamOwner: true }
+        });
+        if (!user) return ctx.reply('Please /signup first.');
+
+        const effective = await getEffectivePlan(user);
+        const limits: Record<string, number> = { FREE: 2, PRO: 10, FIRM: 20, BAR: 999999 };
+        const staffLimits: Record<string, number> = { FREE: 0, PRO: 0, FIRM: 15, BAR: 100 };
+        const prices: Record<string, string> = { FREE: '$0', PRO: '$8', FIRM: '$49', BAR: '$199' };
+
+        const plan = effective.plan;
+        const limit = limits[plan] || 2;
+        const staffLimit = staffLimits[plan] || 0;
+
+        let msg = `💎 **Your Plan: ${plan}** (${prices[plan]}/mo)\n`;
+        if (effective.inheritedFrom) {
+            msg += `🏢 Provided by ${effective.inheritedFrom.firmName || effective.inheritedFrom.branchName || 'your organization'}\n`;
+        }
+        msg += `📅 Status: ${describeExpiry(effective)}\n\n`;
+        msg += `📊 **Usage This Month**\n`;
+        msg += `Cases: ${user.monthlyUsage}/${limit === 999999 ? '∞' : limit}\n\n`;
+        msg += `👥 **Team**\n`;
+        msg += `Staff members: ${user.teamMembers?.length || 0}/${staffLimit === 0 ? 'N/A' : staffLimit}\n\n`;
+
+        if (plan === 'FREE') {
+            msg += `⬆️ Upgrade to PRO for more cases!\nUse /subscribe`;
+        } else if (plan === 'PRO') {
+            msg += `⬆️ Upgrade to FIRM to add team members!\nUse /subscribe`;
+        }
+
+        await ctx.reply(msg);
+    });
+
+    // Plan selection handlers with payment
+    registry.action(/^plan_(FREE|PRO|FIRM|BAR)$/, async (ctx) => {
+        const plan = ctx.match[1];
+        const userId = ctx.from.id;
+
+        await ctx.answerCbQuery();
+
+        // Get user info
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(userId) } });
+
+        if (plan === 'FREE') {
+            // Free plan - activate immediately
+            await prisma.user.update({
+                where: { telegramId: BigInt(userId) },
+                data: { subscription: 'FREE', subscriptionExp: null }
+            });
+            return ctx.reply('✅ **FREE Plan Activated**\n\nYou now have access to:\n• 2 cases per month\n• Basic AI analysis\n• PDF export\n\nUpgrade anytime with /subscribe');
+        }
+
+        // Paid plans - generate payment link
+        const payment = await createPlanCheckout(String(userId), user?.email, plan);
+        const amount = payment.amount;
+
+        if (payment.success && payment.url) {
+            await ctx.reply(`💳 **Subscribe to ${plan} Plan**\n\n💰 Amount: ₦${amount.toLocaleString()}/month\n\n[Click here to pay](${payment.url})\n\nAfter payment, your plan will be activated automatically.`, { parse_mode: 'Markdown' });
+        } else {
+            await ctx.reply('❌ Payment initialization failed. Please try again or contact support.');
+        }
+    });
+}
@@ -0,0 +1,226 @@
+import { CaseMatter } from '@prisma/client';
+import { InlineKeyboardButton } from 'telegraf/types';
+import { prisma } from '../../services/db';
+import { canActOnCase } from '../../services/authorization';
+import { addDeadlineEvents, buildIcs, createEvent, deleteEvent, formatEvent, getEvent, listCaseEvents, listUpcomingEvents, parseTime } from '../../services/calendarService';
+import { getCaseDeadlines } from '../../services/deadlineService';
+import { addMonths, dateFromParts, dayOfWeek, parseIsoDate, toIsoDate } from '../../core/dates';
+import { CommandRegistry } from '../registry';
+import { BotContext } from '../session';
+import { escapeMd, loadCase, loadCaseByRef } from '../helpers';
+
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+const MAX_DELETE_BUTTONS = 8;
+
+async function userId(ctx: BotContext): Promise<number | null> {
+    const user = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from!.id) } });
+    return user?.id ?? null;
+}
+
+// Month grid for picking a day; `month` is "YYYY-MM"
+function datePicker(caseId: number, month: string): InlineKeyboardButton[][] {
+    const [year, mon] = month.split('-').map(Number);
+    const first = dateFromParts(year, mon, 1)!;
+    const today = toIsoDate(new Date());
+    const label = new Date(`${first}T00:00:00Z`).toLocaleDateString('en-GB', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+    const rows: InlineKeyboardButton[][] = [
+        [
+            { text: '◀️', callback_data: `cal_month_${caseId}_${addMonths(first, -1).slice(0, 7)}` },
+            { text: label, callback_data: 'cal_noop' },
+            { text: '▶️', callback_data: `cal_month_${caseId}_${addMonths(first, 1).slice(0, 7)}` }
+        ],
+        WEEKDAYS.map(d => ({ text: d, callback_data: 'cal_noop' }))
+    ];
+
+    // Weeks start on Monday
+    let week: InlineKeyboardButton[] = Array.from({ length: (dayOfWeek(first) + 6) % 7 }, () => ({ text: ' ', callback_data: 'cal_noop' }));
+    for (let day = 1; dateFromParts(year, mon, day); day++) {
+        const date = dateFromParts(year, mon, day)!;
+        week.push({ text: date === today ? `•${day}` : String(day), callback_data: `cal_day_${caseId}_${date}` });
+        if (week.length === 7) {
+            rows.push(week);
+            week = [];
+        }
+    }
+    if (week.length > 0) {
+        while (week.length < 7) week.push({ text: ' ', callback_data: 'cal_noop' });
+        rows.push(week);
+    }
+    rows.push([{ text: '❌ Cancel', callback_data: `case_calendar_${caseId}_back` }]);
+    return rows;
+}
+
+// The case's events, with buttons to add, remove and export them
+async function showCalendarPanel(ctx: BotContext, c: CaseMatter, edit: boolean) {
+    const events = await listCaseEvents(c.id);
+    const canEdit = await canActOnCase(ctx.from!.id, c.id, 'edit');
+    const today = toIsoDate(new Date());
+    const upcoming = events.filter(e => e.date >= today);
+    const past = events.length - upcoming.length;
+
+    let msg = `📅 **Calendar: ${escapeMd(c.refCode || String(c.id))}**\n\n`;
+    if (upcoming.length === 0) msg += `_No upcoming events._\n`;
+    upcoming.forEach(e => { msg += `• ${escapeMd(formatEvent(e))}\n`; });
+    if (past > 0) msg += `\n_${past} past event${past === 1 ? '' : 's'} (in the .ics export)_\n`;
+    if (canEdit) msg += `\nAdd one with the button below or /deadline ${escapeMd(c.refCode || String(c.id))} YYYY-MM-DD [HH:MM] Title`;
+
+    const extra = {
+        parse_mode: 'Markdown' as const,
+        reply_markup: {
+            inline_keyboard: [
+                ...(canEdit ? upcoming.slice(0, MAX_DELETE_BUTTONS).map(e => [{ text: `🗑 ${e.date} ${e.title.substring(0, 30)}`, callback_data: `event_del_${e.id}` }]) : []),
+                [
+                    ...(canEdit ? [{ text: '➕ Add Event', callback_data: `cal_month_${c.id}_${today.slice(0, 7)}` }] : []),
+                    { text: '📤 Export .ics', callback_data: `cal_ics_${c.id}` }
+                ],
+                [{ text: '🔙 Back to Case', callback_data: `view_case_${c.id}` }]
+            ]
+        }
+    };
+
+    if (edit) {
+        await ctx.editMessageText(msg, extra).catch(() => ctx.reply(msg, extra));
+    } else {
+        await ctx.reply(msg, extra);
+    }
+}
+
+async function confirmEvent(ctx: BotContext, c: CaseMatter, title: string, date: string, time: string | null) {
+    const event = await createEvent(c.id, await userId(ctx), { title, date, time });
+    await ctx.reply(`✅ **Added to ${escapeMd(c.refCode || `Case #${c.id}`)}**\n\n${escapeMd(formatEvent(event))}\n\n_Reminders go to the case owner and everyone it is shared with._`, {
+        parse_mode: 'Markdown',
+        reply_markup: { inline_keyboard: [[{ text: '📅 Case Calendar', callback_data: `case_calendar_${c.id}` }]] }
+    });
+}
+
+// Hearings, filing dates and meetings per case, with reminders and .ics export
+export function registerCalendar(registry: CommandRegistry) {
+    registry.command({ name: 'deadline', description: 'Add a hearing, filing date or meeting to a case', section: 'cases', usage: '[CaseRef] [YYYY-MM-DD] [HH:MM] [Title]' }, async (ctx) => {
+        const [, ref, dateArg, ...rest] = ctx.message.text.trim().split(/\s+/);
+        const usage = 'Usage: /deadline [CaseRef] [YYYY-MM-DD] [HH:MM] [Title]\n\nExample: /deadline LGL-004 2026-11-20 File reply brief\nThe time is optional.';
+        if (!ref || !dateArg) return ctx.reply(usage);
+
+        const date = parseIsoDate(dateArg);
+        if (!date) return ctx.reply(`"${dateArg}" isn't a valid date. Use YYYY-MM-DD.`);
+        const time = rest.length > 0 ? parseTime(rest[0]) : null;
+        const title = (time ? rest.slice(1) : rest).join(' ').trim();
+        if (!title) return ctx.reply(usage);
+
+        const c = await loadCaseByRef(ctx, ref, 'edit');
+        if (!c) return;
+        await confirmEvent(ctx, c, title, date, time);
+    });
+
+    registry.command({ name: 'calendar', description: 'Upcoming hearings and deadlines', section: 'cases', usage: '[CaseRef]' }, async (ctx) => {
+        const [, ref] = ctx.message.text.trim().split(/\s+/);
+        if (ref) {
+            const c = await loadCaseByRef(ctx, ref, 'read');
+            if (c) await showCalendarPanel(ctx, c, false);
+            return;
+        }
+
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from.id) } });
+        if (!user) return ctx.reply('Please /start the bot first.');
+        const events = await listUpcomingEvents(user);
+        if (events.length === 0) return ctx.reply('📅 No upcoming events.\n\nAdd one with /deadline [CaseRef] [YYYY-MM-DD] [Title], or from a case\'s 📅 Calendar button.');
+
+        let msg = `📅 **Upcoming Events**\n\n`;
+        events.forEach(e => { msg += `• **${escapeMd(e.case.refCode || `#${e.case.id}`)}** ${escapeMd(formatEvent(e))}\n`; });
+        await ctx.replyWithMarkdown(msg, {
+            reply_markup: { inline_keyboard: [[{ text: '📤 Export .ics', callback_data: 'cal_ics_all' }]] }
+        });
+    });
+
+    registry.action('cal_noop', async (ctx) => {
+        await ctx.answerCbQuery();
+    });
+
+    // "_back" comes from the date picker, whose message becomes the panel again
+    registry.action(/^case_calendar_(\d+)(_back)?$/, async (ctx) => {
+        const c = await loadCase(ctx, parseInt(ctx.match[1]), 'read');
+        if (!c) return;
+        await ctx.answerCbQuery();
+        await showCalendarPanel(ctx, c, !!ctx.match[2]);
+    });
+
+    registry.action(/^cal_month_(\d+)_(\d{4}-\d{2})$/, async (ctx) => {
+        const c = await loadCase(ctx, parseInt(ctx.match[1]), 'edit');
+        if (!c) return;
+        await ctx.answerCbQuery();
+        const extra = { reply_markup: { inline_keyboard: datePicker(c.id, ctx.match[2]) } };
+        await ctx.editMessageText(`📅 Pick a date for ${c.refCode || `Case #${c.id}`}:`, extra)
+            .catch(() => ctx.reply(`📅 Pick a date for ${c.refCode || `Case #${c.id}`}:`, extra));
+    });
+
+    registry.action(/^cal_day_(\d+)_(\d{4}-\d{2}-\d{2})$/, async (ctx) => {
+        const c = await loadCase(ctx, parseInt(ctx.match[1]), 'edit');
+        if (!c) return;
+        await ctx.answerCbQuery();
+        ctx.session.step = 'WAITING_EVENT_TITLE';
+        ctx.session.data.eventCaseId = c.id;
+        ctx.session.data.eventDate = ctx.match[2];
+        await ctx.reply(`📅 **${ctx.match[2]}**\n\nWhat is it? Send a title, optionally starting with a time:\n_e.g. "10:00 Hearing of motion" or "File reply brief"_`, { parse_mode: 'Markdown' });
+    });
+
+    registry.step('WAITING_EVENT_TITLE', async (ctx, text) => {
+        const session = ctx.session;
+        const caseId = session.data.eventCaseId;
+        const date = session.data.eventDate;
+        session.step = 'IDLE';
+        session.data.eventCaseId = undefined;
+        session.data.eventDate = undefined;
+        if (!caseId || !date) return ctx.reply('Session expired. Open the case calendar again.');
+
+        const c = await loadCase(ctx, caseId, 'edit');
+        if (!c) return;
+        const [first, ...rest] = text.trim().split(/\s+/);
+        const time = parseTime(first);
+        const title = time ? rest.join(' ') : text.trim();
+        if (!title) return ctx.reply('The event needs a title. Pick the date again to retry.');
+        await confirmEvent(ctx, c, title, date, time);
+    });
+
+    registry.action(/^event_del_(\d+)/, async (ctx) => {
+        const event = await getEvent(parseInt(ctx.match[1]));
+        if (!event) return ctx.answerCbQuery('Event not found.');
+        const c = await loadCase(ctx, event.caseId, 'edit');
+        if (!c) return;
+
+        await deleteEvent(event.id);
+        await ctx.answerCbQuery('Event removed.');
+        await showCalendarPanel(ctx, c, true);
+    });
+
+    registry.action(/^cal_ics_(\d+|all)$/, async (ctx) => {
+        let events;
+        let name: string;
+        if (ctx.match[1] === 'all') {
+            const user = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from.id) } });
+            if (!user) return ctx.answerCbQuery('Please /start the bot first.');
+            events = await listUpcomingEvents(user, 500);
+            name = 'CaseView deadlines';
+        } else {
+            const c = await loadCase(ctx, parseInt(ctx.match[1]), 'read');
+            if (!c) return;
+            events = (await listCaseEvents(c.id)).map(e => ({ ...e, case: c }));
+            name = `${c.refCode || `Case #${c.id}`} - ${c.title}`;
+        }
+        if (events.length === 0) return ctx.answerCbQuery('No events to export.');
+
+        await ctx.answerCbQuery();
+        const slug = ctx.match[1] === 'all' ? 'calendar' : name.split(' ')[0].replace(/[^\w-]/g, '');
+        await ctx.replyWithDocument({ source: Buffer.from(buildIcs(events, name), 'utf-8'), filename: `${slug || 'case'}.ics` });
+    });
+
+    // From the deadlines panel: put the computed deadlines on the calendar
+    registry.action(/^deadline_cal_(\d+)/, async (ctx) => {
+        const c = await loadCase(ctx, parseInt(ctx.match[1]), 'edit');
+        if (!c) return;
+        const report = getCaseDeadlines(c);
+        if (!report || report.deadlines.length === 0) return ctx.answerCbQuery('No deadlines to add.');
+
+        const added = await addDeadlineEvents(c, report.deadlines, await userId(ctx));
+        await ctx.answerCbQuery(added > 0 ? `Added ${added} deadline${added === 1 ? '' : 's'} to the calendar.` : 'Already on the calendar.', { show_alert: true });
+    });
+}
@@ -0,0 +1,316 @@
+import { User } from '@prisma/client';
+import { InlineKeyboardButton } from 'telegraf/types';
+import { prisma } from '../../services/db';
+import { removeCaseDocuments } from '../../services/documentService';
+import { resolveActor, isAllowed } from '../../services/authorization';
+import { statusLabel, statusName } from '../../services/caseStatusService';
+import { getLatestAnalysis, crossCheckWarning } from '../../services/analysisService';
+import { getCaseDeadlines, nextDeadline, formatDeadline } from '../../services/deadlineService';
+import { listCases, facetValues, defaultHistoryQuery, hasFilters, canViewFirm, HistoryQuery, HistoryFacet, CaseListItem, HISTORY_FACETS, HISTORY_PAGE_SIZE } from '../../services/caseListService';
+import { CommandRegistry } from '../registry';
+import { BotContext } from '../session';
+import { escapeMd, loadCase } from '../helpers';
+
+const SHARED_WITH_ME_ROW = [{ text: '🤝 Shared with me', callback_data: 'shared_with_me' }];
+const MAX_FACET_VALUES = 6;
+
+const FACET_LABELS: Record<HistoryFacet, string> = {
+    status: 'Status',
+    jurisdiction: 'Jurisdiction',
+    category: 'Category'
+};
+
+function currentQuery(ctx: BotContext): HistoryQuery {
+    return ctx.session.data.historyQuery ?? defaultHistoryQuery();
+}
+
+function userShortName(user: CaseListItem['user']): string {
+    return user.username ? `@${user.username}` : (user.fullName || user.firstName || `User ${user.id}`);
+}
+
+function facetValueLabel(facet: HistoryFacet, value: string): string {
+    return facet === 'status' ? statusName(value) : value;
+}
+
+function describeFilters(query: HistoryQuery): string {
+    const parts: string[] = [];
+    if (query.search) parts.push(`"${query.search}"`);
+    for (const facet of HISTORY_FACETS) {
+        const value = query[facet];
+        if (value) parts.push(`${FACET_LABELS[facet]}: ${facetValueLabel(facet, value)}`);
+    }
+    return parts.join(' · ');
+}
+
+async function render(ctx: BotContext, edit: boolean, text: string, inline_keyboard: InlineKeyboardButton[][]) {
+    const extra = { parse_mode: 'Markdown' as const, reply_markup: { inline_keyboard } };
+    if (edit) {
+        // Ignore "message is not modified" when the same page is tapped twice
+        await ctx.editMessageText(text, extra).catch(() => { });
+    } else {
+        await ctx.reply(text, extra);
+    }
+}
+
+// Paged case list for the query stored in the session
+async function showHistory(ctx: BotContext, edit: boolean) {
+    const user = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from!.id) } });
+    if (!user) return ctx.reply('Please /start the bot first.');
+
+    const query = currentQuery(ctx);
+    const firmAllowed = canViewFirm(user);
+    if (query.scope === 'firm' && !firmAllowed) query.scope = 'mine';
+
+    const result = await listCases(user, query);
+    query.page = result.page;
+    ctx.session.data.historyQuery = query;
+
+    const firm = query.scope === 'firm';
+    let msg = firm ? '🏢 **Firm Case History**\n' : '📂 **My Case History**\n';
+    if (result.total === 0) {
+        msg += hasFilters(query) ? '\nNo cases match these filters.' : '\nNo cases found. Start one with /newbrief';
+    } else {
+        const from = result.page * HISTORY_PAGE_SIZE + 1;
+        msg += `Cases ${from}-${from + result.cases.length - 1} of ${result.total}, ${query.sort === 'created' ? 'newest first' : 'recently updated first'}\n`;
+    }
+    const filters = describeFilters(query);
+    if (filters) msg += `\n🔎 ${escapeMd(filters)}\n`;
+    if (result.total > 0) msg += '\n_Select a case to view, simulate, or delete:_';
+
+    const rows: InlineKeyboardButton[][] = result.cases.map(c => {
+        const owner = firm && c.userId !== user.id ? ` (${userShortName(c.user)})` : '';
+        return [
+            { text: `📂 ${c.refCode || `ID:${c.id}`}: ${c.title}${owner}`.substring(0, 60), callback_data: `view_case_${c.id}` },
+            { text: '🎲', callback_data: `scenario_case_${c.id}` },
+            { text: '🗑', callback_data: `delete_case_${c.id}` }
+        ];
+    });
+
+    if (result.pages > 1) {
+        const nav: InlineKeyboardButton[] = [];
+        if (result.page > 0) nav.push({ text: '◀️ Prev', callback_data: `hist_page_${result.page - 1}` });
+        nav.push({ text: `${result.page + 1}/${result.pages}`, callback_data: 'hist_noop' });
+        if (result.page < result.pages - 1) nav.push({ text: 'Next ▶️', callback_data: `hist_page_${result.page + 1}` });
+        rows.push(nav);
+    }
+
+    rows.push([
+        { text: '🔎 Filters', callback_data: 'hist_filters' },
+        { text: `↕️ Sort: ${query.sort === 'created' ? 'Created' : 'Updated'}`, callback_data: 'hist_sort' }
+    ]);
+    if (hasFilters(query)) rows.push([{ text: '✖️ Clear Filters', callback_data: 'hist_clear' }]);
+    if (firmAllowed) rows.push([{ text: firm ? '👤 My Cases' : '🏢 Firm Cases', callback_data: 'hist_scope' }]);
+    rows.push(SHARED_WITH_ME_ROW);
+
+    await render(ctx, edit, msg, rows);
+}
+
+async function showHistoryFilters(ctx: BotContext, user: User) {
+    const query = currentQuery(ctx);
+    const rows: InlineKeyboardButton[][] = [];
+
+    for (const facet of HISTORY_FACETS) {
+        const values = (await facetValues(user, query.scope, facet)).slice(0, MAX_FACET_VALUES);
+        const buttons = values.map((v, i) => ({
+            text: `${query[facet] === v ? '✅ ' : ''}${FACET_LABELS[facet]}: ${facetValueLabel(facet, v)}`.substring(0, 40),
+            callback_data: `hist_f_${facet}_${i}`
+        }));
+        for (let i = 0; i < buttons.length; i += 2) rows.push(buttons.slice(i, i + 2));
+    }
+
+    let msg = '🔎 **Filter Cases**\n\n';
+    msg += rows.length > 0 ? 'Tap a value to filter, tap it again to clear it.\n' : '_No status, jurisdiction or category values to filter on yet._\n';
+    msg += '\nArchived cases only appear when you filter on Status: Archived.';
+    msg += '\nTo search titles and descriptions, send `/history smith contract`.';
+    rows.push([{ text: '🔙 Back to History', callback_data: 'hist_back' }]);
+
+    await render(ctx, true, msg, rows);
+}
+
+// Case management: history, case view and deletion
+export function registerCases(registry: CommandRegistry) {
+    registry.command({ name: 'history', description: 'View your saved cases', section: 'cases', usage: '[search words]' }, async (ctx) => {
+        // "/history smith contract" searches titles and descriptions
+        const search = ctx.message.text.split(' ').slice(1).join(' ').trim();
+        ctx.session.data.historyQuery = { ...defaultHistoryQuery(), search: search || undefined };
+        await showHistory(ctx, false);
+    });
+
+    // Paging, sorting and scope - all edit the list in place
+    registry.action(/^hist_page_(\d+)/, async (ctx) => {
+        await ctx.answerCbQuery();
+        ctx.session.data.historyQuery = { ...currentQuery(ctx), page: parseInt(ctx.match[1]) };
+        await showHistory(ctx, true);
+    });
+
+    registry.action('hist_sort', async (ctx) => {
+        const query = currentQuery(ctx);
+        const sort = query.sort === 'updated' ? 'created' : 'updated';
+        await ctx.answerCbQuery(sort === 'created' ? 'Newest cases first' : 'Recently updated first');
+        ctx.session.data.historyQuery = { ...query, sort, page: 0 };
+        await showHistory(ctx, true);
+    });
+
+    registry.action('hist_scope', async (ctx) => {
+        const query = currentQuery(ctx);
+        await ctx.answerCbQuery();
+        ctx.session.data.historyQuery = { ...query, scope: query.scope === 'firm' ? 'mine' : 'firm', page: 0 };
+        await showHistory(ctx, true);
+    });
+
+    registry.action('hist_clear', async (ctx) => {
+        const { scope, sort } = currentQuery(ctx);
+        await ctx.answerCbQuery('Filters cleared');
+        ctx.session.data.historyQuery = { ...defaultHistoryQuery(), scope, sort };
+        await showHistory(ctx, true);
+    });
+
+    registry.action('hist_back', async (ctx) => {
+        await ctx.answerCbQuery();
+        await showHistory(ctx, true);
+    });
+
+    // Page indicator button
+    registry.action('hist_noop', async (ctx) => {
+        await ctx.answerCbQuery();
+    });
+
+    registry.action('hist_filters', async (ctx) => {
+        await ctx.answerCbQuery();
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from.id) } });
+        if (!user) return ctx.reply('Please /start the bot first.');
+        await showHistoryFilters(ctx, user);
+    });
+
+    // Tap a value to filter on it, tap it again to clear it
+    registry.action(/^hist_f_(status|jurisdiction|category)_(\d+)/, async (ctx) => {
+        const facet = ctx.match[1] as HistoryFacet;
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from.id) } });
+        if (!user) return ctx.answerCbQuery('Please /start the bot first.');
+
+        const query = currentQuery(ctx);
+        const value = (await facetValues(user, query.scope, facet))[parseInt(ctx.match[2])];
+        if (!value) return ctx.answerCbQuery('Filter no longer available.');
+
+        await ctx.answerCbQuery();
+        ctx.session.data.historyQuery = { ...query, [facet]: query[facet] === value ? undefined : value, page: 0 };
+        await showHistory(ctx, true);
+    });
+
+    registry.action(/^view_case_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const c = await loadCase(ctx, caseId, 'read');
+        if (!c) return;
+        const documentCount = await prisma.document.count({ where: { caseId } });
+        const analysis = await getLatestAnalysis(caseId);
+
+        // Shared viewers don't get the owner-only actions
+        const actor = await resolveActor(ctx.from.id);
+        const creator = await prisma.user.findUnique({ where: { id: c.userId } });
+        const isOwner = !!actor && !!creator && isAllowed(actor, creator, 'share');
+
+        // Store case in session for Q&A
+        const userId = ctx.from.id;
+        ctx.session.data.currentCaseId = caseId;
+        ctx.session.data.currentRefCode = c.refCode || String(caseId);
+
+        await ctx.answerCbQuery();
+        let msg = `📂 **Case View: ${escapeMd(c.refCode || String(c.id))}**\n\n`;
+        msg += `**Title:** ${escapeMd(c.title)}\n`;
+        msg += `**Status:** ${statusLabel(c.status)}\n`;
+        if (c.parties) msg += `**Parties:** ${escapeMd(c.parties)}\n`;
+        if (c.jurisdiction || c.court) msg += `**Forum:** ${escapeMd([c.court, c.jurisdiction].filter(Boolean).join(', '))}\n`;
+        msg += `**Documents:** ${documentCount}\n`;
+        const deadlines = getCaseDeadlines(c);
+        const next = deadlines && nextDeadline(deadlines);
+        if (next) msg += `**Next Deadline:** ${escapeMd(formatDeadline(next))}\n`;
+        if (analysis) {
+            msg += `**Viability:** ${analysis.viabilityScore}/100 - ${escapeMd(analysis.prediction)} _(analysis v${analysis.version}${analysis.source === 'offline' ? ', offline engine' : ''})_\n`;
+            const warning = crossCheckWarning(analysis);
+            if (warning) msg += `⚠️ _${escapeMd(warning)}_\n`;
+            msg += `**Key Issues:** ${escapeMd(analysis.keyIssues.slice(0, 3).join('; ') || 'None identified')}\n`;
+        }
+        if (c.analysisStatus === 'INCOMPLETE') {
+            msg += analysis ? `⚠️ _The last re-analysis was incomplete._\n` : `**Analysis:** ⚠️ Incomplete - tap "🧠 Analyse" to retry\n`;
+        }
+        msg += `**Description:** ${escapeMd(c.description?.substring(0, 500) || 'No description')}...\n\n`;
+        msg += `_Select an action below:_`;
+
+        await ctx.replyWithMarkdown(msg, {
+            reply_markup: {
+                inline_keyboard: [
+                    [
+                        { text: '❓ Ask Question', callback_data: `qa_case_${c.id}` },
+                        { text: '🎲 Run Scenario', callback_data: `scenario_case_${c.id}` }
+                    ],
+                    [
+                        { text: '⚡ Quick Scenarios', callback_data: `quick_scenario_${c.id}` },
+                        { text: `📎 Documents (${documentCount})`, callback_data: `case_docs_${c.id}` }
+                    ],
+                    [
+                        { text: '🔍 Find Precedents', callback_data: `research_case_${c.id}` },
+                        { text: '📤 Export', callback_data: `export_case_${c.id}` }
+                    ],
+                    [
+                        { text: `🔄 Status: ${statusName(c.status)}`, callback_data: `case_status_${c.id}` },
+                        { text: analysis ? '🧠 Re-analyse' : '🧠 Analyse', callback_data: `reanalyse_${c.id}` }
+                    ],
+                    [
+                        { text: '⏳ Deadlines', callback_data: `case_deadlines_${c.id}` },
+                        { text: '📅 Calendar', callback_data: `case_calendar_${c.id}` },
+                        { text: '🧾 Timeline', callback_data: `case_timeline_${c.id}` }
+                    ],
+                    ...(isOwner ? [[
+                        { text: '📤 Share', callback_data: `share_case_${c.id}` },
+                        { text: '👥 Access', callback_data: `case_shares_${c.id}` }
+                    ]] : []),
+                    [
+                        { text: '🔙 Back to History', callback_data: 'refresh_history' },
+                        ...(isOwner ? [{ text: '🗑 Delete', callback_data: `delete_case_${c.id}` }] : [])
+                    ]
+                ]
+            }
+        });
+    });
+
+    registry.action(/^delete_case_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        if (!await loadCase(ctx, caseId, 'delete')) return;
+        await ctx.answerCbQuery();
+
+        ctx.editMessageText(`⚠️ **Delete Case?**\n\nAre you sure you want to permanently delete this case? This action cannot be undone.`, {
+            reply_markup: {
+                inline_keyboard: [[
+                    { text: '✅ Yes, Delete', callback_data: `confirm_delete_${caseId}` },
+                    { text: '❌ No, Cancel', callback_data: `view_case_${caseId}` }
+                ]]
+            }
+        });
+    });
+
+    registry.action(/^confirm_delete_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        if (!await loadCase(ctx, caseId, 'delete')) return;
+        try {
+            await removeCaseDocuments([caseId]);
+            await prisma.caseMatter.delete({ where: { id: caseId } });
+            await ctx.answerCbQuery('🗑 Case Deleted');
+        } catch (e) {
+            await ctx.answerCbQuery('Error deleting case.');
+        }
+
+        await showHistory(ctx, true);
+    });
+
+    // Refresh History Handler - keeps the current page and filters
+    registry.action('refresh_history', async (ctx) => {
+        await ctx.answerCbQuery();
+        await showHistory(ctx, false);
+    });
+
+    registry.action(/^saved_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        if (!await loadCase(ctx, caseId, 'read')) return;
+        await ctx.answerCbQuery(`✅ Case #${caseId} Saved!`);
+    });
+}
@@ -0,0 +1,97 @@
+import { CaseMatter } from '@prisma/client';
+import { canActOnCase } from '../../services/authorization';
+import { caseProfile, formatDeadline, refreshCaseDeadlines, DeadlineOverrides } from '../../services/deadlineService';
+import { CLAIM_LABELS, ClaimType, isClaimType } from '../../core/jurisdictions';
+import { formatDate, parseIsoDate } from '../../core/dates';
+import { CommandRegistry } from '../registry';
+import { BotContext } from '../session';
+import { escapeMd, loadCase } from '../helpers';
+
+const CLAIM_TYPES = Object.keys(CLAIM_LABELS) as ClaimType[];
+
+// Limitation date and filing windows, recomputed from the current facts
+async function showDeadlinePanel(ctx: BotContext, c: CaseMatter, edit: boolean, overrides: DeadlineOverrides = {}) {
+    const canEdit = await canActOnCase(ctx.from!.id, c.id, 'edit');
+    const profile = caseProfile(c);
+    const applied = canEdit ? overrides : {};
+    const report = await refreshCaseDeadlines(c, applied);
+
+    let msg = `⏳ **Deadlines: ${escapeMd(c.refCode || String(c.id))}**\n\n`;
+    if (!profile || !report) {
+        msg += `No jurisdiction profile matches this case's forum${c.jurisdiction ? ` (${escapeMd(c.jurisdiction)})` : ''}, so limitation can't be worked out.\n`;
+        msg += `_Covered: Nigeria (federal/state), England & Wales, US (federal/state), Ghana, Kenya, South Africa._`;
+    } else {
+        msg += `**Forum:** ${escapeMd(profile.name)}\n`;
+        msg += `**Claim:** ${CLAIM_LABELS[report.claim]}${applied.claim || c.limitationClaim ? '' : ' _(inferred from the facts)_'}\n`;
+        msg += `**Accrued:** ${report.accrual ? formatDate(report.accrual) : 'unknown'}${report.accrual && !applied.accrual && !c.accrualDate ? ' _(earliest date in the facts)_' : ''}\n\n`;
+
+        if (report.deadlines.length === 0) {
+            msg += `_No dates found in the facts. Set the accrual date with /limitation ${c.id} YYYY-MM-DD._\n`;
+        }
+        report.deadlines.forEach(d => {
+            msg += `• **${escapeMd(formatDeadline(d))}**\n   _${escapeMd(d.authority)}${d.note ? ` - ${escapeMd(d.note)}` : ''}_\n`;
+            if (d.kind === 'filing' && d.fromText) msg += `   From: "${escapeMd(d.fromText.substring(0, 100))}"\n`;
+        });
+        msg += `\n_General rules only - check extensions and special regimes. Weekends and public holidays are skipped._`;
+        if (canEdit) msg += `\n_Wrong claim type? Pick one below, or use /limitation ${c.id} [claim] [YYYY-MM-DD]._`;
+    }
+
+    const claims = canEdit && profile ? CLAIM_TYPES.filter(claim => claim !== report?.claim) : [];
+    const rows = [];
+    for (let i = 0; i < claims.length; i += 2) {
+        rows.push(claims.slice(i, i + 2).map(claim => ({ text: CLAIM_LABELS[claim], callback_data: `deadline_claim_${c.id}_${claim}` })));
+    }
+    const extra = {
+        parse_mode: 'Markdown' as const,
+        reply_markup: {
+            inline_keyboard: [
+                ...(canEdit && report && report.deadlines.length > 0 ? [[{ text: '📅 Add to Calendar', callback_data: `deadline_cal_${c.id}` }]] : []),
+                ...rows,
+                [{ text: '🔙 Back to Case', callback_data: `view_case_${c.id}` }]
+            ]
+        }
+    };
+
+    if (edit) {
+        await ctx.editMessageText(msg, extra).catch(() => ctx.reply(msg, extra));
+    } else {
+        await ctx.reply(msg, extra);
+    }
+}
+
+// Limitation periods and court filing deadlines
+export function registerDeadlines(registry: CommandRegistry) {
+    registry.command({ name: 'limitation', description: 'Limitation date and filing deadlines', section: 'cases', usage: '[CaseID] [claim] [YYYY-MM-DD]' }, async (ctx) => {
+        const [, id, ...args] = ctx.message.text.trim().split(/\s+/);
+        if (!id) return ctx.reply(`Usage: /limitation [CaseID] [claim] [YYYY-MM-DD]\n\nClaims: ${CLAIM_TYPES.join(', ')}\nThe date is when the cause of action accrued.`);
+
+        const overrides: DeadlineOverrides = {};
+        for (const arg of args) {
+            const date = parseIsoDate(arg);
+            if (date) overrides.accrual = date;
+            else if (isClaimType(arg)) overrides.claim = arg;
+            else return ctx.reply(`Unknown claim or date "${arg}".\n\nClaims: ${CLAIM_TYPES.join(', ')}\nDates: YYYY-MM-DD`);
+        }
+
+        const c = await loadCase(ctx, parseInt(id), args.length > 0 ? 'edit' : 'read');
+        if (!c) return;
+        await showDeadlinePanel(ctx, c, false, overrides);
+    });
+
+    registry.action(/^case_deadlines_(\d+)/, async (ctx) => {
+        const c = await loadCase(ctx, parseInt(ctx.match[1]), 'read');
+        if (!c) return;
+        await ctx.answerCbQuery();
+        await showDeadlinePanel(ctx, c, false);
+    });
+
+    registry.action(/^deadline_claim_(\d+)_(\w+)$/, async (ctx) => {
+        const claim = ctx.match[2];
+        const c = await loadCase(ctx, parseInt(ctx.match[1]), 'edit');
+        if (!c) return;
+        if (!isClaimType(claim)) return ctx.answerCbQuery('Unknown claim type.');
+
+        await ctx.answerCbQuery(`Claim: ${CLAIM_LABELS[claim]}`);
+        await showDeadlinePanel(ctx, c, true, { claim });
+    });
+}
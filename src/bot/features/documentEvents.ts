@@ -0,0 +1,100 @@
+import { CaseMatter, Document } from '@prisma/client';
+import { InlineKeyboardButton } from 'telegraf/types';
+import { prisma } from '../../services/db';
+import { canActOnCase } from '../../services/authorization';
+import { documentLabel } from '../../services/documentService';
+import { DocumentEvent, addDocumentEvents, findDocumentEvents } from '../../services/documentEventService';
+import { eventIcon } from '../../services/calendarService';
+import { formatDate } from '../../core/dates';
+import { CommandRegistry } from '../registry';
+import { BotContext } from '../session';
+import { escapeMd, loadCase } from '../helpers';
+
+const MAX_LISTED = 15;
+const BUTTONS_PER_ROW = 5;
+
+async function loadDocument(ctx: BotContext, docId: number, action: 'read' | 'edit'): Promise<{ doc: Document; c: CaseMatter } | null> {
+    const doc = await prisma.document.findUnique({ where: { id: docId } });
+    if (!doc) {
+        await ctx.answerCbQuery('Document not found.');
+        return null;
+    }
+    const c = await loadCase(ctx, doc.caseId, action);
+    return c ? { doc, c } : null;
+}
+
+// The dates found in a document, each with its page and a button to add it
+async function showDocumentEventsPanel(ctx: BotContext, doc: Document, c: CaseMatter, events: DocumentEvent[], edit: boolean) {
+    const canEdit = await canActOnCase(ctx.from!.id, c.id, 'edit');
+    const listed = events.slice(0, MAX_LISTED);
+    const pending = events.filter(e => !e.added).length;
+
+    let msg = `🗓 **Dates in ${escapeMd(documentLabel(doc))}**\n\n`;
+    if (events.length === 0) msg += `_No dates found in this document._\n`;
+    listed.forEach((e, i) => {
+        const page = e.page ? ` _(p. ${e.page})_` : '';
+        msg += `${i + 1}. ${eventIcon(e.kind)} **${formatDate(e.date)}** - ${escapeMd(e.title)}${page}${e.added ? ' ✓' : ''}\n`;
+    });
+    if (events.length > listed.length) msg += `\n_...and ${events.length - listed.length} more, included in "Add All"._\n`;
+    if (canEdit && pending > 0) msg += `\nTap a number to add that date to the case timeline. ✓ = already added.`;
+
+    const numbers: InlineKeyboardButton[] = canEdit
+        ? listed.map((e, i) => ({ text: e.added ? `✓ ${i + 1}` : `➕ ${i + 1}`, callback_data: e.added ? 'cal_noop' : `doc_ev_add_${doc.id}_${i}` }))
+        : [];
+    const rows: InlineKeyboardButton[][] = [];
+    for (let i = 0; i < numbers.length; i += BUTTONS_PER_ROW) rows.push(numbers.slice(i, i + BUTTONS_PER_ROW));
+
+    const extra = {
+        parse_mode: 'Markdown' as const,
+        reply_markup: {
+            inline_keyboard: [
+                ...rows,
+                ...(canEdit && pending > 0 ? [[{ text: `✅ Add All (${pending})`, callback_data: `doc_ev_all_${doc.id}` }]] : []),
+                [
+                    { text: '🧾 Timeline', callback_data: `case_timeline_${c.id}` },
+                    { text: '📎 Documents', callback_data: `case_docs_${c.id}` }
+                ],
+                [{ text: '🔙 Back to Case', callback_data: `view_case_${c.id}` }]
+            ]
+        }
+    };
+
+    if (edit) {
+        await ctx.editMessageText(msg, extra).catch(() => ctx.reply(msg, extra));
+    } else {
+        await ctx.reply(msg, extra);
+    }
+}
+
+// One candidate by its position in the list, or all of them when `index` is null
+async function addFromDocument(ctx: BotContext, docId: number, index: number | null) {
+    const loaded = await loadDocument(ctx, docId, 'edit');
+    if (!loaded) return;
+
+    const events = await findDocumentEvents(loaded.doc);
+    const picked = index === null ? events : events.slice(index, index + 1);
+    if (picked.length === 0) return ctx.answerCbQuery('That date is no longer in the document.');
+
+    const user = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from!.id) } });
+    const added = await addDocumentEvents(loaded.doc, picked, user?.id ?? null);
+    await ctx.answerCbQuery(added > 0 ? `Added ${added} date${added === 1 ? '' : 's'} to the timeline.` : 'Already on the timeline.');
+    await showDocumentEventsPanel(ctx, loaded.doc, loaded.c, events, true);
+}
+
+// Hearings, contract dates and deadlines found in uploaded documents
+export function registerDocumentEvents(registry: CommandRegistry) {
+    registry.action(/^doc_events_(\d+)/, async (ctx) => {
+        const loaded = await loadDocument(ctx, parseInt(ctx.match[1]), 'read');
+        if (!loaded) return;
+        await ctx.answerCbQuery('Reading document...');
+        await showDocumentEventsPanel(ctx, loaded.doc, loaded.c, await findDocumentEvents(loaded.doc), false);
+    });
+
+    registry.action(/^doc_ev_add_(\d+)_(\d+)$/, async (ctx) => {
+        await addFromDocument(ctx, parseInt(ctx.match[1]), parseInt(ctx.match[2]));
+    });
+
+    registry.action(/^doc_ev_all_(\d+)$/, async (ctx) => {
+        await addFromDocument(ctx, parseInt(ctx.match[1]), null);
+    });
+}
@@ -0,0 +1,115 @@
+import { prisma } from '../../services/db';
+import { listDocuments, getDocumentFile, removeDocument, documentIcon, documentLabel } from '../../services/documentService';
+import { CommandRegistry } from '../registry';
+import { escapeMd, loadCase } from '../helpers';
+
+// Case documents: list, re-download and remove stored uploads
+export function registerDocuments(registry: CommandRegistry) {
+    registry.note('cases', 'Open a case → "Documents" to re-download or remove uploads, or 🗓 to review the dates in one');
+
+    // LIST DOCUMENTS
+    registry.action(/^case_docs_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const c = await loadCase(ctx, caseId, 'read');
+        if (!c) return;
+
+        const docs = await listDocuments(caseId);
+        await ctx.answerCbQuery();
+
+        if (docs.length === 0) {
+            return ctx.reply(`📎 **Documents: ${c.refCode || c.id}**\n\nNo documents yet. Use "Upload More" or send a file to add one.`, {
+                reply_markup: {
+                    inline_keyboard: [
+                        [{ text: '📎 Upload More', callback_data: `upload_more_${caseId}` }],
+                        [{ text: '🔙 Back to Case', callback_data: `view_case_${caseId}` }]
+                    ]
+                }
+            });
+        }
+
+        let msg = `📎 **Documents: ${escapeMd(c.refCode || String(c.id))}**\n\n`;
+        docs.forEach((d, i) => {
+            const size = d.size ? ` (${Math.ceil(d.size / 1024)} KB)` : '';
+            msg += `${i + 1}. ${documentIcon(d)} ${escapeMd(documentLabel(d))}${size} - ${d.createdAt.toLocaleDateString()}\n`;
+        });
+
+        await ctx.replyWithMarkdown(msg, {
+            reply_markup: {
+                inline_keyboard: [
+                    ...docs.map((d, i) => [
+                        { text: `📥 ${i + 1}. ${documentLabel(d).substring(0, 30)}`, callback_data: `doc_get_${d.id}` },
+                        ...(d.textContent || d.type === 'PDF' ? [{ text: '🗓', callback_data: `doc_events_${d.id}` }] : []),
+                        { text: '🗑', callback_data: `doc_rm_${d.id}` }
+                    ]),
+                    [{ text: '🔙 Back to Case', callback_data: `view_case_${caseId}` }]
+                ]
+            }
+        });
+    });
+
+    // RE-DOWNLOAD
+    registry.action(/^doc_get_(\d+)/, async (ctx) => {
+        const docId = parseInt(ctx.match[1]);
+        const doc = await prisma.document.findUnique({ where: { id: docId } });
+        if (!doc) return ctx.answerCbQuery('Document not found.');
+        if (!await loadCase(ctx, doc.caseId, 'read')) return;
+
+        await ctx.answerCbQuery('Preparing file...');
+        try {
+            const buffer = await getDocumentFile(doc);
+            if (buffer) {
+                return ctx.replyWithDocument({ source: buffer, filename: doc.fileName || `document_${doc.id}` });
+            }
+
+            // Older rows only kept the extracted text
+            if (doc.textContent) {
+                return ctx.replyWithDocument({ source: Buffer.from(doc.textContent, 'utf-8'), filename: `document_${doc.id}.txt` });
+            }
+            await ctx.reply('⚠️ No stored file for this document.');
+        } catch (e) {
+            console.error('[Documents] Download failed:', e);
+            await ctx.reply('❌ Could not retrieve the file. It may have been removed from storage.');
+        }
+    });
+
+    // REMOVE (with confirmation)
+    registry.action(/^doc_rm_(\d+)/, async (ctx) => {
+        const docId = parseInt(ctx.match[1]);
+        const doc = await prisma.document.findUnique({ where: { id: docId } });
+        if (!doc) return ctx.answerCbQuery('Document not found.');
+        if (!await loadCase(ctx, doc.caseId, 'edit')) return;
+
+        await ctx.answerCbQuery();
+        await ctx.reply(`⚠️ Remove **${escapeMd(documentLabel(doc))}** from this case?\n\nThe stored file will be deleted.`, {
+            parse_mode: 'Markdown',
+            reply_markup: {
+                inline_keyboard: [[
+                    { text: '✅ Yes, Remove', callback_data: `confirm_doc_rm_${docId}` },
+                    { text: '❌ Cancel', callback_data: `case_docs_${doc.caseId}` }
+                ]]
+            }
+        });
+    });
+
+    registry.action(/^confirm_doc_rm_(\d+)/, async (ctx) => {
+        const docId = parseInt(ctx.match[1]);
+        const existing = await prisma.document.findUnique({ where: { id: docId } });
+        if (!existing) return ctx.answerCbQuery('Document not found.');
+        if (!await loadCase(ctx, existing.caseId, 'edit')) return;
+
+        try {
+            const doc = await removeDocument(docId);
+            if (!doc) return ctx.answerCbQuery('Document not found.');
+
+            await ctx.answerCbQuery('🗑 Document Removed');
+            await ctx.editMessageText(`🗑 **${documentLabel(doc)}** removed.`, {
+                reply_markup: {
+                    inline_keyboard: [[{ text: '📎 Back to Documents', callback_data: `case_docs_${doc.caseId}` }]]
+                }
+            });
+        } catch (e) {
+            console.error('[Documents] Remove failed:', e);
+            await ctx.answerCbQuery('Error removing document.');
+        }
+    });
+}
@@ -0,0 +1,263 @@
+import { CaseMatter } from '@prisma/client';
+import { prisma } from '../../services/db';
+import { generatePDF, generateWord } from '../../services/exportService';
+import { getStatusTimeline } from '../../services/caseStatusService';
+import { caseAnalysisText } from '../../services/analysisService';
+import { CommandRegistry } from '../registry';
+import { loadCase } from '../helpers';
+
+// Case export to PDF and Word
+export function registerExport(registry: CommandRegistry) {
+    registry.note('export', 'Select "Export" on any case');
+    registry.note('export', 'Choose PDF or Word format');
+
+    registry.command({ name: 'export', description: 'Download a case brief', section: 'export', usage: '[CaseID]' }, async (ctx) => {
+        const parts = ctx.message.text.split(' ');
+        const userId = ctx.from.id;
+
+        // If specific ID provided
+        if (parts.length >= 2) {
+            const caseId = parseInt(parts[1]);
+            const userCase = await loadCase(ctx, caseId, 'read');
+            if (!userCase) return;
+            return showExportMenu(ctx, userCase);
+        }
+
+        // Else show list
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(userId) }, include: { cases: true } });
+        if (!user || user.cases.length === 0) return ctx.reply('No cases to export.');
+
+        ctx.reply(`📤 **Select Case to Export:**`, {
+            reply_markup: {
+                inline_keyboard: user.cases.slice(-5).map(c => [
+                    { text: `📤 ${c.refCode || c.id}: ${c.title}`, callback_data: `pre_export_${c.id}` }
+                ])
+            }
+        });
+    });
+
+    registry.action(/^pre_export_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const c = await loadCase(ctx, caseId, 'read');
+        if (!c) return;
+
+        await ctx.answerCbQuery();
+        showExportMenu(ctx, c);
+    });
+
+    function showExportMenu(ctx: any, c: any) {
+        ctx.reply(`📄 **Export Case: ${c.refCode || c.id}**\nSelect format:`, {
+            reply_markup: {
+                inline_keyboard: [[
+                    { text: '📄 PDF', callback_data: `export_pdf_${c.id}` },
+                    { text: '📝 Word (.docx)', callback_data: `export_word_${c.id}` }
+                ]]
+            }
+        });
+    }
+
+    // The plain PDF / Word buttons give the full report
+    registry.action(/^export_(pdf|word)_(\d+)/, async (ctx) => {
+        const format = ctx.match[1] as 'pdf' | 'word';
+        const c = await loadCase(ctx, parseInt(ctx.match[2]), 'read');
+        if (!c) return;
+
+        await ctx.answerCbQuery('Generating export...');
+        await sendExport(ctx, c, format, 'full');
+    });
+
+    // Export for specific case - show extent options first
+    registry.action(/^export_case_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        if (!await loadCase(ctx, caseId, 'read')) return;
+        await ctx.answerCbQuery();
+        await ctx.reply(`📤 **Export Case #${caseId}**\n\nWhat would you like to include?`, {
+            reply_markup: {
+                inline_keyboard: [
+                    [{ text: '📋 Full Report (All)', callback_data: `exp_full_${caseId}` }],
+                    [{ text: '📊 Analysis Only', callback_data: `exp_analysis_${caseId}` }],
+                    [{ text: '❓ Q&A History Only', callback_data: `exp_qa_${caseId}` }],
+                    [{ text: '⚙️ Custom Export', callback_data: `export_custom_${caseId}` }],
+                    [{ text: '❌ Cancel', callback_data: 'qa_done' }]
+                ]
+            }
+        });
+    });
+
+    // Export extent handlers
+    registry.action(/^exp_(full|analysis|qa)_(\d+)/, async (ctx) => {
+        const extent = ctx.match[1];
+        const caseId = parseInt(ctx.match[2]);
+        if (!await loadCase(ctx, caseId, 'read')) return;
+        await ctx.answerCbQuery();
+        await ctx.reply(`Select format for ${extent === 'full' ? 'Full Report' : extent === 'analysis' ? 'Analysis' : 'Q&A'}:`, {
+            reply_markup: {
+                inline_keyboard: [[
+                    { text: '📄 PDF', callback_data: `export_pdf_${extent}_${caseId}` },
+                    { text: '📝 Word', callback_data: `export_word_${extent}_${caseId}` }
+                ]]
+            }
+        });
+    });
+
+    // Actual PDF/Word export with extent
+    registry.action(/^export_(pdf|word)_(full|analysis|qa)_(\d+)/, async (ctx) => {
+        const format = ctx.match[1] as 'pdf' | 'word';
+        const extent = ctx.match[2] as 'full' | 'analysis' | 'qa';
+        const c = await loadCase(ctx, parseInt(ctx.match[3]), 'read');
+        if (!c) return;
+
+        await ctx.answerCbQuery('Generating export...');
+        await sendExport(ctx, c, format, extent);
+    });
+
+    // Build the brief with exportService and send it
+    async function sendExport(ctx: any, c: CaseMatter, format: 'pdf' | 'word', extent: 'full' | 'analysis' | 'qa') {
+        await ctx.reply(`📄 Generating ${format.toUpperCase()} export...`);
+
+        try {
+            // Parse Q&A history from database (JSON string)
+            let qaHistory: Array<{ role: 'user' | 'bot', content: string }> = [];
+            try {
+                if (c.qaHistory) {
+                    qaHistory = JSON.parse(c.qaHistory);
+                }
+            } catch (e) { console.error('Failed to parse qaHistory:', e); }
+
+            // Prepare export data from DATABASE (not session)
+            const exportData = {
+                refCode: c.refCode || `CASE-${c.id}`,
+                title: c.title,
+                status: c.status,
+                statusTimeline: await getStatusTimeline(c),
+                analysis: await caseAnalysisText(c) || c.description || '', // Latest structured analysis
+                conversationHistory: qaHistory // Use database Q&A history
+            };
+
+            let buffer: Buffer;
+            let filename: string;
+            let mimeType: string;
+
+            if (format === 'pdf') {
+                buffer = await generatePDF(exportData, extent);
+                filename = `case_${c.refCode || c.id}_${extent}.pdf`;
+                mimeType = 'application/pdf';
+            } else {
+                buffer = await generateWord(exportData, extent);
+                filename = `case_${c.refCode || c.id}_${extent}.docx`;
+                mimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+            }
+
+            // Send the file
+            await ctx.replyWithDocument({
+                source: buffer,
+                filename
+            });
+
+            await ctx.reply(`✅ **Export Complete**\n\nFile: ${filename}\nFormat: ${format.toUpperCase()}\nContent: ${extent === 'full' ? 'Full Report' : extent === 'analysis' ? 'Analysis Only' : 'Q&A Only'}`);
+
+        } catch (e) {
+            console.error('Export error:', e);
+            await ctx.reply(`Export failed: ${(e as Error).message?.substring(0, 100) || 'Unknown error'}`);
+        }
+    }
+
+    registry.action('export_action', async (ctx) => {
+        const userId = ctx.from.id;
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(userId) }, include: { cases: { take: 5, orderBy: { id: 'desc' } } } });
+
+        if (!user || user.cases.length === 0) {
+            return ctx.answerCbQuery('No cases to export.');
+        }
+
+        await ctx.answerCbQuery();
+
+        // Show recent cases to export
+        await ctx.reply('📤 **Select Case to Export:**', {
+            reply_markup: {
+                inline_keyboard: user.cases.map(c => [
+                    { text: `📄 ${c.refCode || c.id}: ${c.title?.substring(0, 25) || 'Case'}`, callback_data: `pre_export_${c.id}` }
+                ])
+            }
+        });
+    });
+
+    // EXPORT WIZARD HANDLERS
+    registry.action(/^export_custom_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const userId = ctx.from.id;
+        if (!await loadCase(ctx, caseId, 'read')) return;
+
+        // Clean session data for export
+        ctx.session.data.currentCaseId = caseId;
+        ctx.session.data.exportSettings = {};
+
+        await ctx.answerCbQuery();
+        await ctx.reply('📤 **Export Customization**\n\nSelect File Format:', {
+            reply_markup: {
+                inline_keyboard: [
+                    [{ text: '📄 PDF (Standard)', callback_data: `exp_fmt_PDF` }, { text: '📝 Word (Editable)', callback_data: `exp_fmt_Word` }]
+                ]
+            }
+        });
+    });
+
+    registry.action(/^exp_fmt_(PDF|Word)/, async (ctx) => {
+        const format = ctx.match[1];
+        const userId = ctx.from.id;
+        if (!ctx.session.data.currentCaseId) return ctx.answerCbQuery('Session expired. Select case again.');
+
+        ctx.session.data.exportSettings = { format: format as any };
+        ctx.session.step = 'EXPORT_WORDS';
+
+        await ctx.answerCbQuery();
+        await ctx.reply('📝 **Word Count / Formatting**\n\nEnter the maximum word count (e.g. "1000") or type "Default" for standard full length analysis.');
+    });
+
+
+    registry.step('EXPORT_WORDS', async (ctx, text) => {
+        const session = ctx.session;
+        session.data.exportSettings!.wordCount = text;
+        session.step = 'IDLE';
+
+        const expCaseId = session.data.currentCaseId;
+        if (!expCaseId) return ctx.reply('Error: Case ID lost.');
+
+        await ctx.reply('⚙️ Generating document with your settings...');
+
+        // Call Export Generation
+        const expFormat = session.data.exportSettings!.format;
+        const cExp = await loadCase(ctx, expCaseId, 'read');
+
+        if (!cExp) return;
+
+        try {
+            const exportData = {
+                refCode: cExp.refCode || 'N/A',
+                title: cExp.title,
+                status: cExp.status,
+                statusTimeline: await getStatusTimeline(cExp),
+                analysis: await caseAnalysisText(cExp) || '',
+                conversationHistory: cExp.qaHistory ? JSON.parse(cExp.qaHistory) : [],
+                scenarios: cExp.scenarios || ''
+            };
+
+            let filePath: any;
+            if (expFormat === 'Word') {
+                filePath = await generateWord(exportData, 'full');
+            } else {
+                filePath = await generatePDF(exportData, 'full');
+            }
+
+            if (session.data.exportSettings?.wordCount && session.data.exportSettings.wordCount.toLowerCase() !== 'default') {
+                await ctx.reply(`⚠️ Note: Exporting full analysis. Word count limit (${session.data.exportSettings.wordCount}) noted for future AI summarization features.`);
+            }
+
+            await ctx.replyWithDocument({ source: filePath, filename: `Case_${cExp.refCode}.${expFormat === 'Word' ? 'docx' : 'pdf'}` });
+            await ctx.reply('✅ Export Complete.');
+        } catch (e) {
+            console.error('Export failed:', e);
+            await ctx.reply('❌ Generation failed.');
+        }
+    });
+}
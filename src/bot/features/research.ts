@@ -0,0 +1,532 @@
+import { CaseMatter } from '@prisma/client';
+import { prisma } from '../../services/db';
+import { aiService, AnalysisIncompleteError, SimulationInputs } from '../../services/ai';
+import { searchAllDatabases, searchPrecedents } from '../../services/legalResearch';
+import { buildCaseFacts } from '../../services/documentService';
+import { saveAnalysis, getLatestAnalysis, caseAnalysisText, markAnalysisIncomplete, crossCheckWarning } from '../../services/analysisService';
+import { describeFactor } from '../../core/viability';
+import { CommandRegistry } from '../registry';
+import { escapeMd, loadCase, ensureAiBudget } from '../helpers';
+import { streamReply, splitMessage } from '../streaming';
+import { appendQaTurns, loadQaMemory, parseQaHistory, startNewThread, threadQuestionCount } from '../../services/qaMemoryService';
+import { sourcedContext, citedSources, formatSourceList, SourcedContext, AnswerSource } from '../../services/citationService';
+import { LegalCase } from '../../services/legalResearch';
+import { promptId } from '../../services/prompts';
+
+// The case passages relevant to `query` as numbered sources, or `fallback` when the case has no searchable documents
+async function caseContext(c: CaseMatter | null, query: string, fallback: string, precedents: LegalCase[] = []): Promise<SourcedContext> {
+    try {
+        return await sourcedContext(c, query, fallback, precedents);
+    } catch (e) {
+        console.error('[Retrieval] Retrieval failed, using the full case facts:', e);
+        return { context: fallback, sources: [] };
+    }
+}
+
+// Labels of the sources a simulation cited, shown under it and saved with it
+function sourcesFooter(sources: AnswerSource[]): string | undefined {
+    return sources.length > 0 ? `📎 Sources\n${formatSourceList(sources, false)}` : undefined;
+}
+
+// Research & analysis: precedent search, Q&A and scenario simulations
+export function registerResearch(registry: CommandRegistry) {
+    registry.note('research', 'Upload documents to get AI analysis');
+    registry.note('research', 'Use "Ask Question" to query case facts');
+    registry.note('research', 'Use "Run Scenario" to simulate outcomes');
+    registry.note('research', 'Use "Find Precedents" for legal research');
+
+    // Ask Question from History Case
+    registry.action(/^qa_case_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const c = await loadCase(ctx, caseId, 'comment');
+        if (!c) return;
+
+        const userId = ctx.from.id;
+        ctx.session.data.currentCaseId = caseId;
+        ctx.session.data.currentRefCode = c.refCode || String(caseId);
+        ctx.session.data.facts = await buildCaseFacts(c);
+        ctx.session.step = 'WAITING_QUESTION';
+
+        await ctx.answerCbQuery();
+        const asked = await threadQuestionCount(caseId);
+        const thread = asked > 0
+            ? `\n\n_Continuing the current thread (${asked} earlier question${asked === 1 ? '' : 's'}). Start a new thread to ask without them._`
+            : '';
+        await ctx.reply(`❓ **Ask a Question about Case: ${c.refCode || c.id}**\n\nType your legal question below and I will analyze it based on this case's facts.${thread}`, asked > 0 ? {
+            reply_markup: { inline_keyboard: [[{ text: '🧵 New Thread', callback_data: `qa_new_thread_${caseId}` }]] }
+        } : {});
+    });
+
+    // The excerpts behind an answer's [n] markers
+    registry.action(/^qa_sources_(\d+)_(\d+)$/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const c = await loadCase(ctx, caseId, 'read');
+        if (!c) return;
+
+        const entry = parseQaHistory(c.qaHistory)[parseInt(ctx.match[2])];
+        if (!entry?.sources?.length) return ctx.answerCbQuery('No sources recorded for this answer.');
+
+        await ctx.answerCbQuery();
+        let msg = `📎 **Sources**\n`;
+        entry.sources.forEach(s => {
+            msg += `\n**[${s.marker}] ${escapeMd(s.label)}**\n_"${escapeMd(s.excerpt)}"_\n`;
+            if (s.url) msg += `[🔗 Open](${s.url})\n`;
+        });
+        for (const part of splitMessage(msg)) {
+            await ctx.replyWithMarkdown(part).catch(() => ctx.reply(part.replace(/[*_]/g, '')));
+        }
+    });
+
+    // Forget the earlier Q&A turns for follow-up questions on this case
+    registry.action(/^qa_new_thread_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const c = await loadCase(ctx, caseId, 'comment');
+        if (!c) return;
+
+        await startNewThread(caseId);
+        ctx.session.data.currentCaseId = caseId;
+        ctx.session.data.currentRefCode = c.refCode || String(caseId);
+        ctx.session.data.facts = await buildCaseFacts(c);
+        ctx.session.step = 'WAITING_QUESTION';
+
+        await ctx.answerCbQuery('New thread started');
+        await ctx.reply(`🧵 **New thread for ${c.refCode || `Case #${c.id}`}**\n\nEarlier questions are kept in exports but won't be used as context. Type your question below.`);
+    });
+
+    // Re-run the structured analysis over the case and all its documents
+    registry.action(/^reanalyse_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const c = await loadCase(ctx, caseId, 'comment');
+        if (!c) return;
+        if (!await ensureAiBudget(ctx)) return;
+
+        await ctx.answerCbQuery('Re-analysing...');
+        await ctx.reply(`🧠 **Re-analysing ${c.refCode || `Case #${c.id}`}...**\n\nReading the case facts and every document.`);
+
+        try {
+            const previous = await getLatestAnalysis(caseId);
+            const analysis = await aiService.analyzeLegalText(await buildCaseFacts(c), { jurisdiction: c.jurisdiction || undefined, court: c.court, parties: c.parties });
+            const saved = await saveAnalysis(caseId, analysis);
+
+            let msg = `🧠 **Analysis v${saved.version}: ${escapeMd(saved.caseCategory)}**\n\n`;
+            msg += `**📊 Viability Score: ${saved.viabilityScore}/100**`;
+            if (previous) {
+                const delta = saved.viabilityScore - previous.viabilityScore;
+                msg += ` (${delta >= 0 ? '+' : ''}${delta} vs v${previous.version})`;
+            }
+            msg += `\n_Prediction: ${escapeMd(saved.prediction)}_\n`;
+            const warning = crossCheckWarning(saved);
+            if (warning) msg += `⚠️ _${escapeMd(warning)}_\n`;
+            msg += `\n**🔑 Key Issues**\n`;
+            saved.keyIssues.forEach(issue => msg += `• ${escapeMd(issue)}\n`);
+            if (saved.source === 'offline' && saved.offline) {
+                msg += `\n**🧮 Score Breakdown** _(offline engine)_\n`;
+                saved.offline.factors.forEach(f => msg += `• ${escapeMd(describeFactor(f))}\n`);
+            }
+
+            await ctx.replyWithMarkdown(msg, {
+                reply_markup: { inline_keyboard: [[{ text: '📂 Open Case', callback_data: `view_case_${caseId}` }]] }
+            });
+        } catch (e) {
+            if (e instanceof AnalysisIncompleteError) {
+                await markAnalysisIncomplete(caseId);
+                const previous = await getLatestAnalysis(caseId);
+                return ctx.reply(`⚠️ **Analysis Incomplete**\n\nThe AI response could not be validated after ${e.attempts} attempts, so nothing was saved.${previous ? ` Analysis v${previous.version} is still the latest.` : ''}\n\nPlease try again later.`);
+            }
+            console.error('[Analysis] Re-analysis failed:', e);
+            await ctx.reply('⚠️ Re-analysis failed. Please try again later.');
+        }
+    });
+
+    // Find Precedents from History Case
+    registry.action(/^research_case_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const c = await loadCase(ctx, caseId, 'read');
+        if (!c) return;
+
+        await ctx.answerCbQuery();
+        await ctx.reply(`🔍 **Searching for precedents related to:** ${c.title}\n\nPlease wait...`);
+
+        // Trigger search logic
+        const results = await searchPrecedents(c.title + ' ' + (c.description?.substring(0, 200) || ''));
+        if (results.length > 0) {
+            let msg = `📚 **Precedents for Case: ${c.refCode || c.id}**\n\n`;
+            results.slice(0, 5).forEach((r: any, i: number) => {
+                msg += `${i + 1}. **${r.name}** (${r.court || 'Court N/A'})\n   ${r.snippet?.substring(0, 100) || 'No summary available'}...\n\n`;
+            });
+            await ctx.reply(msg + `\n_Use /search for more specific queries._`);
+        } else {
+            await ctx.reply(`No precedents found for this case's topic. Try /search [keywords] for a manual search.`);
+        }
+    });
+
+    registry.command({ name: 'search', description: 'Research precedents by keyword', section: 'research', usage: '[keywords]' }, async (ctx) => {
+        const input = ctx.message.text.split(' ').slice(1).join(' ');
+        if (!input) return ctx.reply('Usage: /search [keywords]');
+
+        // Store query in session payload or encoding it in callback? 
+        // Callback limit is 64 chars. If query is long, storing in session is safer.
+        const userId = ctx.from.id;
+        // We'll use a temp field or just pass it if short. Let's use session.staging temporarily for "search_query"
+        // Hacky but works for MVP without new schema
+        ctx.session.staging = { type: 'text', content: input, mime: 'text/plain' };
+
+        ctx.reply(`🔎 **Search: "${input}"**\nSelect Region/Jurisdiction:`, {
+            reply_markup: {
+                inline_keyboard: [
+                    [
+                        { text: '🇺🇸 US Cases', callback_data: 'search_region_US' },
+                        { text: '🇳🇬 Nigeria', callback_data: 'search_region_NIGERIA' }
+                    ],
+                    [
+                        { text: '🌍 Africa', callback_data: 'search_region_AFRICA' },
+                        { text: '🇪🇺 Europe/UK', callback_data: 'search_region_EUROPE' }
+                    ],
+                    [
+                        { text: '🌐 Global / WorldLII', callback_data: 'search_region_GLOBAL' }
+                    ]
+                ]
+            }
+        });
+    });
+
+    registry.action(/^search_region_(\w+)/, async (ctx) => {
+        const region = ctx.match[1];
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        const query = session?.staging?.content || 'legal research'; // Retrieve query
+
+        try {
+            await ctx.answerCbQuery(`Searching ${region}...`);
+            await ctx.editMessageText(`🔎 **Searching ${region}...**\nQuery: "${query}"`);
+        } catch (e) {
+            // Ignore stale callback query errors
+            console.log('[Bot] Stale callback, continuing...');
+        }
+
+        const results = await searchAllDatabases(query, false, { jurisdiction: region });
+
+        let msg = `📚 **${region} Results**\n`;
+        if (results.length === 0) msg += "_No direct results found. Try broader terms._\n";
+
+        results.slice(0, 8).forEach((r, i) => {
+            msg += `\n${i + 1}. **${escapeMd(r.name)}**\n   ${escapeMd(r.snippet.substring(0, 100))}...\n   [🔗 Open Link](${r.url})\n`;
+        });
+
+        await ctx.replyWithMarkdown(msg);
+        // Clear staging
+        if (session) session.staging = undefined;
+    });
+
+    registry.command({ name: 'precedents', description: 'Find case law', section: 'research', usage: '[keywords]' }, async (ctx) => {
+        const query = ctx.message.text.split(' ').slice(1).join(' ');
+        if (!query) return ctx.reply('Usage: /precedents [CaseID or keywords]');
+
+        const results = await searchPrecedents(query);
+        let msg = `🏛 **Top Precedents**\n`;
+        results.slice(0, 3).forEach((r, i) => {
+            msg += `\n${i + 1}. **${r.name}**\n   _${r.snippet}_\n`;
+        });
+        ctx.replyWithMarkdown(msg);
+    });
+
+    registry.command({ name: 'scenario', description: 'Run outcome simulator', section: 'research', usage: '[CaseID]' }, async (ctx) => {
+        const parts = ctx.message.text.split(' ');
+        if (parts.length < 2) return ctx.reply('Usage: /scenario [CaseID]');
+
+        const caseId = parseInt(parts[1]);
+        const userCase = await loadCase(ctx, caseId, 'comment');
+        if (!userCase) return;
+        if (!userCase.description) return ctx.reply('Case not found or has no facts.');
+        if (!await ensureAiBudget(ctx)) return;
+
+        const facts = userCase.description;
+        await ctx.reply(`🎲 **Running AI Simulation for Case #${caseId}**\n\n_"${userCase.title}"_\n\nAnalyzing variations in Judge, Jury, and Evidence...`);
+        let sources: AnswerSource[] = [];
+        await streamReply(ctx, {
+            header: '🔄 Simulation Results',
+            generate: async function* (signal) {
+                const sourced = await caseContext(userCase, `${userCase.title}\n${facts}`, facts);
+                sources = sourced.sources;
+                yield* aiService.streamSimulation(sourced.context, signal, userCase);
+            },
+            onComplete: async (simulation) => ({ footer: sourcesFooter(citedSources(simulation, sources)) })
+        });
+    });
+
+    registry.action(/^ask_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const userId = ctx.from.id;
+        if (!await loadCase(ctx, ctx.session.data.currentCaseId || caseId, 'comment')) return;
+        // Preserve the case context
+        ctx.session.step = 'WAITING_QUESTION';
+        ctx.session.data.currentCaseId = ctx.session.data.currentCaseId || caseId;
+        await ctx.answerCbQuery();
+        await ctx.reply('❓ **What question do you have about this case?**\n\nI can analyze further or look for specific details.');
+    });
+
+    // Scenario from history
+    // SCENARIO SIMULATION HANDLER - Starts interactive wizard
+    registry.action(/^scenario_case_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const userId = ctx.from.id;
+
+        const c = await loadCase(ctx, caseId, 'comment');
+        if (!c) return;
+        if (!c.description) return ctx.answerCbQuery('Case not found.');
+
+        // Initialize Wizard
+        ctx.session.step = 'SCENARIO_Q1';
+        ctx.session.data.currentCaseId = caseId;
+        ctx.session.data.facts = await buildCaseFacts(c);
+        ctx.session.data.scenarioInputs = {}; // Reset
+
+        await ctx.answerCbQuery();
+        await ctx.reply(`🎲 **Interactive Scenario Wizard**\n\nI will ask 5 questions to customize your simulation.\n\n1️⃣ **Define the specific TARGET OUTCOME you want to test?**\n(e.g., "Full acquittal", "Settlement under $50k", "Custody granted")`);
+    });
+
+    // QUICK SCENARIOS - one-shot outcome generation without the wizard
+    registry.action(/^quick_scenario_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const caseData = await loadCase(ctx, caseId, 'comment');
+        if (!caseData) return;
+        if (!await ensureAiBudget(ctx)) return;
+
+        await ctx.answerCbQuery('Generating scenarios...');
+
+        try {
+            // Use AI to generate scenarios
+            const analysisText = await caseAnalysisText(caseData);
+            const promptVersion = promptId('scenarios');
+            await streamReply(ctx, {
+                header: '🎲 Case Scenario Analysis',
+                generate: (signal) => aiService.streamScenarios({ title: caseData.title, details: caseData.description || '', analysis: analysisText || '' }, signal),
+                buttons: [[
+                    { text: '❓ Ask More', callback_data: `ask_${caseId}` },
+                    { text: '📤 Export', callback_data: `export_case_${caseId}` }
+                ]],
+                // A stopped run leaves the previous scenarios in place
+                onComplete: async (scenarios, stopped) => {
+                    if (stopped) return;
+                    await prisma.caseMatter.update({
+                        where: { id: caseId },
+                        data: { scenarios, scenariosPrompt: promptVersion }
+                    });
+                }
+            });
+        } catch (error) {
+            console.error('Scenario generation error:', error);
+            await ctx.reply('❌ Failed to generate scenarios. Please try again.');
+        }
+    });
+
+    // ANALYZE PRECEDENT WITH CURRENT CASE
+    registry.action(/^analyze_prec_(\d+)_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const index = parseInt(ctx.match[2]);
+        const userId = ctx.from.id;
+        const session = ctx.session;
+
+        if (!session?.data?.precedents?.[index]) {
+            return ctx.reply('⚠️ Session expired or precedent not found. Please search again.');
+        }
+
+        const precedent = session.data.precedents[index];
+        const precedentUrl = precedent.url;
+
+        // Get current case
+        const caseData = await loadCase(ctx, caseId, 'comment');
+        if (!caseData) return;
+        if (!await ensureAiBudget(ctx)) return;
+
+        await ctx.answerCbQuery('Analyzing precedent...');
+        await ctx.reply('📚 **Analyzing Precedent...**\n\nComparing selected case with your matter...');
+
+        try {
+
+            // Use AI to analyze the precedent relevance
+            const analysis = await aiService.analyzePrecedent({ title: caseData.title, details: caseData.description || '', precedentUrl });
+
+            const buttons = {
+                reply_markup: {
+                    inline_keyboard: [
+                        [
+                            { text: '❓ Ask More', callback_data: `ask_${caseId}` },
+                            { text: '🔗 Open Case', url: precedentUrl }
+                        ]
+                    ]
+                }
+            };
+
+            try {
+                await ctx.reply(`📚 **Precedent Analysis**\n\n${analysis}`, { parse_mode: 'Markdown', ...buttons });
+            } catch (e) {
+                await ctx.reply(`📚 Precedent Analysis\n\n${analysis}`, buttons);
+            }
+
+        } catch (error) {
+            console.error('Precedent analysis error:', error);
+            await ctx.reply('❌ Failed to analyze precedent. Please try again.');
+        }
+    });
+
+        // SCENARIO WIZARD FLOW
+    registry.step('SCENARIO_Q1', async (ctx, text) => {
+        const session = ctx.session;
+        session.data.scenarioInputs = session.data.scenarioInputs || {};
+        session.data.scenarioInputs.outcome = text;
+        session.step = 'SCENARIO_Q2';
+        await ctx.reply('2️⃣ **What KEY EVIDENCE or witness testimony should be considered?**\n(e.g., "Email dated Jan 4th", "Testimony of Mr. Smith")');
+    });
+
+    registry.step('SCENARIO_Q2', async (ctx, text) => {
+        const session = ctx.session;
+        session.data.scenarioInputs!.evidence = text;
+        session.step = 'SCENARIO_Q3';
+        await ctx.reply('3️⃣ **What is the OPPOSING COUNSEL\'S primary argument?**\n(e.g., "Statute of limitations", "Lack of intent")');
+    });
+
+    registry.step('SCENARIO_Q3', async (ctx, text) => {
+        const session = ctx.session;
+        session.data.scenarioInputs!.opposing = text;
+        session.step = 'SCENARIO_Q4';
+        await ctx.reply('4️⃣ **Any JURISDICTION or JUDGE specific nuances?**\n(e.g., "NY State Court", "Conservative Judge", "Federal Circuit")');
+    });
+
+    registry.step('SCENARIO_Q4', async (ctx, text) => {
+        const session = ctx.session;
+        session.data.scenarioInputs!.jurisdiction = text;
+        session.step = 'SCENARIO_Q5';
+        await ctx.reply('5️⃣ **CAVEATS & COMMENTS: Any other considerations?**\n(e.g., "Client has no criminal record", "Budget is tight")');
+    });
+
+    registry.step('SCENARIO_Q5', async (ctx, text) => {
+        const session = ctx.session;
+        session.data.scenarioInputs!.caveats = text;
+        session.step = 'IDLE'; // Wizard complete
+
+        // RUN SIMULATION
+        if (!session.data.facts || !session.data.scenarioInputs) return ctx.reply('Error: Missing data.');
+        if (!await ensureAiBudget(ctx)) return;
+
+        try {
+            const facts = session.data.facts;
+            const inputs = session.data.scenarioInputs as SimulationInputs;
+            const caseId = session.data.currentCaseId;
+            const promptVersion = promptId('interactiveSimulation');
+            // The results are stored on the case
+            const c = caseId ? await loadCase(ctx, caseId, 'comment') : null;
+            if (caseId && !c) return;
+            let sources: AnswerSource[] = [];
+
+            // Long results continue in further messages; the buttons go under the last one
+            await streamReply(ctx, {
+                header: '🔄 Custom Simulation Results',
+                generate: async function* (signal) {
+                    const query = [inputs.outcome, inputs.evidence, inputs.opposing, inputs.caveats].join('\n');
+                    const sourced = await caseContext(c, query, facts);
+                    sources = sourced.sources;
+                    yield* aiService.streamInteractiveSimulation(sourced.context, inputs, signal, c || {});
+                },
+                buttons: [
+                    [
+                        { text: '💾 Save', callback_data: `saved_${caseId}` },
+                        { text: '❓ Ask Question', callback_data: `ask_${caseId}` }
+                    ],
+                    [
+                        { text: '🔗 Share', callback_data: `share_case_${caseId}` },
+                        { text: '📤 Export', callback_data: `export_case_${caseId}` }
+                    ],
+                    [
+                        { text: '🔗 Add Link', callback_data: `add_link_${caseId}` }
+                    ],
+                    [
+                        { text: '✅ Done', callback_data: 'qa_done' }
+                    ]
+                ],
+                onComplete: async (simulation, stopped) => {
+                    const footer = sourcesFooter(citedSources(simulation, sources));
+                    // Access may have been withdrawn while the simulation ran
+                    if (caseId && !stopped && await loadCase(ctx, caseId, 'comment')) {
+                        await prisma.caseMatter.update({
+                            where: { id: caseId },
+                            data: { scenarios: footer ? `${simulation}\n\n${footer}` : simulation, scenariosPrompt: promptVersion }
+                        });
+                    }
+                    return { footer };
+                }
+            });
+        } catch (err) {
+            console.error('Simulation error:', err);
+            await ctx.reply('⚠️ Simulation failed.');
+        }
+    });
+
+    registry.step('WAITING_QUESTION', async (ctx, text) => {
+        const session = ctx.session;
+        // The case may have been opened read-only - questions are stored on it
+        const c = session.data.currentCaseId ? await loadCase(ctx, session.data.currentCaseId, 'comment') : null;
+        if (session.data.currentCaseId && !c) {
+            session.step = 'IDLE';
+            return;
+        }
+        if (!await ensureAiBudget(ctx)) return;
+        // KEEP SESSION ACTIVE (Loop)
+        const context = session.data.facts || "No facts provided yet.";
+        const currentCaseId = session.data.currentCaseId || 0;
+        const askedAt = new Date().toISOString();
+        const promptVersion = promptId('qa');
+        // Precedents found for this case can be cited alongside its documents
+        const precedents = currentCaseId > 0 && session.data.precedentsCaseId === currentCaseId ? session.data.precedents || [] : [];
+        let sources: AnswerSource[] = [];
+
+        // The answer arrives after this handler returns, so only the question goes into the session
+        if (!session.data.conversationHistory) session.data.conversationHistory = [];
+        session.data.conversationHistory.push({ role: 'user', content: text, timestamp: askedAt });
+
+        await streamReply(ctx, {
+            header: '🤖 Answer',
+            // The passages relevant to this question, plus earlier turns of the case's thread
+            generate: async function* (signal) {
+                const memory = currentCaseId > 0 ? await loadQaMemory(currentCaseId) : undefined;
+                const sourced = await caseContext(c, text, context, precedents);
+                sources = sourced.sources;
+                yield* aiService.streamAnswer(sourced.context, text, signal, memory, c || {});
+            },
+            buttons: [
+                [
+                    { text: '❓ Ask More', callback_data: `ask_${currentCaseId}` },
+                    { text: '🎲 Scenario', callback_data: `scenario_case_${currentCaseId}` }
+                ],
+                ...(currentCaseId > 0 ? [[{ text: '🧵 New Thread', callback_data: `qa_new_thread_${currentCaseId}` }]] : []),
+                [
+                    { text: '📤 Export', callback_data: `export_case_${currentCaseId}` },
+                    { text: '🔗 Share', callback_data: `share_case_${currentCaseId}` }
+                ],
+                [{ text: '✅ Done', callback_data: 'qa_done' }]
+            ],
+            // Persist Q&A to database for export, with the sources the answer cited
+            onComplete: async (answer, stopped) => {
+                if (currentCaseId <= 0) return;
+                const cited = citedSources(answer, sources);
+                try {
+                    // Access may have been withdrawn while the answer ran
+                    if (!await loadCase(ctx, currentCaseId, 'comment')) return;
+                    const length = await appendQaTurns(currentCaseId, [
+                        { role: 'user', content: text, timestamp: askedAt },
+                        {
+                            role: 'bot',
+                            content: stopped ? `${answer}\n\n[Stopped]` : answer,
+                            timestamp: new Date().toISOString(),
+                            sources: cited.length > 0 ? cited : undefined,
+                            prompt: promptVersion
+                        }
+                    ]);
+                    if (cited.length > 0 && length > 0) {
+                        return { buttons: [[{ text: `📎 Sources (${cited.length})`, callback_data: `qa_sources_${currentCaseId}_${length - 1}` }]] };
+                    }
+                } catch (e) { console.error('Failed to persist Q&A:', e); }
+            }
+        });
+    });
+}
@@ -0,0 +1,309 @@
+import { CaseMatter, CaseShare, User } from '@prisma/client';
+import { prisma } from '../../services/db';
+import { SharePermission, SHARE_PERMISSIONS } from '../../services/authorization';
+import { statusName } from '../../services/caseStatusService';
+import { createShare, respondToShare, revokeShare, listSharedWithMe, listCaseShares, describeShare, userLabel, PERMISSION_LABELS } from '../../services/shareService';
+import { CommandRegistry } from '../registry';
+import { BotContext } from '../session';
+import { escapeMd, loadCase } from '../helpers';
+
+const EXPIRY_CHOICES = [7, 30, 90, 0]; // days, 0 = until revoked
+
+async function sendInvite(ctx: BotContext, share: CaseShare, recipient: User, c: CaseMatter, sharedBy: User): Promise<boolean> {
+    try {
+        await ctx.telegram.sendMessage(String(recipient.telegramId),
+            `🤝 **Case Shared With You**\n\n${escapeMd(userLabel(sharedBy))} shared **${escapeMd(c.refCode || `Case #${c.id}`)}: ${escapeMd(c.title)}** with you.\n\n**Access:** ${describeShare(share)}`,
+            {
+                parse_mode: 'Markdown',
+                reply_markup: {
+                    inline_keyboard: [[
+                        { text: '✅ Accept', callback_data: `share_accept_${share.id}` },
+                        { text: '❌ Decline', callback_data: `share_decline_${share.id}` }
+                    ]]
+                }
+            });
+        return true;
+    } catch (e) {
+        return false; // Recipient may have blocked the bot
+    }
+}
+
+// Grant access and tell both sides what happened
+async function grantAccess(ctx: BotContext, c: CaseMatter, username: string, permission: SharePermission, days: number): Promise<void> {
+    const sharer = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from!.id) } });
+    if (!sharer) {
+        await ctx.reply('Please /start the bot first.');
+        return;
+    }
+
+    const result = await createShare(c.id, sharer, username, permission, days || null);
+    if (!result.ok) {
+        await ctx.reply(`❌ ${result.error}`);
+        return;
+    }
+
+    const delivered = await sendInvite(ctx, result.share, result.recipient, c, sharer);
+    await ctx.reply(`✅ **Invitation Sent**\n\n${escapeMd(c.refCode || `Case #${c.id}`)} shared with ${escapeMd(userLabel(result.recipient))}\n**Access:** ${describeShare(result.share)}\n\n${delivered ? 'They will get access once they accept.' : '⚠️ Could not notify them on Telegram. They can accept from /history → "Shared with me".'}`, {
+        parse_mode: 'Markdown',
+        reply_markup: {
+            inline_keyboard: [[{ text: '👥 Manage Access', callback_data: `case_shares_${c.id}` }]]
+        }
+    });
+}
+
+// Case sharing: invitations with permission levels, acceptance and revocation
+export function registerSharing(registry: CommandRegistry) {
+    registry.note('cases', 'Open a case → "Share" to give a colleague read, comment or edit access');
+
+    registry.command({ name: 'share', description: 'Share a case', section: 'cases', usage: '[CaseID] @username [read|comment|edit] [days]' }, async (ctx) => {
+        const parts = ctx.message.text.split(/\s+/);
+        if (parts.length < 3) {
+            return ctx.reply('Usage: /share [CaseID] @username [read|comment|edit] [days]\n\nExample: /share 12 @colleague comment 30\nAccess defaults to read-only with no expiry.');
+        }
+
+        const permission = (parts[3] || 'read').toUpperCase() as SharePermission;
+        if (!SHARE_PERMISSIONS.includes(permission)) {
+            return ctx.reply('Access level must be read, comment or edit.');
+        }
+        const days = parts[4] ? parseInt(parts[4]) : 0;
+        if (isNaN(days) || days < 0) {
+            return ctx.reply('Days must be a positive number (or leave it out for no expiry).');
+        }
+
+        const c = await loadCase(ctx, parseInt(parts[1]), 'share');
+        if (!c) return;
+        await grantAccess(ctx, c, parts[2], permission, days);
+    });
+
+    // Share for specific case
+    registry.action(/^share_case_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        if (!await loadCase(ctx, caseId, 'share')) return;
+
+        // Store case ID for sharing flow
+        ctx.session.data.currentCaseId = caseId;
+
+        await ctx.answerCbQuery();
+        await ctx.reply(`📤 **Share Case #${caseId}**\n\nHow would you like to share?`, {
+            reply_markup: {
+                inline_keyboard: [
+                    [{ text: '📱 Send to Telegram User', callback_data: 'share_telegram' }],
+                    [{ text: '📧 Get Shareable Summary', callback_data: 'share_external' }],
+                    [{ text: '👥 Manage Access', callback_data: `case_shares_${caseId}` }],
+                    [{ text: '❌ Cancel', callback_data: 'qa_done' }]
+                ]
+            }
+        });
+    });
+
+    registry.action('share_action', async (ctx) => {
+        await ctx.answerCbQuery();
+
+        // Show sharing options
+        await ctx.reply('📤 **Share Case**\n\nHow would you like to share?', {
+            reply_markup: {
+                inline_keyboard: [
+                    [
+                        { text: '📱 Send to Telegram User', callback_data: 'share_telegram' },
+                    ],
+                    [
+                        { text: '📧 Copy Link for Email/External', callback_data: 'share_external' }
+                    ],
+                    [
+                        { text: '❌ Cancel', callback_data: 'qa_done' }
+                    ]
+                ]
+            }
+        });
+    });
+
+    registry.action('share_telegram', async (ctx) => {
+        await ctx.answerCbQuery();
+        await ctx.reply('👤 Enter the @username of the Telegram user to share with:\n\nExample: @colleague\n\n_They must have started the bot._', { parse_mode: 'Markdown' });
+        // Set session to wait for username input
+        ctx.session.step = 'WAITING_SHARE_USER';
+    });
+
+    registry.action('share_external', async (ctx) => {
+        const caseId = ctx.session?.data?.currentCaseId;
+
+        await ctx.answerCbQuery();
+
+        if (caseId) {
+            const c = await loadCase(ctx, caseId, 'share');
+            if (c) {
+                const summary = `📋 **Case Brief: ${c.refCode}**\n\n**Title:** ${c.title}\n**Status:** ${statusName(c.status)}\n\n**Summary:**\n${c.description?.substring(0, 500) || 'No description'}\n\n_Generated by CaseView Bot_`;
+                await ctx.reply(`📧 **Shareable Summary**\n\nCopy and send via email/WhatsApp:\n\n---\n${summary}\n---`);
+            }
+        } else {
+            await ctx.reply('No case selected. Use /history to select a case first.');
+        }
+    });
+
+    // Step 1: who to share with
+    registry.step('WAITING_SHARE_USER', async (ctx, text) => {
+        const session = ctx.session;
+        session.step = 'IDLE';
+
+        const caseId = session.data.currentCaseId;
+        if (!caseId) return ctx.reply('No case selected to share.');
+
+        session.data.shareTarget = text.trim().replace(/^@/, '');
+        await ctx.reply(`🔐 **Access Level for @${escapeMd(session.data.shareTarget)}**\n\n👁 Read - view and export the case\n💬 Comment - also ask questions and run scenarios\n✏️ Edit - also add or remove documents`, {
+            parse_mode: 'Markdown',
+            reply_markup: {
+                inline_keyboard: [
+                    SHARE_PERMISSIONS.map(p => ({ text: PERMISSION_LABELS[p], callback_data: `share_perm_${p}` })),
+                    [{ text: '❌ Cancel', callback_data: 'qa_done' }]
+                ]
+            }
+        });
+    });
+
+    // Step 2: access level
+    registry.action(/^share_perm_(READ|COMMENT|EDIT)$/, async (ctx) => {
+        ctx.session.data.sharePermission = ctx.match[1] as SharePermission;
+        await ctx.answerCbQuery();
+        await ctx.editMessageText('⏳ **How long should access last?**', {
+            parse_mode: 'Markdown',
+            reply_markup: {
+                inline_keyboard: [
+                    EXPIRY_CHOICES.map(d => ({ text: d ? `${d} days` : 'Until revoked', callback_data: `share_exp_${d}` })),
+                    [{ text: '❌ Cancel', callback_data: 'qa_done' }]
+                ]
+            }
+        });
+    });
+
+    // Step 3: expiry, then send the invitation
+    registry.action(/^share_exp_(\d+)$/, async (ctx) => {
+        const { currentCaseId, shareTarget, sharePermission } = ctx.session.data;
+        if (!currentCaseId || !shareTarget || !sharePermission) {
+            return ctx.answerCbQuery('Sharing session expired. Start again from the case.');
+        }
+
+        const c = await loadCase(ctx, currentCaseId, 'share');
+        if (!c) return;
+        await ctx.answerCbQuery();
+
+        delete ctx.session.data.shareTarget;
+        delete ctx.session.data.sharePermission;
+        await grantAccess(ctx, c, shareTarget, sharePermission, parseInt(ctx.match[1]));
+    });
+
+    // Recipient accepts / declines
+    registry.action(/^share_(accept|decline)_(\d+)/, async (ctx) => {
+        const accept = ctx.match[1] === 'accept';
+        const share = await respondToShare(parseInt(ctx.match[2]), ctx.from.id, accept);
+        if (!share) return ctx.answerCbQuery('This invitation is no longer valid.', { show_alert: true });
+
+        await ctx.answerCbQuery(accept ? '✅ Access granted' : 'Invitation declined');
+        const caseLabel = `${share.case.refCode || `Case #${share.case.id}`}: ${share.case.title}`;
+
+        if (accept) {
+            await ctx.editMessageText(`✅ **Shared Case Added**\n\n${escapeMd(caseLabel)}\n**Access:** ${describeShare(share)}\n\nFind it any time under /history → "Shared with me".`, {
+                parse_mode: 'Markdown',
+                reply_markup: { inline_keyboard: [[{ text: '📂 Open Case', callback_data: `view_case_${share.caseId}` }]] }
+            });
+        } else {
+            await ctx.editMessageText(`Invitation to ${caseLabel} declined.`);
+        }
+
+        try {
+            const recipient = ctx.from.username ? `@${ctx.from.username}` : ctx.from.first_name;
+            await ctx.telegram.sendMessage(String(share.sharedBy.telegramId), `${accept ? '✅' : '❌'} ${recipient} ${accept ? 'accepted' : 'declined'} access to ${caseLabel}.`);
+        } catch (e) { /* Sharer may have blocked bot */ }
+    });
+
+    // Owner view: who can access this case
+    registry.action(/^case_shares_(\d+)/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const c = await loadCase(ctx, caseId, 'share');
+        if (!c) return;
+        await ctx.answerCbQuery();
+
+        const shares = await listCaseShares(caseId);
+        if (shares.length === 0) {
+            return ctx.reply(`👥 **Access: ${escapeMd(c.refCode || String(c.id))}**\n\nThis case is not shared with anyone.`, {
+                parse_mode: 'Markdown',
+                reply_markup: {
+                    inline_keyboard: [
+                        [{ text: '📤 Share', callback_data: `share_case_${caseId}` }],
+                        [{ text: '🔙 Back to Case', callback_data: `view_case_${caseId}` }]
+                    ]
+                }
+            });
+        }
+
+        let msg = `👥 **Access: ${escapeMd(c.refCode || String(c.id))}**\n\n`;
+        shares.forEach((s, i) => {
+            msg += `${i + 1}. ${escapeMd(userLabel(s.sharedWith))} - ${describeShare(s)}${s.status === 'PENDING' ? ' _(pending)_' : ''}\n`;
+        });
+
+        await ctx.replyWithMarkdown(msg, {
+            reply_markup: {
+                inline_keyboard: [
+                    ...shares.map((s, i) => [{ text: `🚫 Revoke ${i + 1}. ${userLabel(s.sharedWith).substring(0, 25)}`, callback_data: `share_revoke_${s.id}` }]),
+                    [{ text: '📤 Share', callback_data: `share_case_${caseId}` }],
+                    [{ text: '🔙 Back to Case', callback_data: `view_case_${caseId}` }]
+                ]
+            }
+        });
+    });
+
+    registry.action(/^share_revoke_(\d+)/, async (ctx) => {
+        const shareId = parseInt(ctx.match[1]);
+        const existing = await prisma.caseShare.findUnique({ where: { id: shareId } });
+        if (!existing) return ctx.answerCbQuery('Share not found.');
+        const c = await loadCase(ctx, existing.caseId, 'share');
+        if (!c) return;
+
+        const share = await revokeShare(shareId);
+        if (!share) return ctx.answerCbQuery('Access was already revoked.');
+        console.log(`[Share] Case ${c.id} access revoked for user ${share.sharedWithId}`);
+
+        await ctx.answerCbQuery(`🚫 Access revoked for ${userLabel(share.sharedWith)}`);
+        await ctx.editMessageText(`🚫 ${userLabel(share.sharedWith)} no longer has access to ${c.refCode || `Case #${c.id}`}.`, {
+            reply_markup: { inline_keyboard: [[{ text: '👥 Manage Access', callback_data: `case_shares_${c.id}` }]] }
+        });
+
+        try {
+            await ctx.telegram.sendMessage(String(share.sharedWith.telegramId), `🚫 Your access to ${c.refCode || `Case #${c.id}`}: ${c.title} has been revoked.`);
+        } catch (e) { /* User may have blocked bot */ }
+    });
+
+    // Recipient view: cases other people shared with me
+    registry.action('shared_with_me', async (ctx) => {
+        await ctx.answerCbQuery();
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from.id) } });
+        if (!user) return ctx.reply('Please /start the bot first.');
+
+        const { active, pending } = await listSharedWithMe(user.id);
+        if (active.length === 0 && pending.length === 0) {
+            return ctx.reply('🤝 **Shared with me**\n\nNo cases have been shared with you yet.', { parse_mode: 'Markdown' });
+        }
+
+        let msg = '🤝 **Shared with me**\n\n';
+        active.forEach(s => {
+            msg += `📂 ${escapeMd(s.case.refCode || `ID:${s.case.id}`)}: ${escapeMd(s.case.title)}\n   from ${escapeMd(userLabel(s.sharedBy))} - ${describeShare(s)}\n`;
+        });
+        if (pending.length > 0) {
+            msg += `\n**Pending invitations (${pending.length})**\n`;
+            pending.forEach(s => {
+                msg += `✉️ ${escapeMd(s.case.refCode || `ID:${s.case.id}`)}: ${escapeMd(s.case.title)} from ${escapeMd(userLabel(s.sharedBy))}\n`;
+            });
+        }
+
+        await ctx.replyWithMarkdown(msg, {
+            reply_markup: {
+                inline_keyboard: [
+                    ...active.map(s => [{ text: `📂 ${s.case.refCode || `ID:${s.case.id}`}: ${s.case.title}`.substring(0, 60), callback_data: `view_case_${s.caseId}` }]),
+                    ...pending.map(s => [
+                        { text: `✅ Accept ${s.case.refCode || `ID:${s.case.id}`}`, callback_data: `share_accept_${s.id}` },
+                        { text: '❌ Decline', callback_data: `share_decline_${s.id}` }
+                    ])
+                ]
+            }
+        });
+    });
+}
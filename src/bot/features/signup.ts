@@ -0,0 +1,381 @@
+import { prisma } from '../../services/db';
+import { removeCaseDocuments } from '../../services/documentService';
+import { getEffectivePlan, describeExpiry } from '../../services/subscriptionService';
+import { CommandRegistry } from '../registry';
+import { createSession, SessionStep } from '../session';
+
+// Account onboarding: /start, the signup wizard, profile editing and verification
+export function registerSignup(registry: CommandRegistry) {
+    // SIGNUP COMMAND - Full user registration
+    registry.command({ name: 'signup', description: 'Create your profile', section: 'start' }, async (ctx) => {
+        const userId = ctx.from.id;
+        ctx.session = { step: 'SIGNUP_ACCOUNT_TYPE', data: {} };
+        await ctx.reply('📝 **Complete Your Profile**\n\nFirst, select your **Account Type**:', {
+            reply_markup: {
+                inline_keyboard: [
+                    [{ text: '👤 Individual', callback_data: 'acct_INDIVIDUAL' }],
+                    [{ text: '🏢 Law Firm', callback_data: 'acct_FIRM' }],
+                    [{ text: '⚖️ Bar Association', callback_data: 'acct_BAR' }],
+                    [{ text: '🤝 Join a Team', callback_data: 'acct_JOIN' }]
+                ]
+            }
+        });
+    });
+
+    registry.action('acct_JOIN', async (ctx) => {
+        await ctx.answerCbQuery();
+        await ctx.reply('🤝 **Join a Team**\n\nTo join a Law Firm or Bar Association team, you need an **Invite Link** from the organization owner.\n\nAsk your administrator to go to their **Manage Team** section and share the link with you.');
+    });
+
+    // Account type selection handlers
+    registry.action(/^acct_(INDIVIDUAL|FIRM|BAR)$/, async (ctx) => {
+        const accountType = ctx.match[1];
+        const userId = ctx.from.id;
+
+        await ctx.answerCbQuery();
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { accountType }
+        });
+
+        if (accountType === 'INDIVIDUAL') {
+            ctx.session = { step: 'SIGNUP_NAME', data: {} };
+            await ctx.reply('👤 **Individual Account**\n\nStep 1/5: What is your **Full Name**?');
+        } else if (accountType === 'FIRM') {
+            ctx.session = { step: 'SIGNUP_FIRM_NAME', data: {} };
+            await ctx.reply('🏢 **Law Firm Account**\n\nStep 1/6: What is your **Firm Name**?');
+        } else if (accountType === 'BAR') {
+            ctx.session = { step: 'SIGNUP_BRANCH_NAME', data: {} };
+            await ctx.reply('⚖️ **Bar Association Account**\n\nStep 1/6: What is the **Branch/Chapter Name**?');
+        }
+    });
+
+    // EDIT PROFILE COMMAND
+    registry.command({ name: 'editprofile', description: 'Edit your profile details', section: 'start' }, async (ctx) => {
+        await ctx.reply('✏️ **Edit Profile**\n\nWhat would you like to edit?', {
+            reply_markup: {
+                inline_keyboard: [
+                    [{ text: '📛 Full Name', callback_data: 'edit_fullName' }],
+                    [{ text: '📧 Email', callback_data: 'edit_email' }],
+                    [{ text: '📱 Phone', callback_data: 'edit_phone' }],
+                    [{ text: '📍 Address', callback_data: 'edit_address' }],
+                    [{ text: '💼 Job Position', callback_data: 'edit_jobPosition' }],
+                    [{ text: '🆔 Firm Code', callback_data: 'edit_firmCode' }],
+                    [{ text: '❌ Cancel', callback_data: 'qa_done' }]
+                ]
+            }
+        });
+    });
+
+    // DELETE ACCOUNT COMMAND
+    registry.command({ name: 'deleteaccount', description: 'Permanently delete your account', section: 'start' }, async (ctx) => {
+        await ctx.reply('⚠️ **Delete Account**\n\nThis will permanently delete:\n• Your profile\n• All your cases\n• All your data\n\nThis action CANNOT be undone!', {
+            reply_markup: {
+                inline_keyboard: [
+                    [{ text: '🗑 Yes, Delete My Account', callback_data: 'confirm_delete_account' }],
+                    [{ text: '❌ Cancel', callback_data: 'qa_done' }]
+                ]
+            }
+        });
+    });
+
+    // PROFILE COMMAND - View user profile
+    registry.command({ name: 'profile', description: 'View your info', section: 'start' }, async (ctx) => {
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from.id) } });
+        if (!user) return ctx.reply('Profile not found. Use /signup to register.');
+
+        await ctx.reply(`👤 **Your Profile**\n\n📛 Name: ${user.fullName || 'Not set'}\n📧 Email: ${user.email || 'Not set'}\n📱 Phone: ${user.phone || 'Not set'}\n📍 Address: ${user.address || 'Not set'}\n💼 Position: ${user.jobPosition || 'Not set'}\n🆔 Firm Code: ${user.firmCode || 'Not set'}\n💎 Plan: ${user.subscription}\n✅ Verified: ${user.isVerified ? 'Yes' : 'No'}\n\nUse /signup to update your profile.`);
+    });
+
+    // VERIFY COMMAND - Send verification code
+    registry.command({ name: 'verify', description: 'Verify your account', section: 'start' }, async (ctx) => {
+        const userId = ctx.from.id;
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(userId) } });
+
+        if (!user) {
+            return ctx.reply('Please complete /signup first before verifying.');
+        }
+
+        if (user.isVerified) {
+            return ctx.reply('✅ Your account is already verified!');
+        }
+
+        // Generate 8-digit verification code
+        const code = Math.floor(10000000 + Math.random() * 90000000).toString();
+
+        // Store code in session
+        ctx.session.data.verificationCode = code;
+        ctx.session.step = 'WAITING_VERIFY';
+
+        // Send code via Telegram (the bot sends it directly to the user)
+        await ctx.reply(`🔐 **Verification Code**\n\nYour unique 8-digit code is:\n\n**${code}**\n\n⚠️ Do NOT share this code with anyone!\n\nPlease type this code below to verify your account:`);
+    });
+
+    registry.start({ description: 'Welcome menu', section: 'start' }, async (ctx) => {
+        const from = ctx.from;
+        if (!from) return;
+
+        const payload = (ctx as any).startPayload; // Deep link parameter
+        if (payload && payload.startsWith('invite_')) {
+            const firmCode = payload.replace('invite_', '');
+            const owner = await prisma.user.findFirst({ where: { firmCode } });
+            if (owner) {
+                // Show join confirmation
+                const ownerName = owner.firmName || owner.branchName || owner.fullName || owner.username || 'this organization';
+                return ctx.reply(`🤝 **Join ${ownerName}?**\n\nYou've been invited to join this organization as a staff member/member.\n\nBy joining, you will share the same Firm Code and your cases will be attributed to this organization.`, {
+                    reply_markup: {
+                        inline_keyboard: [
+                            [{ text: '✅ Confirm Join', callback_data: `confirm_join_${owner.id}` }],
+                            [{ text: '❌ Cancel', callback_data: 'qa_done' }]
+                        ]
+                    }
+                });
+            }
+        }
+
+        // Create or Update User
+        const user = await prisma.user.upsert({
+            where: { telegramId: BigInt(from.id) },
+            update: { username: from.username, firstName: from.first_name },
+            create: {
+                telegramId: BigInt(from.id),
+                username: from.username,
+                firstName: from.first_name,
+                subscription: 'FREE'
+            }
+        });
+
+        // Auto-register SUPER_ADMIN for @origichidiah with unlimited plan
+        if (from.username === 'origichidiah') {
+            await prisma.admin.upsert({
+                where: { telegramId: BigInt(from.id) },
+                update: { role: 'SUPER_ADMIN', username: from.username },
+                create: { telegramId: BigInt(from.id), username: from.username, role: 'SUPER_ADMIN' }
+            });
+            // Set to BAR (unlimited) plan for SUPER_ADMIN
+            await prisma.user.update({
+                where: { telegramId: BigInt(from.id) },
+                data: { subscription: 'BAR' }
+            });
+        }
+
+        if (!user.firmCode) {
+            ctx.session = { step: 'WAITING_FIRM_CODE', data: {} };
+            ctx.reply(`⚖️ **Welcome to CaseView Bot**\n\nTo organize your cases, please set a **Firm Code** (e.g., LGL, ABC, MYNAME).\n\nThis will prefix your cases (e.g. LGL-001). Enter it now:`);
+            return;
+        }
+
+        const effective = await getEffectivePlan(user);
+        ctx.reply(`⚖️ **CaseView Bot Legal Assistant**\n\nWelcome back, **${from.first_name}**!\n🆔 Firm Code: ${user.firmCode}\n💎 Plan: ${effective.plan} (${describeExpiry(effective)})\n\n**Quick Actions:**\n/newbrief - Start Guided Intake\n/history - View My Cases\n/search - Research Precedents\n/help - Show all commands`);
+    });
+
+    // Edit Profile Field Handlers
+    registry.action(/^edit_(fullName|email|phone|address|jobPosition|firmCode)/, async (ctx) => {
+        const field = ctx.match[1];
+        const userId = ctx.from.id;
+        const fieldNames: Record<string, string> = {
+            fullName: 'Full Name',
+            email: 'Email',
+            phone: 'Phone Number',
+            address: 'Address',
+            jobPosition: 'Job Position',
+            firmCode: 'Firm Code'
+        };
+
+        ctx.session.step = `EDIT_${field.toUpperCase()}` as SessionStep;
+
+        await ctx.answerCbQuery();
+        await ctx.reply(`✏️ Enter your new **${fieldNames[field]}**:`);
+    });
+
+    // Delete Account Confirmation
+    registry.action('confirm_delete_account', async (ctx) => {
+        const userId = ctx.from.id;
+
+        try {
+            // Delete all user's cases first
+            const user = await prisma.user.findUnique({ where: { telegramId: BigInt(userId) } });
+            if (user) {
+                const cases = await prisma.caseMatter.findMany({ where: { userId: user.id }, select: { id: true } });
+                await removeCaseDocuments(cases.map(c => c.id));
+                await prisma.caseMatter.deleteMany({ where: { userId: user.id } });
+                await prisma.user.delete({ where: { id: user.id } });
+            }
+
+            // Clear session
+            ctx.session = createSession();
+
+            await ctx.answerCbQuery('Account Deleted');
+            await ctx.editMessageText('🗑 **Account Deleted**\n\nYour account and all data have been permanently removed.\n\nUse /start to create a new account.');
+        } catch (e) {
+            await ctx.answerCbQuery('Error deleting account');
+            await ctx.reply('Error deleting account. Please try again.');
+        }
+    });
+
+    registry.step('WAITING_FIRM_CODE', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        const code = text.toUpperCase().substring(0, 5);
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { firmCode: code }
+        });
+        session.step = 'IDLE';
+        ctx.reply(`✅ **Code Set:** ${code}\n\nYour future cases will be referenced as **${code}-XXX**.\n\nUse /newbrief to start.`);
+    });
+
+        // FIRM SIGNUP FLOW
+    registry.step('SIGNUP_FIRM_NAME', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { firmName: text }
+        });
+        session.step = 'SIGNUP_FIRM_STATE';
+        await ctx.reply('🏢 Step 2/6: What **State** is your firm located in?');
+    });
+
+    registry.step('SIGNUP_FIRM_STATE', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { firmState: text }
+        });
+        session.step = 'SIGNUP_NAME';
+        await ctx.reply('🏢 Step 3/6: What is your **Full Name**?');
+    });
+
+        // BAR ASSOCIATION SIGNUP FLOW
+    registry.step('SIGNUP_BRANCH_NAME', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { branchName: text }
+        });
+        session.step = 'SIGNUP_NAME';
+        await ctx.reply('⚖️ Step 2/6: What is your **Full Name**?');
+    });
+
+        // EDIT PROFILE HANDLERS
+    registry.step(['EDIT_FULLNAME', 'EDIT_EMAIL', 'EDIT_PHONE', 'EDIT_ADDRESS', 'EDIT_JOBPOSITION', 'EDIT_FIRMCODE'], async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        const fieldMap: Record<string, string> = {
+            'EDIT_FULLNAME': 'fullName',
+            'EDIT_EMAIL': 'email',
+            'EDIT_PHONE': 'phone',
+            'EDIT_ADDRESS': 'address',
+            'EDIT_JOBPOSITION': 'jobPosition',
+            'EDIT_FIRMCODE': 'firmCode'
+        };
+        const dbField = fieldMap[session.step];
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { [dbField]: text }
+        });
+        session.step = 'IDLE';
+        await ctx.reply(`✅ **${dbField}** updated successfully!\n\nUse /profile to view your updated info.`);
+    });
+
+        // SIGNUP WIZARD STEPS
+    registry.step('SIGNUP_NAME', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { fullName: text }
+        });
+        session.step = 'SIGNUP_EMAIL';
+        await ctx.reply('✅ Step 2/5: What is your **Email Address**?');
+    });
+
+    registry.step('SIGNUP_EMAIL', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { email: text }
+        });
+        session.step = 'SIGNUP_PHONE';
+        await ctx.reply('✅ Step 3/5: What is your **Phone Number**?');
+    });
+
+    registry.step('SIGNUP_PHONE', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { phone: text }
+        });
+        session.step = 'SIGNUP_ADDRESS';
+        await ctx.reply('✅ Step 4/5: What is your **Address**?');
+    });
+
+    registry.step('SIGNUP_ADDRESS', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { address: text }
+        });
+        session.step = 'SIGNUP_JOB';
+        await ctx.reply('✅ Step 5/5: What is your **Job Position/Title**?');
+    });
+
+    registry.step('SIGNUP_JOB', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: { jobPosition: text }
+        });
+        session.step = 'SIGNUP_REG_NUMBER';
+        await ctx.reply('📝 Final Step: Please enter your **Registration Number** (or type "Skip").\n\n• For Individuals: Bar Registration Number\n• For Firms: Company Registration Number\n\n_This is optional._');
+    });
+
+    registry.step('SIGNUP_REG_NUMBER', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        const userReg = await prisma.user.findUnique({ where: { telegramId: BigInt(userId) } });
+        const isFirmOrBar = userReg?.accountType === 'FIRM' || userReg?.accountType === 'BAR';
+        const skipped = text.toLowerCase() === 'skip';
+
+        await prisma.user.update({
+            where: { telegramId: BigInt(userId) },
+            data: {
+                registrationNumber: skipped ? null : text,
+                approvalStatus: isFirmOrBar ? 'PENDING' : 'APPROVED' // Firms need approval
+            } as any
+        });
+
+        session.step = 'IDLE';
+
+        if (isFirmOrBar) {
+            await ctx.reply('✅ **Registration Submitted**\n\nYour account is now **PENDING APPROVAL**.\nOur administrators will review your registration details.\nYou will receive a notification here once approved.');
+            console.log(`[ADMIN ALERT] New Registration Pending: @${userReg?.username} (ID: ${userId}) - Type: ${userReg?.accountType}`);
+        } else {
+            await ctx.reply('🎉 **Profile Complete!**\n\nYour account is set up but NOT VERIFIED.\n\nUse /verify to verify your account.\nUse /profile to view your info.\nUse /subscribe to upgrade your plan.');
+        }
+    });
+
+    registry.step('WAITING_VERIFY', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        const expectedCode = session.data.verificationCode;
+        if (text === expectedCode) {
+            await prisma.user.update({
+                where: { telegramId: BigInt(userId) },
+                data: { isVerified: true }
+            });
+            session.step = 'IDLE';
+            session.data.verificationCode = undefined;
+            await ctx.reply('✅ **Account Verified!**\n\nYour account is now fully verified.\n\nYou can now access all features.\nUse /newbrief to start a case.');
+        } else {
+            await ctx.reply('❌ **Invalid Code**\n\nThe code you entered is incorrect.\n\nPlease try again or use /verify to get a new code.');
+        }
+    });
+}
@@ -0,0 +1,65 @@
+import { CaseMatter } from '@prisma/client';
+import { prisma } from '../../services/db';
+import { canActOnCase } from '../../services/authorization';
+import { allowedTransitions, changeCaseStatus, getStatusTimeline, formatTimelineEntry, statusLabel, isCaseStatus, STATUS_NAMES } from '../../services/caseStatusService';
+import { CommandRegistry } from '../registry';
+import { BotContext } from '../session';
+import { escapeMd, loadCase } from '../helpers';
+
+// Current status, its timeline and the moves allowed from here
+async function showStatusPanel(ctx: BotContext, c: CaseMatter, edit: boolean) {
+    const timeline = await getStatusTimeline(c);
+    const canEdit = await canActOnCase(ctx.from!.id, c.id, 'edit');
+
+    let msg = `🔄 **Status: ${escapeMd(c.refCode || String(c.id))}**\n\n`;
+    msg += `**Current:** ${statusLabel(c.status)}\n\n`;
+    msg += `**Timeline**\n`;
+    timeline.forEach(entry => { msg += `• ${escapeMd(formatTimelineEntry(entry))}\n`; });
+    if (!canEdit) msg += `\n_You have read-only access to this case._`;
+
+    const moves = canEdit ? allowedTransitions(c.status) : [];
+    const extra = {
+        parse_mode: 'Markdown' as const,
+        reply_markup: {
+            inline_keyboard: [
+                ...moves.map(s => [{ text: `➡️ ${statusLabel(s)}`, callback_data: `set_status_${c.id}_${s}` }]),
+                [{ text: '🔙 Back to Case', callback_data: `view_case_${c.id}` }]
+            ]
+        }
+    };
+
+    if (edit) {
+        await ctx.editMessageText(msg, extra).catch(() => ctx.reply(msg, extra));
+    } else {
+        await ctx.reply(msg, extra);
+    }
+}
+
+// Case lifecycle: status changes and their history
+export function registerStatus(registry: CommandRegistry) {
+    registry.note('cases', 'Open a case → "Status" to move it from Intake through to Closed or Archived');
+
+    registry.action(/^case_status_(\d+)/, async (ctx) => {
+        const c = await loadCase(ctx, parseInt(ctx.match[1]), 'read');
+        if (!c) return;
+        await ctx.answerCbQuery();
+        await showStatusPanel(ctx, c, false);
+    });
+
+    registry.action(/^set_status_(\d+)_([A-Z_]+)$/, async (ctx) => {
+        const caseId = parseInt(ctx.match[1]);
+        const target = ctx.match[2];
+        const c = await loadCase(ctx, caseId, 'edit');
+        if (!c) return;
+        if (!isCaseStatus(target)) return ctx.answerCbQuery('Unknown status.');
+
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from.id) } });
+        if (!user) return ctx.answerCbQuery('Please /start the bot first.');
+
+        const result = await changeCaseStatus(caseId, c.status, target, user.id);
+        if (!result.ok) return ctx.answerCbQuery(result.error, { show_alert: true });
+
+        await ctx.answerCbQuery(`Status: ${STATUS_NAMES[target]}`);
+        await showStatusPanel(ctx, { ...c, status: target }, true);
+    });
+}
@@ -0,0 +1,126 @@
+import { prisma } from '../../services/db';
+import { getEffectivePlan } from '../../services/subscriptionService';
+import { CommandRegistry } from '../registry';
+
+// Firm/Bar team management: staff invites and joining an organization
+export function registerTeam(registry: CommandRegistry) {
+    // TEAM COMMAND - Manage team (FIRM/BAR only)
+    registry.command({ name: 'team', description: 'Manage your team', section: 'team' }, async (ctx) => {
+        const user = await prisma.user.findUnique({
+            where: { telegramId: BigInt(ctx.from.id) },
+            include: { teamMembers: true }
+        });
+
+        if (!user) return ctx.reply('Please /signup first.');
+
+        const { plan } = await getEffectivePlan(user);
+        if (plan !== 'FIRM' && plan !== 'BAR') {
+            return ctx.reply('👥 **Team Management**\n\nTeam features are only available on FIRM ($49/mo) and BAR ASSOCIATION ($199/mo) plans.\n\nUse /subscribe to upgrade.');
+        }
+
+        const staffLimit = plan === 'BAR' ? 100 : 15;
+        const members = user.teamMembers || [];
+
+        let msg = `👥 **Your Team** (${members.length}/${staffLimit})\n\n`;
+
+        if (members.length === 0) {
+            msg += `No team members yet.\n\n`;
+        } else {
+            members.forEach((m, i) => {
+                msg += `${i + 1}. ${m.fullName || m.username || `User ${m.id}`}\n`;
+            });
+            msg += '\n';
+        }
+
+        msg += `To add a staff member, share this invite link:\nhttps://t.me/${ctx.botInfo.username}?start=invite_${user.firmCode}\n\nOr use:\n/addstaff @username`;
+
+        await ctx.reply(msg);
+    });
+
+    // ADD STAFF COMMAND - Add team member (FIRM/BAR only)
+    registry.command({ name: 'addstaff', description: 'Invite staff members', section: 'team', usage: '@username' }, async (ctx) => {
+        const userId = ctx.from.id;
+        const user = await prisma.user.findUnique({
+            where: { telegramId: BigInt(userId) },
+            include: { teamMembers: true }
+        });
+
+        if (!user) return ctx.reply('Please /signup first.');
+
+        const { plan } = await getEffectivePlan(user);
+        if (plan !== 'FIRM' && plan !== 'BAR') {
+            return ctx.reply('Team features require FIRM or BAR ASSOCIATION plan.\n\nUse /subscribe to upgrade.');
+        }
+
+        const staffLimit = plan === 'BAR' ? 100 : 15;
+        if ((user.teamMembers?.length || 0) >= staffLimit) {
+            return ctx.reply(`You've reached your staff limit (${staffLimit}).\n\n${plan === 'FIRM' ? 'Upgrade to BAR ASSOCIATION for up to 100 members.' : 'Contact support for custom plans.'}`);
+        }
+
+        // Set session to wait for username
+        ctx.session.step = 'WAITING_ADDSTAFF';
+
+        await ctx.reply('👤 **Add Staff Member**\n\nEnter the @username of the staff member to add:\n\n_They must have already started the bot._');
+    });
+
+    registry.action(/^confirm_join_(\d+)/, async (ctx) => {
+        const ownerId = parseInt(ctx.match[1]);
+        const userId = ctx.from.id;
+
+        try {
+            const owner = await prisma.user.findUnique({ where: { id: ownerId }, include: { teamMembers: true } });
+            if (!owner) return ctx.answerCbQuery('Organization not found.');
+
+            // Check staff limit
+            const staffLimit = owner.subscription === 'BAR' ? 100 : 15;
+            if ((owner.teamMembers?.length || 0) >= staffLimit) {
+                return ctx.reply(`❌ This organization has reached its staff limit (${staffLimit}).`);
+            }
+
+            // Link user to owner
+            await prisma.user.update({
+                where: { telegramId: BigInt(userId) },
+                data: {
+                    teamOwnerId: ownerId,
+                    firmCode: owner.firmCode,
+                    accountType: owner.accountType === 'FIRM' ? 'FIRM' : 'BAR', // Join as part of that type
+                    subscription: owner.subscription
+                } as any
+            });
+
+            await ctx.answerCbQuery('Joined successfully!');
+            await ctx.editMessageText(`✅ **Welcome to the Team!**\n\nYou have joined **${owner.firmName || owner.branchName || 'the organization'}**.\n\nYou can now create cases using the organization's reference code: **${owner.firmCode}**.\n\nUse /newbrief to start.`);
+        } catch (e) {
+            console.error('Join error:', e);
+            await ctx.answerCbQuery('Failed to join.');
+        }
+    });
+
+        // ADD STAFF HANDLER
+    registry.step('WAITING_ADDSTAFF', async (ctx, text) => {
+        const userId = ctx.from.id;
+        const session = ctx.session;
+        const staffUsername = text.startsWith('@') ? text.substring(1) : text;
+        const staffUser = await prisma.user.findFirst({ where: { username: staffUsername } });
+
+        if (!staffUser) {
+            await ctx.reply(`❌ User @${staffUsername} not found.\n\nThey must have started the bot first. Ask them to run /start`);
+            return;
+        }
+
+        if (staffUser.teamOwnerId) {
+            await ctx.reply(`❌ @${staffUsername} is already part of another team.`);
+            session.step = 'IDLE';
+            return;
+        }
+
+        const owner = await prisma.user.findUnique({ where: { telegramId: BigInt(userId) } });
+        await prisma.user.update({
+            where: { id: staffUser.id },
+            data: { teamOwnerId: owner?.id }
+        });
+
+        session.step = 'IDLE';
+        await ctx.reply(`✅ **@${staffUsername}** added to your team!\n\nThey now have access to shared team features.\n\nUse /team to view all members.`);
+    });
+}
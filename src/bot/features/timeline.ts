@@ -0,0 +1,254 @@
+import { CaseMatter } from '@prisma/client';
+import { InlineKeyboardButton } from 'telegraf/types';
+import { prisma } from '../../services/db';
+import { canActOnCase } from '../../services/authorization';
+import { EVENT_KINDS, deleteEvent, eventIcon, eventKindName, getEvent, isEventKind, parseTime, updateEvent } from '../../services/calendarService';
+import { buildChronology, listChronology } from '../../services/chronologyService';
+import { generateChronologyCsv, generateChronologyPDF, generateChronologyWord } from '../../services/exportService';
+import { formatDate, parseIsoDate, toIsoDate } from '../../core/dates';
+import { CommandRegistry } from '../registry';
+import { BotContext } from '../session';
+import { escapeMd, loadCase, loadCaseByRef } from '../helpers';
+
+const PAGE_SIZE = 8;
+const BUTTONS_PER_ROW = 4;
+
+const EDIT_PROMPTS: Record<'date' | 'time' | 'title', string> = {
+    date: 'Send the corrected date as YYYY-MM-DD.',
+    time: 'Send the time as HH:MM, or "none" for an all-day entry.',
+    title: 'Send the new description.'
+};
+
+async function canEditCase(ctx: BotContext, c: CaseMatter): Promise<boolean> {
+    return canActOnCase(ctx.from!.id, c.id, 'edit');
+}
+
+// One page of the chronology, with a button per entry
+async function showTimelinePanel(ctx: BotContext, c: CaseMatter, page: number, edit: boolean, added: number = 0) {
+    const entries = await listChronology(c);
+    const canEdit = await canEditCase(ctx, c);
+    const pages = Math.max(1, Math.ceil(entries.length / PAGE_SIZE));
+    page = Math.min(Math.max(page, 0), pages - 1);
+    const shown = entries.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+    let msg = `🧾 **Chronology: ${escapeMd(c.refCode || String(c.id))}**\n`;
+    msg += `_${entries.length} entr${entries.length === 1 ? 'y' : 'ies'} from the case facts, documents, Q&A and calendar_\n\n`;
+    if (added > 0) msg += `✅ Added ${added} new entr${added === 1 ? 'y' : 'ies'}.\n\n`;
+    if (entries.length === 0) msg += `_No dated events yet. Upload documents, or add one with the button below._\n`;
+    shown.forEach((e, i) => {
+        msg += `${page * PAGE_SIZE + i + 1}. ${eventIcon(e.kind)} **${formatDate(e.date)}**${e.time ? ` ${e.time}` : ''} - ${escapeMd(e.title)}\n`;
+        msg += `    _${escapeMd(e.source)}_\n`;
+    });
+
+    const numbers: InlineKeyboardButton[] = shown.map((e, i) => ({ text: `${canEdit ? '✏️' : '🔎'} ${page * PAGE_SIZE + i + 1}`, callback_data: `tl_entry_${e.id}` }));
+    const rows: InlineKeyboardButton[][] = [];
+    for (let i = 0; i < numbers.length; i += BUTTONS_PER_ROW) rows.push(numbers.slice(i, i + BUTTONS_PER_ROW));
+    if (pages > 1) {
+        rows.push([
+            { text: '◀️', callback_data: page > 0 ? `tl_page_${c.id}_${page - 1}` : 'cal_noop' },
+            { text: `${page + 1}/${pages}`, callback_data: 'cal_noop' },
+            { text: '▶️', callback_data: page < pages - 1 ? `tl_page_${c.id}_${page + 1}` : 'cal_noop' }
+        ]);
+    }
+
+    const extra = {
+        parse_mode: 'Markdown' as const,
+        reply_markup: {
+            inline_keyboard: [
+                ...rows,
+                ...(canEdit ? [[{ text: '➕ Add Entry', callback_data: `cal_month_${c.id}_${toIsoDate(new Date()).slice(0, 7)}` }]] : []),
+                [
+                    { text: '📄 PDF', callback_data: `tl_export_${c.id}_pdf` },
+                    { text: '📝 Word', callback_data: `tl_export_${c.id}_docx` },
+                    { text: '📊 CSV', callback_data: `tl_export_${c.id}_csv` }
+                ],
+                [{ text: '🔙 Back to Case', callback_data: `view_case_${c.id}` }]
+            ]
+        }
+    };
+
+    if (edit) {
+        await ctx.editMessageText(msg, extra).catch(() => ctx.reply(msg, extra));
+    } else {
+        await ctx.reply(msg, extra);
+    }
+}
+
+// Add whatever is new in the case's facts, documents and Q&A, then show the chronology
+async function openTimeline(ctx: BotContext, c: CaseMatter) {
+    let added = 0;
+    if (await canEditCase(ctx, c)) {
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from!.id) } });
+        added = await buildChronology(c, user?.id ?? null).catch(e => {
+            console.error('[Bot] Chronology build failed:', e);
+            return 0;
+        });
+    }
+    await showTimelinePanel(ctx, c, 0, false, added);
+}
+
+// One entry with its source passage and buttons to correct it
+async function showEntryPanel(ctx: BotContext, c: CaseMatter, eventId: number, edit: boolean) {
+    const entries = await listChronology(c);
+    const index = entries.findIndex(e => e.id === eventId);
+    if (index === -1) return ctx.reply('That entry is no longer on the timeline.');
+    const entry = entries[index];
+    const canEdit = await canEditCase(ctx, c);
+
+    let msg = `🧾 **Entry ${index + 1} of ${entries.length} - ${escapeMd(c.refCode || String(c.id))}**\n\n`;
+    msg += `${eventIcon(entry.kind)} **${formatDate(entry.date)}**${entry.time ? ` ${entry.time}` : ''} - ${eventKindName(entry.kind)}\n`;
+    msg += `${escapeMd(entry.title)}\n\n`;
+    msg += `Source: _${escapeMd(entry.source)}_\n`;
+    if (entry.passage && entry.passage !== entry.title) msg += `\n"${escapeMd(entry.passage)}"\n`;
+
+    const kinds: InlineKeyboardButton[] = EVENT_KINDS.map(kind => ({
+        text: `${kind === entry.kind ? '• ' : ''}${eventIcon(kind)} ${eventKindName(kind)}`,
+        callback_data: `tl_kind_${entry.id}_${kind}`
+    }));
+    const kindRows: InlineKeyboardButton[][] = [];
+    for (let i = 0; i < kinds.length; i += BUTTONS_PER_ROW) kindRows.push(kinds.slice(i, i + BUTTONS_PER_ROW));
+
+    const extra = {
+        parse_mode: 'Markdown' as const,
+        reply_markup: {
+            inline_keyboard: [
+                ...(canEdit ? [
+                    [
+                        { text: '✏️ Date', callback_data: `tl_edit_${entry.id}_date` },
+                        { text: '✏️ Time', callback_data: `tl_edit_${entry.id}_time` },
+                        { text: '✏️ Text', callback_data: `tl_edit_${entry.id}_title` }
+                    ],
+                    ...kindRows,
+                    [{ text: '🗑 Remove', callback_data: `tl_del_${entry.id}` }]
+                ] : []),
+                [{ text: '🔙 Chronology', callback_data: `tl_page_${c.id}_${Math.floor(index / PAGE_SIZE)}` }]
+            ]
+        }
+    };
+
+    if (edit) {
+        await ctx.editMessageText(msg, extra).catch(() => ctx.reply(msg, extra));
+    } else {
+        await ctx.reply(msg, extra);
+    }
+}
+
+// Chronology of the case built from its facts, documents, Q&A and calendar, with export
+export function registerTimeline(registry: CommandRegistry) {
+    registry.command({ name: 'timeline', description: 'Chronology of a case, with PDF, Word and CSV export', section: 'cases', usage: '[CaseRef]' }, async (ctx) => {
+        const [, ref] = ctx.message.text.trim().split(/\s+/);
+        if (!ref) return ctx.reply('Usage: /timeline [CaseRef]\n\nExample: /timeline LGL-004\nOr open a case and tap 🧾 Timeline.');
+
+        const c = await loadCaseByRef(ctx, ref, 'read');
+        if (c) await openTimeline(ctx, c);
+    });
+
+    registry.action(/^case_timeline_(\d+)/, async (ctx) => {
+        const c = await loadCase(ctx, parseInt(ctx.match[1]), 'read');
+        if (!c) return;
+        await ctx.answerCbQuery('Building chronology...');
+        await openTimeline(ctx, c);
+    });
+
+    registry.action(/^tl_page_(\d+)_(\d+)$/, async (ctx) => {
+        const c = await loadCase(ctx, parseInt(ctx.match[1]), 'read');
+        if (!c) return;
+        await ctx.answerCbQuery();
+        await showTimelinePanel(ctx, c, parseInt(ctx.match[2]), true);
+    });
+
+    registry.action(/^tl_entry_(\d+)$/, async (ctx) => {
+        const event = await getEvent(parseInt(ctx.match[1]));
+        if (!event) return ctx.answerCbQuery('Entry not found.');
+        const c = await loadCase(ctx, event.caseId, 'read');
+        if (!c) return;
+        await ctx.answerCbQuery();
+        await showEntryPanel(ctx, c, event.id, true);
+    });
+
+    registry.action(/^tl_kind_(\d+)_([A-Z]+)$/, async (ctx) => {
+        const event = await getEvent(parseInt(ctx.match[1]));
+        if (!event) return ctx.answerCbQuery('Entry not found.');
+        const c = await loadCase(ctx, event.caseId, 'edit');
+        if (!c) return;
+        if (!isEventKind(ctx.match[2])) return ctx.answerCbQuery('Unknown type.');
+
+        await updateEvent(event, { kind: ctx.match[2] });
+        await ctx.answerCbQuery(`Marked as ${eventKindName(ctx.match[2]).toLowerCase()}.`);
+        await showEntryPanel(ctx, c, event.id, true);
+    });
+
+    registry.action(/^tl_edit_(\d+)_(date|time|title)$/, async (ctx) => {
+        const event = await getEvent(parseInt(ctx.match[1]));
+        if (!event) return ctx.answerCbQuery('Entry not found.');
+        if (!await loadCase(ctx, event.caseId, 'edit')) return;
+
+        const field = ctx.match[2] as 'date' | 'time' | 'title';
+        await ctx.answerCbQuery();
+        ctx.session.step = 'WAITING_TIMELINE_EDIT';
+        ctx.session.data.timelineEventId = event.id;
+        ctx.session.data.timelineField = field;
+        await ctx.reply(`✏️ ${EDIT_PROMPTS[field]}`);
+    });
+
+    registry.step('WAITING_TIMELINE_EDIT', async (ctx, text) => {
+        const session = ctx.session;
+        const eventId = session.data.timelineEventId;
+        const field = session.data.timelineField;
+        session.step = 'IDLE';
+        session.data.timelineEventId = undefined;
+        session.data.timelineField = undefined;
+        if (!eventId || !field) return ctx.reply('Session expired. Open the timeline again.');
+
+        const event = await getEvent(eventId);
+        if (!event) return ctx.reply('That entry is no longer on the timeline.');
+        const c = await loadCase(ctx, event.caseId, 'edit');
+        if (!c) return;
+
+        const value = text.trim();
+        if (field === 'date') {
+            const date = parseIsoDate(value);
+            if (!date) return ctx.reply(`"${value}" isn't a valid date. Use YYYY-MM-DD and pick ✏️ Date again.`);
+            await updateEvent(event, { date });
+        } else if (field === 'time') {
+            const allDay = /^(none|all day|-)$/i.test(value);
+            const time = allDay ? null : parseTime(value);
+            if (!allDay && !time) return ctx.reply(`"${value}" isn't a valid time. Use HH:MM and pick ✏️ Time again.`);
+            await updateEvent(event, { time });
+        } else {
+            if (!value) return ctx.reply('The description can\'t be empty.');
+            await updateEvent(event, { title: value.substring(0, 500) });
+        }
+        await showEntryPanel(ctx, c, event.id, false);
+    });
+
+    registry.action(/^tl_del_(\d+)$/, async (ctx) => {
+        const event = await getEvent(parseInt(ctx.match[1]));
+        if (!event) return ctx.answerCbQuery('Entry not found.');
+        const c = await loadCase(ctx, event.caseId, 'edit');
+        if (!c) return;
+
+        const index = (await listChronology(c)).findIndex(e => e.id === event.id);
+        await deleteEvent(event.id);
+        await ctx.answerCbQuery('Entry removed.');
+        await showTimelinePanel(ctx, c, Math.floor(Math.max(index, 0) / PAGE_SIZE), true);
+    });
+
+    registry.action(/^tl_export_(\d+)_(pdf|docx|csv)$/, async (ctx) => {
+        const c = await loadCase(ctx, parseInt(ctx.match[1]), 'read');
+        if (!c) return;
+        const entries = await listChronology(c);
+        if (entries.length === 0) return ctx.answerCbQuery('The timeline is empty.');
+
+        await ctx.answerCbQuery('Generating...');
+        const data = { refCode: c.refCode || String(c.id), title: c.title, entries };
+        const name = `${c.refCode || 'Case'}_Chronology`;
+        if (ctx.match[2] === 'pdf') {
+            await ctx.replyWithDocument({ source: await generateChronologyPDF(data), filename: `${name}.pdf` });
+        } else if (ctx.match[2] === 'docx') {
+            await ctx.replyWithDocument({ source: await generateChronologyWord(data), filename: `${name}.docx` });
+        } else {
+            await ctx.replyWithDocument({ source: generateChronologyCsv(data), filename: `${name}.csv` });
+        }
+    });
+}
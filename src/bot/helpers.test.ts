@@ -0,0 +1,121 @@
+// Case loading for handlers
+// loadCase() and loadCaseByRef() either return a case the user may act on or
+// tell them why not. The database is replaced by a few in-memory rows.
+
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { CaseMatter, User } from '@prisma/client';
+import { prisma } from '../services/db';
+import { BotContext } from './session';
+import { loadCase, loadCaseByRef } from './helpers';
+
+const owner = { id: 1, telegramId: BigInt(1001), accountType: 'INDIVIDUAL', teamOwnerId: null } as User;
+const other = { id: 2, telegramId: BigInt(1002), accountType: 'INDIVIDUAL', teamOwnerId: null } as User;
+
+const ownCase = { id: 10, userId: owner.id, refCode: 'LGL-004', title: 'Own matter' } as CaseMatter;
+const otherCase = { id: 20, userId: other.id, refCode: 'LGL-004', title: 'Other matter' } as CaseMatter;
+
+// Answer the queries the access check makes from the rows above
+function useRows() {
+    const users = [owner, other];
+    const cases = [otherCase, ownCase]; // Newest first, as the reference lookup orders them
+    const db = prisma as any;
+    db.user.findUnique = async ({ where }: any) => users.find(u => u.telegramId === where.telegramId) ?? null;
+    db.caseMatter.findUnique = async ({ where }: any) => {
+        const c = cases.find(c => c.id === where.id);
+        const creator = users.find(u => u.id === c?.userId);
+        return c && creator ? { ...c, user: { id: creator.id, teamOwnerId: creator.teamOwnerId } } : null;
+    };
+    db.caseMatter.findMany = async ({ where }: any) => cases
+        .filter(c => c.refCode?.toLowerCase() === where.refCode.equals.toLowerCase())
+        .map(c => ({ id: c.id }));
+    db.caseShare.findUnique = async () => null;
+}
+
+// A message or button press from the given Telegram user, recording what the bot answers
+function context(telegramId: bigint, callback = false) {
+    const replies: string[] = [];
+    const alerts: { text: string; showAlert: boolean }[] = [];
+    const ctx = {
+        from: { id: Number(telegramId) },
+        callbackQuery: callback ? { id: '1' } : undefined,
+        reply: async (text: string) => { replies.push(text); },
+        answerCbQuery: async (text: string, extra?: { show_alert?: boolean }) => { alerts.push({ text, showAlert: !!extra?.show_alert }); }
+    };
+    return { ctx: ctx as unknown as BotContext, replies, alerts };
+}
+
+describe('loadCase', () => {
+    beforeEach(() => {
+        useRows();
+        mock.method(console, 'warn', () => { });
+    });
+    afterEach(() => mock.restoreAll());
+
+    it('returns a case the user may act on without a message', async () => {
+        const { ctx, replies, alerts } = context(owner.telegramId);
+        const c = await loadCase(ctx, ownCase.id, 'delete');
+        assert.equal(c?.id, ownCase.id);
+        assert.deepEqual([...replies, ...alerts], []);
+    });
+
+    it('tells a user without an account to start the bot', async () => {
+        const { ctx, replies } = context(BigInt(99999));
+        assert.equal(await loadCase(ctx, ownCase.id), null);
+        assert.deepEqual(replies, ['Please /start the bot first.']);
+    });
+
+    it('reports a missing case', async () => {
+        const { ctx, replies } = context(owner.telegramId);
+        assert.equal(await loadCase(ctx, 404), null);
+        assert.deepEqual(replies, ['Case not found.']);
+    });
+
+    it('refuses someone else\'s case', async () => {
+        const { ctx, replies } = context(owner.telegramId);
+        assert.equal(await loadCase(ctx, otherCase.id, 'read'), null);
+        assert.deepEqual(replies, ['⛔ You do not have access to this case.']);
+    });
+
+    it('answers a button press with an alert instead of a message', async () => {
+        const { ctx, replies, alerts } = context(owner.telegramId, true);
+        assert.equal(await loadCase(ctx, otherCase.id), null);
+        assert.deepEqual(alerts, [{ text: '⛔ You do not have access to this case.', showAlert: true }]);
+        assert.deepEqual(replies, []);
+    });
+
+    it('ignores an ID that is not a number', async () => {
+        const { ctx, replies } = context(owner.telegramId);
+        assert.equal(await loadCase(ctx, NaN), null);
+        assert.deepEqual(replies, []);
+    });
+});
+
+describe('loadCaseByRef', () => {
+    beforeEach(() => {
+        useRows();
+        mock.method(console, 'warn', () => { });
+    });
+    afterEach(() => mock.restoreAll());
+
+    it('takes a numeric ID', async () => {
+        const { ctx } = context(owner.telegramId);
+        assert.equal((await loadCaseByRef(ctx, String(ownCase.id)))?.id, ownCase.id);
+    });
+
+    it('picks the case with that reference the user may act on', async () => {
+        const { ctx, replies } = context(owner.telegramId);
+        assert.equal((await loadCaseByRef(ctx, 'lgl-004', 'edit'))?.id, ownCase.id);
+        assert.deepEqual(replies, []);
+    });
+
+    it('reports an unknown or inaccessible reference as not found', async () => {
+        const { ctx, replies } = context(owner.telegramId);
+        assert.equal(await loadCaseByRef(ctx, 'LGL-999'), null);
+        assert.deepEqual(replies, ['Case not found.']);
+
+        const outsider = context(BigInt(99999));
+        assert.equal(await loadCaseByRef(outsider.ctx, 'LGL-004'), null);
+        assert.deepEqual(outsider.replies, ['Case not found.']);
+    });
+});
@@ -0,0 +1,78 @@
+import { CaseMatter } from '@prisma/client';
+import { prisma } from '../services/db';
+import { authorizeCase, canActOnCase, CaseAction } from '../services/authorization';
+import { checkAiBudget } from '../services/usageService';
+import { BotContext } from './session';
+
+// Admin helper function
+export async function isAdmin(telegramId: number): Promise<{ isAdmin: boolean; role: string | null }> {
+    const admin = await prisma.admin.findUnique({ where: { telegramId: BigInt(telegramId) } });
+    return { isAdmin: !!admin, role: admin?.role || null };
+}
+
+// Plan limits
+export const PLAN_LIMITS: Record<string, number> = { FREE: 2, PRO: 10, FIRM: 20, BAR: 999999 };
+
+const ACCESS_DENIED: Record<'NO_ACCOUNT' | 'NOT_FOUND' | 'FORBIDDEN', string> = {
+    NO_ACCOUNT: 'Please /start the bot first.',
+    NOT_FOUND: 'Case not found.',
+    FORBIDDEN: '⛔ You do not have access to this case.'
+};
+
+// Load a case the current user may act on, or tell them why not.
+// Returns null when access is denied - the handler should just stop.
+export async function loadCase(ctx: BotContext, caseId: number, action: CaseAction = 'read'): Promise<CaseMatter | null> {
+    if (!ctx.from || isNaN(caseId)) return null;
+
+    const result = await authorizeCase(ctx.from.id, caseId, action);
+    if (result.allowed) return result.case;
+
+    const message = ACCESS_DENIED[result.reason];
+    if (ctx.callbackQuery) {
+        // The handler may already have answered the query
+        await ctx.answerCbQuery(message, { show_alert: result.reason === 'FORBIDDEN' }).catch(() => ctx.reply(message));
+    } else {
+        await ctx.reply(message);
+    }
+    return null;
+}
+
+// Same as loadCase, but takes a reference code ("LGL-004") or a numeric ID.
+// Reference codes repeat across firms, so the first case the user may act on wins.
+export async function loadCaseByRef(ctx: BotContext, ref: string, action: CaseAction = 'read'): Promise<CaseMatter | null> {
+    if (/^\d+$/.test(ref)) return loadCase(ctx, parseInt(ref), action);
+    if (!ctx.from) return null;
+
+    const candidates = await prisma.caseMatter.findMany({
+        where: { refCode: { equals: ref, mode: 'insensitive' } },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true }
+    });
+    for (const candidate of candidates) {
+        if (await canActOnCase(ctx.from.id, candidate.id, action)) return loadCase(ctx, candidate.id, action);
+    }
+    await ctx.reply(ACCESS_DENIED.NOT_FOUND);
+    return null;
+}
+
+// Stop AI features once the user's plan has used its monthly AI budget.
+// Returns false when over budget - the handler should just stop.
+export async function ensureAiBudget(ctx: BotContext): Promise<boolean> {
+    if (!ctx.from) return false;
+
+    const budget = await checkAiBudget(ctx.from.id);
+    if (budget.allowed) return true;
+
+    const message = `⚠️ Your ${budget.plan} plan has used its AI allowance for this month ($${budget.budget.toFixed(2)}). Use /subscribe to upgrade, or try again next month.`;
+    if (ctx.callbackQuery) {
+        await ctx.answerCbQuery(message, { show_alert: true }).catch(() => ctx.reply(message));
+    } else {
+        await ctx.reply(message);
+    }
+    return false;
+}
+
+// Helper to escape Markdown special characters
+export function escapeMd(text: string): string {
+    return text.replace(/[_*[\]()`]/g, '\\$&');
+}
@@ -0,0 +1,298 @@
+import { Composer, NarrowedContext, Telegraf } from 'telegraf';
+import { MountMap } from 'telegraf/typings/telegram-types';
+import { BotContext, SessionStep } from './session';
+
+// Command registry
+// Every feature module registers its commands, callback patterns and wizard
+// steps here instead of on the Telegraf instance directly. That lets us refuse
+// to start when two features claim the same command or callback data, and
+// build /help and the Telegram command menu from one source of truth.
+
+type BotComposer = Composer<BotContext>;
+export type CommandHandler = Parameters<BotComposer['command']>[1];
+export type StartHandler = Parameters<BotComposer['start']>[0];
+export type ActionHandler = Parameters<BotComposer['action']>[1];
+export type TextContext = NarrowedContext<BotContext, MountMap['text']>;
+export type StepHandler = (ctx: TextContext, text: string) => Promise<unknown>;
+
+export type HelpSection = 'start' | 'cases' | 'research' | 'export' | 'billing' | 'team' | 'admin';
+
+const SECTION_TITLES: Record<HelpSection, string> = {
+    start: '🚀 Getting Started',
+    cases: '📁 Case Management',
+    research: '🔍 Research & Analysis',
+    billing: '💎 Subscription',
+    team: '👥 Team (Firms/Bars)',
+    export: '📤 Export',
+    admin: '🔐 Admin'
+};
+
+export interface CommandSpec {
+    name: string;
+    description: string;
+    section: HelpSection;
+    usage?: string;       // Arguments shown after the command, e.g. "[CaseID] @username"
+    adminOnly?: boolean;  // Hidden from /help and the Telegram command menu
+}
+
+interface RegisteredCommand extends CommandSpec {
+    feature: string;
+}
+
+interface RegisteredAction {
+    pattern: string | RegExp;
+    feature: string;
+}
+
+export class CommandRegistry {
+    readonly composer: BotComposer = new Composer<BotContext>();
+
+    private commands: RegisteredCommand[] = [];
+    private actions: RegisteredAction[] = [];
+    private steps: Map<SessionStep, { feature: string; handler: StepHandler }[]> = new Map();
+    private notes: Map<HelpSection, string[]> = new Map();
+    private currentFeature = 'core';
+
+    // Run a feature's register function, attributing everything it adds to that feature
+    feature(name: string, register: (registry: CommandRegistry) => void): void {
+        const previous = this.currentFeature;
+        this.currentFeature = name;
+        try {
+            register(this);
+        } finally {
+            this.currentFeature = previous;
+        }
+    }
+
+    command(spec: CommandSpec, handler: CommandHandler): void {
+        this.commands.push({ ...spec, feature: this.currentFeature });
+        this.composer.command(spec.name, handler);
+    }
+
+    start(spec: Omit<CommandSpec, 'name'>, handler: StartHandler): void {
+        this.commands.push({ ...spec, name: 'start', feature: this.currentFeature });
+        this.composer.start(handler);
+    }
+
+    action(pattern: string | RegExp, handler: ActionHandler): void {
+        this.actions.push({ pattern, feature: this.currentFeature });
+        this.composer.action(pattern, handler);
+    }
+
+    // Text handler for users parked on a wizard step
+    step(steps: SessionStep | SessionStep[], handler: StepHandler): void {
+        for (const step of Array.isArray(steps) ? steps : [steps]) {
+            const owners = this.steps.get(step) || [];
+            owners.push({ feature: this.currentFeature, handler });
+            this.steps.set(step, owners);
+        }
+    }
+
+    // Extra bullet shown under a /help section (for features that aren't commands)
+    note(section: HelpSection, text: string): void {
+        const list = this.notes.get(section) || [];
+        list.push(text);
+        this.notes.set(section, list);
+    }
+
+    // Returns a list of human-readable conflicts; empty means the registry is consistent
+    findConflicts(): string[] {
+        const conflicts: string[] = [];
+
+        const seen = new Map<string, RegisteredCommand>();
+        for (const cmd of this.commands) {
+            const first = seen.get(cmd.name);
+            if (first) {
+                conflicts.push(`/${cmd.name} is registered by both "${first.feature}" and "${cmd.feature}"`);
+            } else {
+                seen.set(cmd.name, cmd);
+            }
+        }
+
+        for (let i = 0; i < this.actions.length; i++) {
+            for (let j = i + 1; j < this.actions.length; j++) {
+                const a = this.actions[i];
+                const b = this.actions[j];
+                if (patternsOverlap(a.pattern, b.pattern)) {
+                    conflicts.push(`Callback ${describePattern(a.pattern)} ("${a.feature}") overlaps ${describePattern(b.pattern)} ("${b.feature}")`);
+                }
+            }
+        }
+
+        for (const [step, owners] of this.steps) {
+            if (owners.length > 1) {
+                conflicts.push(`Step ${step} is handled by ${owners.map(o => `"${o.feature}"`).join(' and ')}`);
+            }
+        }
+
+        return conflicts;
+    }
+
+    // Validate and mount everything on the bot. Throws on conflicts so a
+    // shadowed handler can never ship silently.
+    install(bot: Telegraf<BotContext>): void {
+        const conflicts = this.findConflicts();
+        if (conflicts.length > 0) {
+            throw new Error(`Command registry conflicts:\n- ${conflicts.join('\n- ')}`);
+        }
+
+        // Wizard steps run after commands so /commands always win over a pending step
+        this.composer.on('text', async (ctx) => {
+            const session = ctx.session;
+            const text = ctx.message.text;
+
+            if (session.step === 'IDLE') {
+                if (text.startsWith('/')) return; // Ignore other commands
+                return ctx.reply('Please use /newbrief to start a new case or /search to research.');
+            }
+
+            const owner = this.steps.get(session.step)?.[0];
+            if (!owner) {
+                console.warn(`[Registry] No handler for step ${session.step}, resetting to IDLE`);
+                session.step = 'IDLE';
+                return;
+            }
+            await owner.handler(ctx, text);
+        });
+
+        bot.use(this.composer);
+        console.log(`[Registry] ${this.commands.length} commands, ${this.actions.length} callbacks, ${this.steps.size} wizard steps registered.`);
+    }
+
+    publicCommands(): RegisteredCommand[] {
+        return this.commands.filter(c => !c.adminOnly);
+    }
+
+    adminCommands(): RegisteredCommand[] {
+        return this.commands.filter(c => c.adminOnly);
+    }
+
+    // Payload for bot.telegram.setMyCommands
+    menuCommands(): { command: string; description: string }[] {
+        return this.publicCommands().map(c => ({ command: c.name, description: c.description.substring(0, 256) }));
+    }
+
+    helpText(): string {
+        let msg = `📖 **CaseView Bot - Quick Guide**\n`;
+
+        const sections = Object.keys(SECTION_TITLES) as HelpSection[];
+        for (const section of sections) {
+            const cmds = this.publicCommands().filter(c => c.section === section);
+            const notes = this.notes.get(section) || [];
+            if (cmds.length === 0 && notes.length === 0) continue;
+
+            msg += `\n**${SECTION_TITLES[section]}**\n`;
+            cmds.forEach(c => {
+                msg += `${formatCommand(c)} - ${c.description}\n`;
+            });
+            notes.forEach(n => {
+                msg += `• ${n}\n`;
+            });
+        }
+
+        return msg;
+    }
+}
+
+export function formatCommand(cmd: CommandSpec): string {
+    return `/${cmd.name}${cmd.usage ? ` ${cmd.usage}` : ''}`;
+}
+
+function describePattern(pattern: string | RegExp): string {
+    return typeof pattern === 'string' ? `"${pattern}"` : pattern.toString();
+}
+
+function matches(pattern: string | RegExp, data: string): boolean {
+    // Mirrors Telegraf: strings must match exactly, regexes via exec()
+    return typeof pattern === 'string' ? pattern === data : new RegExp(pattern.source, pattern.flags).test(data);
+}
+
+// Two patterns overlap when some callback data would be caught by both.
+// Regexes can't be intersected in general, so we generate representative
+// callback strings from each pattern and check them against the other.
+export function patternsOverlap(a: string | RegExp, b: string | RegExp): boolean {
+    const samplesA = typeof a === 'string' ? [a] : sampleStrings(a.source);
+    const samplesB = typeof b === 'string' ? [b] : sampleStrings(b.source);
+    return samplesA.some(s => matches(b, s)) || samplesB.some(s => matches(a, s));
+}
+
+const MAX_SAMPLES = 64;
+
+// Expand a (simple) regex source into strings it accepts. Supports what our
+// callback patterns use: literals, anchors, \d \w \s, classes, groups with
+// alternation and the + * ? quantifiers.
+export function sampleStrings(source: string): string[] {
+    let pos = 0;
+
+    function parseAlternatives(): string[] {
+        const results: string[] = [];
+        results.push(...parseSequence());
+        while (source[pos] === '|') {
+            pos++;
+            results.push(...parseSequence());
+        }
+        return results.slice(0, MAX_SAMPLES);
+    }
+
+    function parseSequence(): string[] {
+        let acc: string[] = [''];
+        while (pos < source.length && source[pos] !== '|' && source[pos] !== ')') {
+            const atom = parseAtom();
+            const quantifier = source[pos];
+            if (quantifier === '+' || quantifier === '*' || quantifier === '?') {
+                pos++;
+                if (source[pos] === '?') pos++; // lazy modifier
+            } else if (quantifier === '{') {
+                const end = source.indexOf('}', pos);
+                pos = end === -1 ? source.length : end + 1;
+            }
+            const next: string[] = [];
+            for (const prefix of acc) {
+                for (const option of atom) {
+                    if (next.length < MAX_SAMPLES) next.push(prefix + option);
+                }
+            }
+            acc = next;
+        }
+        return acc;
+    }
+
+    function parseAtom(): string[] {
+        const ch = source[pos++];
+        switch (ch) {
+            case '^':
+            case '$':
+                return [''];
+            case '.':
+                return ['x'];
+            case '\\':
+                return [escapeSample(source[pos++])];
+            case '[': {
+                const end = source.indexOf(']', pos);
+                const body = source.substring(pos, end);
+                pos = end + 1;
+                if (body.startsWith('^')) return ['~'];
+                return [body.startsWith('\\') ? escapeSample(body[1]) : body[0]];
+            }
+            case '(': {
+                if (source[pos] === '?') pos += 2; // (?: ... )
+                const inner = parseAlternatives();
+                pos++; // closing paren
+                return inner;
+            }
+            default:
+                return [ch];
+        }
+    }
+
+    return parseAlternatives();
+}
+
+function escapeSample(ch: string): string {
+    switch (ch) {
+        case 'd': return '1';
+        case 'w': return 'x';
+        case 's': return ' ';
+        default: return ch;
+    }
+}
@@ -0,0 +1,102 @@
+import { Context } from 'telegraf';
+import { StoredFile } from '../services/fileStorage';
+import { SharePermission } from '../services/authorization';
+import { HistoryQuery } from '../services/caseListService';
+
+// Every wizard step a user can be parked on between two messages
+export const SESSION_STEPS = [
+    'IDLE',
+    'WAITING_FIRM_CODE', 'WAITING_JURISDICTION', 'WAITING_COURT', 'WAITING_PARTIES', 'WAITING_FACTS',
+    'WAITING_QUESTION', 'WAITING_SHARE_USER', 'WAITING_LINK', 'WAITING_VERIFY', 'WAITING_ADDSTAFF',
+    'SIGNUP_ACCOUNT_TYPE', 'SIGNUP_FIRM_NAME', 'SIGNUP_FIRM_STATE', 'SIGNUP_BRANCH_NAME', 'SIGNUP_NAME',
+    'SIGNUP_EMAIL', 'SIGNUP_PHONE', 'SIGNUP_ADDRESS', 'SIGNUP_JOB', 'SIGNUP_REG_NUMBER',
+    'EDIT_FULLNAME', 'EDIT_EMAIL', 'EDIT_PHONE', 'EDIT_ADDRESS', 'EDIT_JOBPOSITION', 'EDIT_FIRMCODE',
+    'SCENARIO_Q1', 'SCENARIO_Q2', 'SCENARIO_Q3', 'SCENARIO_Q4', 'SCENARIO_Q5',
+    'EXPORT_FORMAT', 'EXPORT_WORDS',
+    'OCR_PREVIEW', 'OCR_EDIT',
+    'WAITING_EVENT_TITLE', 'WAITING_TIMELINE_EDIT'
+] as const;
+
+export type SessionStep = typeof SESSION_STEPS[number];
+
+export interface ConversationEntry {
+    role: 'user' | 'bot';
+    content: string;
+    timestamp: string; // ISO string so it survives JSON round-trips
+}
+
+export interface ScenarioInputs {
+    outcome?: string;
+    evidence?: string;
+    opposing?: string;
+    jurisdiction?: string;
+    caveats?: string;
+}
+
+export interface BotSession {
+    step: SessionStep;
+    data: {
+        jurisdiction?: string;
+        court?: string;
+        parties?: string;
+        facts?: string;
+        currentCaseId?: number;
+        currentRefCode?: string;
+        verificationCode?: string;
+        // For export - store full conversation
+        analysis?: string;
+        conversationHistory?: ConversationEntry[];
+        scenarioInputs?: ScenarioInputs;
+        exportSettings?: {
+            format?: 'PDF' | 'Word';
+            wordCount?: string;
+        };
+        precedents?: any[];
+        precedentsCaseId?: number; // Case the precedents were found for
+        ocrText?: string; // For OCR preview/edit workflow
+        ocrFile?: StoredFile; // Image the OCR text came from
+        // Share wizard: recipient username and chosen access level
+        shareTarget?: string;
+        sharePermission?: SharePermission;
+        historyQuery?: HistoryQuery; // Current /history page, filters and sort
+        // Calendar date picker: the case and the day chosen, waiting for a title
+        eventCaseId?: number;
+        eventDate?: string;
+        // Timeline entry being corrected and which field
+        timelineEventId?: number;
+        timelineField?: 'date' | 'time' | 'title';
+        // Streams the user stopped through another bot instance, newest last
+        stoppedStreams?: string[];
+    };
+    staging?: {
+        type: 'text' | 'file';
+        content: string;
+        mime: string;
+        file?: StoredFile; // Original upload, already in the file store
+    };
+}
+
+export interface BotContext extends Context {
+    session: BotSession;
+}
+
+export function createSession(): BotSession {
+    return { step: 'IDLE', data: {} };
+}
+
+// Rebuild a session from its stored JSON. Anything unreadable (or a step removed
+// in a later deploy) falls back to IDLE rather than trapping the user in a dead wizard.
+export function parseSession(raw: string): BotSession | undefined {
+    try {
+        const parsed = JSON.parse(raw);
+        if (!parsed || typeof parsed !== 'object') return undefined;
+
+        const step = SESSION_STEPS.includes(parsed.step) ? parsed.step as SessionStep : 'IDLE';
+        const data = parsed.data && typeof parsed.data === 'object' ? parsed.data : {};
+        const staging = parsed.staging && typeof parsed.staging.content === 'string' ? parsed.staging : undefined;
+
+        return { step, data, staging };
+    } catch {
+        return undefined;
+    }
+}
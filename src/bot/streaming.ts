@@ -0,0 +1,191 @@
+import { randomBytes } from 'crypto';
+import { Telegram } from 'telegraf';
+import { InlineKeyboardButton } from 'telegraf/types';
+import { BotContext } from './session';
+import { CommandRegistry } from './registry';
+import { BotSessionStore } from '../services/sessionStore';
+
+// Streaming AI replies
+// The answer appears in one message that is edited as text arrives, at most
+// once per STREAM_EDIT_INTERVAL so we stay inside Telegram's edit limits.
+// Past Telegram's 4096-character limit it continues in a new message.
+// While polling, Telegraf handles one update at a time, so the stream runs in
+// the background - otherwise the "⏹ Stop" tap would wait for the answer to finish.
+// With several instances behind a webhook the tap can reach one that isn't
+// running the stream. That instance leaves the stream's id in the asker's
+// session, in the shared store, and the running one checks for it.
+
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+const STREAM_EDIT_INTERVAL = 1500; // ms between edits of the same message
+const STOP_CHECK_INTERVAL = 2000;  // ms between checks for a Stop tapped on another instance
+const MAX_STOPPED_STREAMS = 5;     // Stop taps remembered in a session
+
+// Streams running on this instance, by id
+const activeStreams = new Map<string, AbortController>();
+let sessionStore: BotSessionStore | undefined;
+
+export interface StreamReplyOptions {
+    header: string; // Plain text shown above the answer, e.g. "🔄 Simulation Results"
+    generate: (signal: AbortSignal) => AsyncIterable<string>;
+    buttons?: InlineKeyboardButton[][]; // Shown under the last message once finished
+    // Called with the final text, unless the user stopped it before anything arrived
+    onComplete?: (text: string, stopped: boolean) => Promise<StreamCompletion | void>;
+}
+
+// Extras for the finished answer that depend on its text
+export interface StreamCompletion {
+    buttons?: InlineKeyboardButton[][]; // Shown above the standard buttons
+    footer?: string;                    // Appended below the answer
+}
+
+// Split text into Telegram-sized messages, breaking at a newline where possible.
+// A page never changes once the text has grown past it.
+export function splitMessage(text: string, limit: number = TELEGRAM_MESSAGE_LIMIT): string[] {
+    const pages: string[] = [];
+    let rest = text;
+    while (rest.length > limit) {
+        const newline = rest.lastIndexOf('\n', limit - 1);
+        const cut = newline > limit / 2 ? newline + 1 : limit;
+        pages.push(rest.substring(0, cut));
+        rest = rest.substring(cut);
+    }
+    pages.push(rest);
+    return pages;
+}
+
+// Keeps a run of messages in step with the text generated so far
+class StreamedMessages {
+    private messageIds: number[] = [];
+    private sent: string[] = [];
+
+    constructor(private telegram: Telegram, private chatId: number) { }
+
+    // The final render uses Markdown; half-written Markdown would be rejected mid-stream
+    async render(text: string, keyboard: InlineKeyboardButton[][] | undefined, markdown: boolean = false): Promise<void> {
+        const pages = splitMessage(text).map(page => page.trim() || '…');
+        for (let i = 0; i < pages.length; i++) {
+            // Only the last page carries the keyboard
+            const withKeyboard = i === pages.length - 1 && !!keyboard;
+            const extra = { reply_markup: withKeyboard ? { inline_keyboard: keyboard! } : undefined };
+            const state = `${withKeyboard}:${pages[i]}`;
+
+            if (i >= this.messageIds.length) {
+                this.messageIds.push(await this.send(pages[i], extra, markdown));
+            } else if (markdown || this.sent[i] !== state) {
+                await this.edit(this.messageIds[i], pages[i], extra, markdown);
+            }
+            this.sent[i] = state;
+        }
+    }
+
+    private async send(text: string, extra: object, markdown: boolean): Promise<number> {
+        try {
+            const message = await this.telegram.sendMessage(this.chatId, text, { ...extra, parse_mode: markdown ? 'Markdown' : undefined });
+            return message.message_id;
+        } catch (e) {
+            if (!markdown) throw e;
+            return this.send(text, extra, false);
+        }
+    }
+
+    private async edit(messageId: number, text: string, extra: object, markdown: boolean): Promise<void> {
+        try {
+            await this.telegram.editMessageText(this.chatId, messageId, undefined, text, { ...extra, parse_mode: markdown ? 'Markdown' : undefined });
+        } catch (e: any) {
+            const description: string = e.response?.description || e.message || '';
+            if (description.includes('message is not modified')) return;
+            if (markdown) {
+                await this.edit(messageId, text, extra, false);
+                return;
+            }
+            // Rate limited or similar: the next edit carries the same text
+            console.warn('[Stream] Edit failed:', description);
+        }
+    }
+}
+
+// Whether the user tapped Stop on a stream, on whichever instance took the tap
+async function stopRequested(userId: number, id: string): Promise<boolean> {
+    if (!sessionStore) return false;
+    const session = await sessionStore.get(String(userId));
+    return !!session?.data.stoppedStreams?.includes(id);
+}
+
+// Stream an AI answer into the chat. Returns at once; the answer keeps coming in the background.
+export async function streamReply(ctx: BotContext, options: StreamReplyOptions): Promise<void> {
+    if (!ctx.chat || !ctx.from) return;
+
+    // Unique across instances, unlike a counter
+    const id = randomBytes(6).toString('hex');
+    const userId = ctx.from.id;
+    const controller = new AbortController();
+    activeStreams.set(id, controller);
+
+    const messages = new StreamedMessages(ctx.telegram, ctx.chat.id);
+    const stopButton: InlineKeyboardButton[][] = [[{ text: '⏹ Stop', callback_data: `stream_stop_${userId}_${id}` }]];
+    await messages.render(`${options.header}\n\n…`, stopButton);
+
+    const run = async () => {
+        let text = '';
+        let lastEdit = Date.now();
+        const stopCheck = setInterval(() => {
+            stopRequested(userId, id)
+                .then(stop => { if (stop) controller.abort(); })
+                .catch(e => console.warn('[Stream] Stop check failed:', e.message || e));
+        }, STOP_CHECK_INTERVAL);
+        try {
+            for await (const chunk of options.generate(controller.signal)) {
+                if (controller.signal.aborted) break;
+                text += chunk;
+                if (Date.now() - lastEdit >= STREAM_EDIT_INTERVAL) {
+                    await messages.render(`${options.header}\n\n${text}`, stopButton);
+                    lastEdit = Date.now();
+                }
+            }
+        } catch (e) {
+            if (!controller.signal.aborted) {
+                console.error('[Stream] Generation failed:', (e as any).message || e);
+                text += text ? '\n\n⚠️ The answer was cut short.' : '⚠️ Something went wrong. Please try again.';
+            }
+        } finally {
+            clearInterval(stopCheck);
+            activeStreams.delete(id);
+        }
+
+        const stopped = controller.signal.aborted;
+        let shown = stopped ? (text ? `${text}\n\n⏹ Stopped.` : '⏹ Stopped before an answer arrived.') : text;
+        let completion: StreamCompletion | void = undefined;
+        if (options.onComplete && text.trim()) {
+            try {
+                completion = await options.onComplete(text, stopped);
+            } catch (e) {
+                console.error('[Stream] Completion handler failed:', e);
+            }
+        }
+        if (completion && completion.footer) shown += `\n\n${completion.footer}`;
+        const buttons = [...(completion && completion.buttons || []), ...(options.buttons || [])];
+        await messages.render(`${options.header}\n\n${shown}`, buttons.length > 0 ? buttons : undefined, true);
+    };
+
+    run().catch(e => console.error('[Stream] Failed:', e));
+}
+
+// The ⏹ Stop button under a streaming answer. `store` is the session store
+// shared by all instances.
+export function registerStreaming(registry: CommandRegistry, store: BotSessionStore) {
+    sessionStore = store;
+    registry.action(/^stream_stop_(\d+)_([0-9a-f]+)$/, async (ctx) => {
+        if (parseInt(ctx.match[1]) !== ctx.from.id) return ctx.answerCbQuery('Only the person who asked can stop this answer.');
+
+        const id = ctx.match[2];
+        const controller = activeStreams.get(id);
+        if (controller) {
+            controller.abort();
+        } else {
+            // Running on another instance (or already finished) - it reads the flag from the session
+            const stopped = ctx.session.data.stoppedStreams || [];
+            ctx.session.data.stoppedStreams = [...stopped.slice(-(MAX_STOPPED_STREAMS - 1)), id];
+        }
+        await ctx.answerCbQuery('Stopping...');
+    });
+}
@@ -0,0 +1,39 @@
+// Calendar dates
+// Month arithmetic at the ends of months and around leap days.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { addDays, addMonths, daysBetween } from './dates';
+
+describe('addMonths', () => {
+    it('keeps the day of the month when it exists', () => {
+        assert.equal(addMonths('2026-03-12', 3), '2026-06-12');
+        assert.equal(addMonths('2026-11-30', 2), '2027-01-30');
+    });
+
+    it('lands on the last day of a shorter month', () => {
+        assert.equal(addMonths('2023-01-31', 1), '2023-02-28');
+        assert.equal(addMonths('2024-01-31', 1), '2024-02-29');
+        assert.equal(addMonths('2026-08-31', 1), '2026-09-30');
+    });
+
+    it('moves a leap day to 28 February in a common year', () => {
+        assert.equal(addMonths('2024-02-29', 12), '2025-02-28');
+        assert.equal(addMonths('2024-02-29', 6 * 12), '2030-02-28');
+        assert.equal(addMonths('2024-02-29', 4 * 12), '2028-02-29');
+    });
+
+    it('counts backwards', () => {
+        assert.equal(addMonths('2024-03-31', -1), '2024-02-29');
+        assert.equal(addMonths('2025-02-28', -12), '2024-02-28');
+    });
+});
+
+describe('addDays and daysBetween', () => {
+    it('cross month and year ends', () => {
+        assert.equal(addDays('2024-02-28', 1), '2024-02-29');
+        assert.equal(addDays('2026-12-31', 1), '2027-01-01');
+        assert.equal(daysBetween('2024-02-01', '2024-03-01'), 29);
+        assert.equal(daysBetween('2026-03-01', '2026-02-01'), -28);
+    });
+});
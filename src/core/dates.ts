@@ -0,0 +1,114 @@
+// Calendar dates
+// Deadlines are counted in whole days, so dates are "YYYY-MM-DD" strings and
+// all arithmetic is done in UTC - a filing deadline must not shift with the
+// server's time zone. Also finds the dates written in a case's facts.
+
+export type IsoDate = string; // "2026-03-12"
+
+export interface FoundDate {
+    date: IsoDate;
+    text: string;    // As written, e.g. "12th March, 2021"
+    index: number;   // Offset in the source text
+    context: string; // The sentence it appears in
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const MAX_CONTEXT = 200;
+
+const DAY_MONTH_YEAR = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+day\\s+of)?\\s+${MONTH_PATTERN}\\.?,?\\s+(\\d{4})\\b`, 'gi');
+const MONTH_DAY_YEAR = new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi');
+const ISO = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const NUMERIC = /\b(\d{1,2})[/.](\d{1,2})[/.](\d{4})\b/g;
+
+function monthNumber(name: string): number {
+    return MONTHS.findIndex(m => m.startsWith(name.toLowerCase().slice(0, 3))) + 1;
+}
+
+// Null for impossible dates like 31 February
+export function dateFromParts(year: number, month: number, day: number): IsoDate | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return toIsoDate(date);
+}
+
+export function toIsoDate(date: Date): IsoDate {
+    return date.toISOString().slice(0, 10);
+}
+
+// "2026-03-12" typed by a user, or null
+export function parseIsoDate(value: string): IsoDate | null {
+    const match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    return match ? dateFromParts(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+function utc(date: IsoDate): Date {
+    return new Date(`${date}T00:00:00Z`);
+}
+
+export function addDays(date: IsoDate, days: number): IsoDate {
+    const d = utc(date);
+    d.setUTCDate(d.getUTCDate() + days);
+    return toIsoDate(d);
+}
+
+// Lands on the last day of the month when the day doesn't exist (31 Jan + 1 month = 28/29 Feb)
+export function addMonths(date: IsoDate, months: number): IsoDate {
+    const d = utc(date);
+    const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(d.getUTCDate(), lastDay));
+    return toIsoDate(target);
+}
+
+// Whole days from `from` to `to`, negative when `to` is earlier
+export function daysBetween(from: IsoDate, to: IsoDate): number {
+    return Math.round((utc(to).getTime() - utc(from).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+// 0 = Sunday ... 6 = Saturday
+export function dayOfWeek(date: IsoDate): number {
+    return utc(date).getUTCDay();
+}
+
+export function formatDate(date: IsoDate): string {
+    return utc(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function sentenceAround(text: string, start: number, end: number): string {
+    let from = start;
+    while (from > 0 && start - from < MAX_CONTEXT && !/[\n!?]/.test(text[from - 1]) && !(text[from - 1] === ' ' && text[from - 2] === '.')) from--;
+    let to = end;
+    while (to < text.length && to - end < MAX_CONTEXT && !/[\n!?]/.test(text[to]) && !(text[to] === '.' && /\s/.test(text[to + 1] || ' '))) to++;
+    return text.slice(from, to + 1).replace(/\s+/g, ' ').trim();
+}
+
+// Every full date in the text, in the order written. `dayFirst` decides how
+// "03/04/2021" reads: 3 April (Nigeria, UK, Ghana...) or March 4 (US).
+export function extractDates(text: string, options: { dayFirst?: boolean } = {}): FoundDate[] {
+    const dayFirst = options.dayFirst !== false;
+    const found: FoundDate[] = [];
+
+    const collect = (pattern: RegExp, toDate: (m: RegExpExecArray) => IsoDate | null) => {
+        for (const match of text.matchAll(pattern)) {
+            const date = toDate(match as RegExpExecArray);
+            if (!date) continue;
+            const index = match.index!;
+            // Another pattern may already have read the same characters
+            if (found.some(f => index < f.index + f.text.length && f.index < index + match[0].length)) continue;
+            found.push({ date, text: match[0], index, context: sentenceAround(text, index, index + match[0].length) });
+        }
+    };
+
+    collect(DAY_MONTH_YEAR, m => dateFromParts(Number(m[3]), monthNumber(m[2]), Number(m[1])));
+    collect(MONTH_DAY_YEAR, m => dateFromParts(Number(m[3]), monthNumber(m[1]), Number(m[2])));
+    collect(ISO, m => dateFromParts(Number(m[1]), Number(m[2]), Number(m[3])));
+    collect(NUMERIC, m => {
+        let [day, month] = dayFirst ? [Number(m[1]), Number(m[2])] : [Number(m[2]), Number(m[1])];
+        // "25/12/2021" can only be day-first, whatever the jurisdiction
+        if (month > 12 && day <= 12) [day, month] = [month, day];
+        return dateFromParts(Number(m[3]), month, day);
+    });
+
+    return found.sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,53 @@
+// Dated events in document text
+// Finds every full date in a passage and classifies the sentence it sits in:
+// a hearing, a contract date, a deadline, or just something that happened on
+// that day. The title is the sentence itself, shortened, so the lawyer can
+// recognise it; the whole sentence is kept as the source passage.
+
+import { IsoDate, extractDates } from './dates';
+
+export type ExtractedEventKind = 'HEARING' | 'DEADLINE' | 'CONTRACT' | 'EVENT';
+
+export interface ExtractedEvent {
+    date: IsoDate;
+    kind: ExtractedEventKind;
+    title: string;
+    passage: string; // The sentence the date was found in
+}
+
+// First match wins: "the agreement expires on..." is a deadline, not a contract date
+const KIND_TERMS: [ExtractedEventKind, RegExp][] = [
+    ['HEARING', /\b(hearing|heard|adjourned|adjournment|trial|mention|fixed for|listed for|return date)\b/i],
+    ['DEADLINE', /\b(deadline|no later than|not later than|on or before|due (date|on|by)|expir(es|y|ing)|within \d+ days|must be (filed|served|paid|delivered)|latest by)\b/i],
+    ['CONTRACT', /\b(agreement|contract|lease|deed|memorandum of understanding|executed|signed|effective date|commencement date|entered into)\b/i]
+];
+
+const MAX_TITLE = 80;
+
+function kindOf(passage: string): ExtractedEventKind {
+    return KIND_TERMS.find(([, pattern]) => pattern.test(passage))?.[0] || 'EVENT';
+}
+
+// The sentence, without a leading "On 4 June 2022," and cut at a word boundary
+function titleFrom(passage: string, dateText: string): string {
+    const start = passage.match(/^(on|dated|by)?\s*/i)![0];
+    const title = passage.startsWith(start + dateText)
+        ? passage.slice(start.length + dateText.length).replace(/^[\s,:-]+/, '')
+        : passage;
+    if (!title) return passage;
+    if (title.length <= MAX_TITLE) return title.charAt(0).toUpperCase() + title.slice(1);
+    const cut = title.substring(0, MAX_TITLE);
+    const end = cut.lastIndexOf(' ') > MAX_TITLE / 2 ? cut.lastIndexOf(' ') : MAX_TITLE;
+    return `${cut.charAt(0).toUpperCase()}${cut.substring(1, end)}…`;
+}
+
+// Every dated event in the text, in the order written. A date repeated in
+// the same sentence is only listed once.
+export function extractEvents(text: string, options: { dayFirst?: boolean } = {}): ExtractedEvent[] {
+    const events: ExtractedEvent[] = [];
+    for (const found of extractDates(text, options)) {
+        if (events.some(e => e.date === found.date && e.passage === found.context)) continue;
+        events.push({ date: found.date, kind: kindOf(found.context), title: titleFrom(found.context, found.text), passage: found.context });
+    }
+    return events;
+}
@@ -0,0 +1,71 @@
+// Public holidays
+// How each calendar moves a fixed-date holiday that falls at the weekend, and
+// the working-day arithmetic that deadlines are counted with.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { addWorkingDays, closureReason, holidayName, nextWorkingDay, publicHolidays } from './holidays';
+
+describe('US federal holidays (nearest weekday)', () => {
+    it('observes a Saturday holiday on the Friday before', () => {
+        assert.equal(holidayName('2020-07-03', 'US-FED'), 'Independence Day (observed)');
+    });
+
+    it('observes a Sunday holiday on the Monday after', () => {
+        assert.equal(holidayName('2022-12-26', 'US-FED'), 'Christmas Day (observed)');
+    });
+
+    it('observes a Saturday New Year\'s Day on 31 December of the year before', () => {
+        assert.equal(holidayName('2021-12-31', 'US-STATE'), "New Year's Day (observed)");
+        assert.ok(publicHolidays(2021, 'US-FED').some(h => h.date === '2021-12-31'));
+        assert.ok(!publicHolidays(2022, 'US-FED').some(h => h.date === '2021-12-31'));
+        assert.equal(nextWorkingDay('2021-12-31', 'US-FED'), '2022-01-03');
+    });
+});
+
+describe('England & Wales and Nigeria (next weekday)', () => {
+    it('moves Christmas and Boxing Day at a weekend to Monday and Tuesday', () => {
+        for (const jurisdiction of ['EW', 'NG-FED'] as const) {
+            assert.equal(holidayName('2021-12-27', jurisdiction), 'Christmas Day (substitute day)');
+            assert.equal(holidayName('2021-12-28', jurisdiction), 'Boxing Day (substitute day)');
+            assert.equal(nextWorkingDay('2021-12-25', jurisdiction), '2021-12-29');
+        }
+    });
+
+    it('skips a holiday already on the Monday', () => {
+        assert.equal(holidayName('2022-12-26', 'EW'), 'Boxing Day');
+        assert.equal(holidayName('2022-12-27', 'EW'), 'Christmas Day (substitute day)');
+    });
+
+    it('moves a Saturday holiday to the Monday', () => {
+        assert.equal(holidayName('2021-06-14', 'NG-STATE'), 'Democracy Day (substitute day)');
+    });
+});
+
+describe('Kenya (Sunday only)', () => {
+    it('leaves a Saturday holiday where it is', () => {
+        assert.equal(holidayName('2021-12-25', 'KE'), 'Christmas Day');
+        assert.equal(holidayName('2021-12-28', 'KE'), null);
+    });
+
+    it('moves a Sunday holiday to the next free weekday', () => {
+        assert.equal(holidayName('2021-12-27', 'KE'), 'Boxing Day (substitute day)');
+        assert.equal(holidayName('2022-12-26', 'KE'), 'Boxing Day');
+        assert.equal(holidayName('2022-12-27', 'KE'), 'Christmas Day (substitute day)');
+    });
+});
+
+describe('working days', () => {
+    it('gives the weekend or holiday a court is closed for', () => {
+        assert.equal(closureReason('2026-05-02', 'ZA'), 'Saturday');
+        assert.equal(closureReason('2026-05-03', 'ZA'), 'Sunday');
+        assert.equal(closureReason('2026-04-27', 'ZA'), 'Freedom Day');
+        assert.equal(closureReason('2026-04-28', 'ZA'), null);
+    });
+
+    it('counts court days past weekends and holidays', () => {
+        // Freedom Day (Mon 27 April) and Workers' Day (Fri 1 May) fall in the count
+        assert.equal(addWorkingDays('2026-04-24', 10, 'ZA'), '2026-05-12');
+        assert.equal(addWorkingDays('2026-04-24', 0, 'ZA'), '2026-04-24');
+    });
+});
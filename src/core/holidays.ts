@@ -0,0 +1,264 @@
+// Public holidays
+// Court registries are closed at weekends and on public holidays, and a
+// deadline that lands on one moves to the next working day. Fixed-date,
+// Easter-based and "nth Monday" holidays are computed per jurisdiction
+// profile. Holidays declared each year - Eid in Nigeria and Kenya, one-off
+// days - come from PUBLIC_HOLIDAYS, e.g. '{"NG-FED":["2026-03-20"]}'.
+
+import { JurisdictionId } from './jurisdictions';
+import { IsoDate, addDays, dateFromParts, dayOfWeek } from './dates';
+
+type HolidayRule =
+    | { name: string; month: number; day: number }                  // Fixed date
+    | { name: string; easter: number }                              // Days after Easter Sunday
+    | { name: string; month: number; weekday: number; nth: number }; // nth weekday of the month, -1 = last
+
+// What happens to a fixed-date holiday that falls at the weekend:
+// nextWeekday - Saturday and Sunday both move to the next free weekday
+// sunday      - only Sunday moves, to the next free weekday
+// nearest     - Saturday to Friday, Sunday to Monday (US federal)
+type WeekendRule = 'nextWeekday' | 'sunday' | 'nearest';
+
+interface HolidayCalendar {
+    weekend: WeekendRule;
+    rules: HolidayRule[];
+}
+
+const NIGERIA: HolidayCalendar = {
+    weekend: 'nextWeekday',
+    rules: [
+        { name: "New Year's Day", month: 1, day: 1 },
+        { name: 'Good Friday', easter: -2 },
+        { name: 'Easter Monday', easter: 1 },
+        { name: "Workers' Day", month: 5, day: 1 },
+        { name: 'Democracy Day', month: 6, day: 12 },
+        { name: 'Independence Day', month: 10, day: 1 },
+        { name: 'Christmas Day', month: 12, day: 25 },
+        { name: 'Boxing Day', month: 12, day: 26 }
+    ]
+};
+
+// Federal holidays; state courts add their own through PUBLIC_HOLIDAYS
+const UNITED_STATES: HolidayCalendar = {
+    weekend: 'nearest',
+    rules: [
+        { name: "New Year's Day", month: 1, day: 1 },
+        { name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, nth: 3 },
+        { name: "Washington's Birthday", month: 2, weekday: 1, nth: 3 },
+        { name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+        { name: 'Juneteenth', month: 6, day: 19 },
+        { name: 'Independence Day', month: 7, day: 4 },
+        { name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+        { name: 'Columbus Day', month: 10, weekday: 1, nth: 2 },
+        { name: 'Veterans Day', month: 11, day: 11 },
+        { name: 'Thanksgiving Day', month: 11, weekday: 4, nth: 4 },
+        { name: 'Christmas Day', month: 12, day: 25 }
+    ]
+};
+
+const CALENDARS: Record<JurisdictionId, HolidayCalendar> = {
+    'NG-FED': NIGERIA,
+    'NG-STATE': NIGERIA,
+    EW: {
+        weekend: 'nextWeekday',
+        rules: [
+            { name: "New Year's Day", month: 1, day: 1 },
+            { name: 'Good Friday', easter: -2 },
+            { name: 'Easter Monday', easter: 1 },
+            { name: 'Early May bank holiday', month: 5, weekday: 1, nth: 1 },
+            { name: 'Spring bank holiday', month: 5, weekday: 1, nth: -1 },
+            { name: 'Summer bank holiday', month: 8, weekday: 1, nth: -1 },
+            { name: 'Christmas Day', month: 12, day: 25 },
+            { name: 'Boxing Day', month: 12, day: 26 }
+        ]
+    },
+    'US-FED': UNITED_STATES,
+    'US-STATE': UNITED_STATES,
+    GH: {
+        weekend: 'nextWeekday',
+        rules: [
+            { name: "New Year's Day", month: 1, day: 1 },
+            { name: 'Constitution Day', month: 1, day: 7 },
+            { name: 'Independence Day', month: 3, day: 6 },
+            { name: 'Good Friday', easter: -2 },
+            { name: 'Easter Monday', easter: 1 },
+            { name: 'May Day', month: 5, day: 1 },
+            { name: "Founders' Day", month: 8, day: 4 },
+            { name: 'Kwame Nkrumah Memorial Day', month: 9, day: 21 },
+            { name: "Farmers' Day", month: 12, weekday: 5, nth: 1 },
+            { name: 'Christmas Day', month: 12, day: 25 },
+            { name: 'Boxing Day', month: 12, day: 26 }
+        ]
+    },
+    KE: {
+        weekend: 'sunday',
+        rules: [
+            { name: "New Year's Day", month: 1, day: 1 },
+            { name: 'Good Friday', easter: -2 },
+            { name: 'Easter Monday', easter: 1 },
+            { name: 'Labour Day', month: 5, day: 1 },
+            { name: 'Madaraka Day', month: 6, day: 1 },
+            { name: 'Mazingira Day', month: 10, day: 10 },
+            { name: 'Mashujaa Day', month: 10, day: 20 },
+            { name: 'Jamhuri Day', month: 12, day: 12 },
+            { name: 'Christmas Day', month: 12, day: 25 },
+            { name: 'Boxing Day', month: 12, day: 26 }
+        ]
+    },
+    ZA: {
+        weekend: 'sunday',
+        rules: [
+            { name: "New Year's Day", month: 1, day: 1 },
+            { name: 'Human Rights Day', month: 3, day: 21 },
+            { name: 'Good Friday', easter: -2 },
+            { name: 'Family Day', easter: 1 },
+            { name: 'Freedom Day', month: 4, day: 27 },
+            { name: "Workers' Day", month: 5, day: 1 },
+            { name: 'Youth Day', month: 6, day: 16 },
+            { name: "National Women's Day", month: 8, day: 9 },
+            { name: 'Heritage Day', month: 9, day: 24 },
+            { name: 'Day of Reconciliation', month: 12, day: 16 },
+            { name: 'Christmas Day', month: 12, day: 25 },
+            { name: 'Day of Goodwill', month: 12, day: 26 }
+        ]
+    }
+};
+
+// Built once per jurisdiction and year
+const cache = new Map<string, Map<IsoDate, string>>();
+
+// Easter Sunday (anonymous Gregorian algorithm)
+function easterSunday(year: number): IsoDate {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return dateFromParts(year, month, day)!;
+}
+
+function nthWeekday(year: number, month: number, weekday: number, nth: number): IsoDate {
+    if (nth > 0) {
+        const first = dateFromParts(year, month, 1)!;
+        return addDays(first, (weekday - dayOfWeek(first) + 7) % 7 + (nth - 1) * 7);
+    }
+    const last = addDays(dateFromParts(month === 12 ? year + 1 : year, month === 12 ? 1 : month + 1, 1)!, -1);
+    return addDays(last, -((dayOfWeek(last) - weekday + 7) % 7));
+}
+
+function declaredHolidays(): Record<string, string[]> {
+    if (!process.env.PUBLIC_HOLIDAYS) return {};
+    try {
+        return JSON.parse(process.env.PUBLIC_HOLIDAYS);
+    } catch (e) {
+        console.error('[Holidays] Ignoring invalid PUBLIC_HOLIDAYS:', (e as Error).message);
+        return {};
+    }
+}
+
+function isWeekend(date: IsoDate): boolean {
+    const day = dayOfWeek(date);
+    return day === 0 || day === 6;
+}
+
+function fixedHolidays(year: number, calendar: HolidayCalendar): { date: IsoDate; name: string }[] {
+    return calendar.rules
+        .flatMap(rule => 'day' in rule ? [{ date: dateFromParts(year, rule.month, rule.day)!, name: rule.name }] : [])
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function buildHolidays(year: number, jurisdiction: JurisdictionId): Map<IsoDate, string> {
+    const calendar = CALENDARS[jurisdiction];
+    const holidays = new Map<IsoDate, string>();
+    const fixed = fixedHolidays(year, calendar);
+
+    for (const rule of calendar.rules) {
+        if ('easter' in rule) {
+            holidays.set(addDays(easterSunday(year), rule.easter), rule.name);
+        } else if ('nth' in rule) {
+            holidays.set(nthWeekday(year, rule.month, rule.weekday, rule.nth), rule.name);
+        }
+    }
+    for (const { date, name } of fixed) holidays.set(date, name);
+
+    if (calendar.weekend === 'nearest') {
+        // A Saturday 1 January is observed on 31 December, so next year's New Year's Day can fall in this year
+        for (const { date, name } of [...fixed, ...fixedHolidays(year + 1, calendar)]) {
+            const day = dayOfWeek(date);
+            const observed = day === 6 ? addDays(date, -1) : day === 0 ? addDays(date, 1) : null;
+            if (observed?.startsWith(`${year}-`)) holidays.set(observed, `${name} (observed)`);
+        }
+    } else {
+        // Substitute days, earliest first so Christmas and Boxing Day at a weekend take Monday and Tuesday
+        for (const { date, name } of fixed) {
+            const day = dayOfWeek(date);
+            if (day === 0 || (day === 6 && calendar.weekend === 'nextWeekday')) {
+                let substitute = addDays(date, 1);
+                while (isWeekend(substitute) || holidays.has(substitute)) substitute = addDays(substitute, 1);
+                holidays.set(substitute, `${name} (substitute day)`);
+            }
+        }
+    }
+
+    for (const date of declaredHolidays()[jurisdiction] || []) {
+        if (date.startsWith(`${year}-`) && !holidays.has(date)) holidays.set(date, 'Declared public holiday');
+    }
+    return holidays;
+}
+
+function holidaysFor(year: number, jurisdiction: JurisdictionId): Map<IsoDate, string> {
+    const key = `${jurisdiction}:${year}`;
+    let holidays = cache.get(key);
+    if (!holidays) {
+        holidays = buildHolidays(year, jurisdiction);
+        cache.set(key, holidays);
+    }
+    return holidays;
+}
+
+// Name of the public holiday on this date, or null
+export function holidayName(date: IsoDate, jurisdiction: JurisdictionId): string | null {
+    return holidaysFor(Number(date.slice(0, 4)), jurisdiction).get(date) || null;
+}
+
+export function publicHolidays(year: number, jurisdiction: JurisdictionId): { date: IsoDate; name: string }[] {
+    return [...holidaysFor(year, jurisdiction)].map(([date, name]) => ({ date, name })).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Why the courts are closed on this date ("Saturday", "Christmas Day"), or null on a working day
+export function closureReason(date: IsoDate, jurisdiction: JurisdictionId): string | null {
+    const day = dayOfWeek(date);
+    if (day === 6) return 'Saturday';
+    if (day === 0) return 'Sunday';
+    return holidayName(date, jurisdiction);
+}
+
+export function isWorkingDay(date: IsoDate, jurisdiction: JurisdictionId): boolean {
+    return closureReason(date, jurisdiction) === null;
+}
+
+// The date itself if the courts are open, otherwise the next day they are
+export function nextWorkingDay(date: IsoDate, jurisdiction: JurisdictionId): IsoDate {
+    let day = date;
+    while (!isWorkingDay(day, jurisdiction)) day = addDays(day, 1);
+    return day;
+}
+
+// Count `days` working days after `date` (rules that run in "court days")
+export function addWorkingDays(date: IsoDate, days: number, jurisdiction: JurisdictionId): IsoDate {
+    let day = date;
+    for (let counted = 0; counted < days;) {
+        day = addDays(day, 1);
+        if (isWorkingDay(day, jurisdiction)) counted++;
+    }
+    return day;
+}
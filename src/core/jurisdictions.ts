@@ -0,0 +1,296 @@
+// Jurisdiction profiles
+// What the AI needs to know about a forum: the governing law, the court
+// hierarchy, the common limitation periods and how cases are cited there.
+// The intake wizard's free-text jurisdiction and court answers are matched to
+// a profile; cases from anywhere else are analysed without one.
+// Limitation periods are the general defaults - special regimes and
+// extensions (disability, fraud, acknowledgment) still have to be checked.
+
+export type JurisdictionId = 'NG-FED' | 'NG-STATE' | 'EW' | 'US-FED' | 'US-STATE' | 'GH' | 'KE' | 'ZA';
+
+export type ClaimType = 'contract' | 'tort' | 'personalInjury' | 'defamation' | 'land' | 'judgment' | 'employment' | 'publicAuthority';
+
+export interface Duration {
+    years?: number;
+    months?: number;
+    days?: number;
+}
+
+export interface LimitationPeriod {
+    claim: ClaimType;
+    period: Duration;
+    authority: string;
+    note?: string;
+}
+
+export interface JurisdictionProfile {
+    id: JurisdictionId;
+    name: string;
+    governingLaw: string[];
+    courts: string[]; // Highest first
+    limitation: LimitationPeriod[];
+    citationStyle: string;
+}
+
+// The details the intake wizard collects about the forum
+export interface CaseForum {
+    jurisdiction?: string | null;
+    court?: string | null;
+    parties?: string | null;
+}
+
+export const CLAIM_LABELS: Record<ClaimType, string> = {
+    contract: 'Contract',
+    tort: 'Tort / delict',
+    personalInjury: 'Personal injury',
+    defamation: 'Defamation',
+    land: 'Recovery of land',
+    judgment: 'Enforcing a judgment',
+    employment: 'Employment',
+    publicAuthority: 'Claims against public officers / the state'
+};
+
+export const JURISDICTION_PROFILES: Record<JurisdictionId, JurisdictionProfile> = {
+    'NG-FED': {
+        id: 'NG-FED',
+        name: 'Nigeria (Federal courts / FCT)',
+        governingLaw: [
+            'Constitution of the Federal Republic of Nigeria 1999 (as amended)',
+            'Acts of the National Assembly; received English law (statutes of general application in force on 1 January 1900)',
+            'Federal High Court (Civil Procedure) Rules 2019; High Court of the FCT (Civil Procedure) Rules 2018'
+        ],
+        courts: ['Supreme Court', 'Court of Appeal', 'Federal High Court / National Industrial Court / High Court of the FCT', 'Magistrates\' and Area Courts (FCT)'],
+        limitation: [
+            { claim: 'contract', period: { years: 6 }, authority: 'Limitation Act (FCT)' },
+            { claim: 'tort', period: { years: 6 }, authority: 'Limitation Act (FCT)' },
+            { claim: 'land', period: { years: 10 }, authority: 'Limitation Act (FCT)' },
+            { claim: 'publicAuthority', period: { months: 3 }, authority: 'Public Officers Protection Act, s. 2(a)', note: 'Runs from the act complained of or the end of continuing damage' }
+        ],
+        citationStyle: 'Nigerian Weekly Law Reports, e.g. "Ogbu v. State (2019) 10 NWLR (Pt. 1680) 1"; LawPavilion, e.g. "(2019) LPELR-47401(SC)"'
+    },
+    'NG-STATE': {
+        id: 'NG-STATE',
+        name: 'Nigeria (State courts)',
+        governingLaw: [
+            'Constitution of the Federal Republic of Nigeria 1999 (as amended)',
+            'Laws of the State (e.g. Limitation Law of Lagos State 2015), common law and equity',
+            'Customary law and, in the northern states, Islamic law where applicable',
+            'High Court (Civil Procedure) Rules of the State'
+        ],
+        courts: ['Supreme Court', 'Court of Appeal', 'State High Court / Customary Court of Appeal / Sharia Court of Appeal', 'Magistrates\', District, Customary and Area Courts'],
+        limitation: [
+            { claim: 'contract', period: { years: 6 }, authority: 'State Limitation Law (Lagos model)' },
+            { claim: 'tort', period: { years: 6 }, authority: 'State Limitation Law (Lagos model)' },
+            { claim: 'personalInjury', period: { years: 3 }, authority: 'State Limitation Law (Lagos model)' },
+            { claim: 'land', period: { years: 12 }, authority: 'State Limitation Law (Lagos model)' },
+            { claim: 'judgment', period: { years: 12 }, authority: 'State Limitation Law (Lagos model)' },
+            { claim: 'publicAuthority', period: { months: 3 }, authority: 'Public Officers Protection Law of the State' }
+        ],
+        citationStyle: 'Nigerian Weekly Law Reports, e.g. "(2019) 10 NWLR (Pt. 1680) 1"; LawPavilion, e.g. "(2019) LPELR-47401(CA)"'
+    },
+    'EW': {
+        id: 'EW',
+        name: 'England & Wales',
+        governingLaw: [
+            'Acts of Parliament and statutory instruments; assimilated (retained EU) law',
+            'Common law and equity, bound by precedent',
+            'Civil Procedure Rules 1998 and Practice Directions'
+        ],
+        courts: ['UK Supreme Court', 'Court of Appeal', 'High Court (King\'s Bench, Chancery and Family Divisions)', 'County Court / Crown Court', 'Magistrates\' Court; Employment Tribunal and EAT'],
+        limitation: [
+            { claim: 'contract', period: { years: 6 }, authority: 'Limitation Act 1980, s. 5', note: '12 years for contracts made by deed (s. 8)' },
+            { claim: 'tort', period: { years: 6 }, authority: 'Limitation Act 1980, s. 2' },
+            { claim: 'personalInjury', period: { years: 3 }, authority: 'Limitation Act 1980, s. 11', note: 'Or 3 years from date of knowledge (s. 14); court may disapply (s. 33)' },
+            { claim: 'defamation', period: { years: 1 }, authority: 'Limitation Act 1980, s. 4A' },
+            { claim: 'land', period: { years: 12 }, authority: 'Limitation Act 1980, s. 15' },
+            { claim: 'judgment', period: { years: 6 }, authority: 'Limitation Act 1980, s. 24' },
+            { claim: 'employment', period: { months: 3, days: -1 }, authority: 'Employment Rights Act 1996, s. 111', note: 'Unfair dismissal; ACAS early conciliation extends it' }
+        ],
+        citationStyle: 'OSCOLA with neutral citations, e.g. "Donoghue v Stevenson [1932] AC 562 (HL)", "R (Miller) v Prime Minister [2019] UKSC 41"'
+    },
+    'US-FED': {
+        id: 'US-FED',
+        name: 'United States (Federal courts)',
+        governingLaw: [
+            'US Constitution and federal statutes (United States Code)',
+            'Federal Rules of Civil Procedure and Federal Rules of Evidence',
+            'State substantive law in diversity cases (Erie doctrine)'
+        ],
+        courts: ['US Supreme Court', 'US Courts of Appeals (13 circuits)', 'US District Courts', 'Bankruptcy Courts and Magistrate Judges'],
+        limitation: [
+            { claim: 'contract', period: { years: 4 }, authority: '28 U.S.C. § 1658(a)', note: 'Catch-all for federal statutes enacted after 1990; diversity claims use the forum state\'s period' },
+            { claim: 'tort', period: { years: 2 }, authority: '28 U.S.C. § 2401(b)', note: 'Federal Tort Claims Act administrative claim' },
+            { claim: 'personalInjury', period: { years: 2 }, authority: '28 U.S.C. § 2401(b)', note: '§ 1983 claims borrow the forum state\'s personal injury period' },
+            { claim: 'employment', period: { days: 180 }, authority: '42 U.S.C. § 2000e-5(e)(1)', note: 'Title VII EEOC charge; 300 days in deferral states' },
+            { claim: 'publicAuthority', period: { years: 6 }, authority: '28 U.S.C. § 2401(a)', note: 'Civil actions against the United States' }
+        ],
+        citationStyle: 'Bluebook, e.g. "Brown v. Bd. of Educ., 347 U.S. 483 (1954)", "Smith v. Jones, 123 F.3d 456 (2d Cir. 1997)"'
+    },
+    'US-STATE': {
+        id: 'US-STATE',
+        name: 'United States (State courts)',
+        governingLaw: [
+            'State constitution and statutes, and common law as developed by the state courts',
+            'State rules of civil procedure (periods below follow New York CPLR - they differ between states)'
+        ],
+        courts: ['State court of last resort', 'Intermediate appellate court', 'Trial courts of general jurisdiction', 'Courts of limited jurisdiction (small claims, municipal, family)'],
+        limitation: [
+            { claim: 'contract', period: { years: 6 }, authority: 'N.Y. C.P.L.R. 213(2)' },
+            { claim: 'tort', period: { years: 3 }, authority: 'N.Y. C.P.L.R. 214(4)' },
+            { claim: 'personalInjury', period: { years: 3 }, authority: 'N.Y. C.P.L.R. 214(5)' },
+            { claim: 'defamation', period: { years: 1 }, authority: 'N.Y. C.P.L.R. 215(3)' },
+            { claim: 'land', period: { years: 10 }, authority: 'N.Y. R.P.A.P.L. 501' },
+            { claim: 'judgment', period: { years: 20 }, authority: 'N.Y. C.P.L.R. 211(b)' }
+        ],
+        citationStyle: 'Bluebook with the state reporter, e.g. "Palsgraf v. Long Island R.R. Co., 248 N.Y. 339 (1928)"'
+    },
+    'GH': {
+        id: 'GH',
+        name: 'Ghana',
+        governingLaw: [
+            'Constitution of the Republic of Ghana 1992 (art. 11 sources of law)',
+            'Acts of Parliament, common law and equity, and customary law',
+            'High Court (Civil Procedure) Rules 2004 (C.I. 47)'
+        ],
+        courts: ['Supreme Court', 'Court of Appeal', 'High Court / Regional Tribunals', 'Circuit Court', 'District Court'],
+        limitation: [
+            { claim: 'contract', period: { years: 6 }, authority: 'Limitation Act 1972 (NRCD 54), s. 4' },
+            { claim: 'tort', period: { years: 6 }, authority: 'Limitation Act 1972 (NRCD 54), s. 4' },
+            { claim: 'personalInjury', period: { years: 3 }, authority: 'Limitation Act 1972 (NRCD 54), s. 4' },
+            { claim: 'land', period: { years: 12 }, authority: 'Limitation Act 1972 (NRCD 54), s. 10' },
+            { claim: 'judgment', period: { years: 12 }, authority: 'Limitation Act 1972 (NRCD 54), s. 5' }
+        ],
+        citationStyle: 'Ghana Law Reports and Supreme Court of Ghana Law Reports, e.g. "[2010] SCGLR 1", "[1992] 1 GLR 1"'
+    },
+    'KE': {
+        id: 'KE',
+        name: 'Kenya',
+        governingLaw: [
+            'Constitution of Kenya 2010',
+            'Acts of Parliament; common law, equity and statutes of general application (Judicature Act, s. 3); African customary law',
+            'Civil Procedure Act (Cap. 21) and Civil Procedure Rules 2010'
+        ],
+        courts: ['Supreme Court', 'Court of Appeal', 'High Court / Employment and Labour Relations Court / Environment and Land Court', 'Magistrates\' Courts, Kadhis\' Courts and tribunals'],
+        limitation: [
+            { claim: 'contract', period: { years: 6 }, authority: 'Limitation of Actions Act (Cap. 22), s. 4(1)(a)' },
+            { claim: 'tort', period: { years: 3 }, authority: 'Limitation of Actions Act (Cap. 22), s. 4(2)' },
+            { claim: 'personalInjury', period: { years: 3 }, authority: 'Limitation of Actions Act (Cap. 22), s. 4(2)' },
+            { claim: 'defamation', period: { months: 12 }, authority: 'Limitation of Actions Act (Cap. 22), s. 4(2) proviso' },
+            { claim: 'land', period: { years: 12 }, authority: 'Limitation of Actions Act (Cap. 22), s. 7' },
+            { claim: 'judgment', period: { years: 12 }, authority: 'Limitation of Actions Act (Cap. 22), s. 4(4)' },
+            { claim: 'employment', period: { years: 3 }, authority: 'Employment Act 2007, s. 90' },
+            { claim: 'publicAuthority', period: { months: 12 }, authority: 'Public Authorities Limitation Act (Cap. 39), s. 3', note: 'Tort claims against the Government; 3 years for contract' }
+        ],
+        citationStyle: 'Kenya Law Reports and neutral citations, e.g. "[2019] eKLR", "[2023] KESC 1 (KLR)"'
+    },
+    'ZA': {
+        id: 'ZA',
+        name: 'South Africa',
+        governingLaw: [
+            'Constitution of the Republic of South Africa 1996',
+            'Legislation; Roman-Dutch common law as developed by the courts; customary law',
+            'Uniform Rules of Court and Magistrates\' Courts Rules'
+        ],
+        courts: ['Constitutional Court', 'Supreme Court of Appeal', 'High Court divisions / Labour Appeal Court / Labour Court', 'Regional and District Magistrates\' Courts'],
+        limitation: [
+            { claim: 'contract', period: { years: 3 }, authority: 'Prescription Act 68 of 1969, s. 11(d)', note: 'Prescription of the debt, not a bar to the action' },
+            { claim: 'tort', period: { years: 3 }, authority: 'Prescription Act 68 of 1969, s. 11(d)', note: 'Delictual claims' },
+            { claim: 'personalInjury', period: { years: 3 }, authority: 'Prescription Act 68 of 1969, s. 11(d)', note: 'Road Accident Fund claims: Road Accident Fund Act 56 of 1996, s. 23' },
+            { claim: 'judgment', period: { years: 30 }, authority: 'Prescription Act 68 of 1969, s. 11(a)(ii)' },
+            { claim: 'publicAuthority', period: { months: 6 }, authority: 'Institution of Legal Proceedings against certain Organs of State Act 40 of 2002, s. 3', note: 'Written notice to the organ of state' }
+        ],
+        citationStyle: 'South African Law Reports and neutral citations, e.g. "2006 (3) SA 247 (CC)", "[2019] ZACC 1"'
+    }
+};
+
+const NIGERIAN_STATES = [
+    'abia', 'adamawa', 'akwa ibom', 'anambra', 'bauchi', 'bayelsa', 'benue', 'borno', 'cross river', 'delta', 'ebonyi',
+    'edo', 'ekiti', 'enugu', 'gombe', 'imo', 'jigawa', 'kaduna', 'kano', 'katsina', 'kebbi', 'kogi', 'kwara', 'lagos',
+    'nasarawa', 'niger state', 'ogun', 'ondo', 'osun', 'oyo', 'plateau', 'rivers', 'sokoto', 'taraba', 'yobe', 'zamfara',
+    'ikeja', 'port harcourt', 'ibadan'
+];
+
+const US_STATES = [
+    'alabama', 'alaska', 'arizona', 'arkansas', 'california', 'colorado', 'connecticut', 'delaware', 'florida', 'georgia',
+    'hawaii', 'idaho', 'illinois', 'indiana', 'iowa', 'kansas', 'kentucky', 'louisiana', 'maine', 'maryland', 'massachusetts',
+    'michigan', 'minnesota', 'mississippi', 'missouri', 'montana', 'nebraska', 'nevada', 'new hampshire', 'new jersey',
+    'new mexico', 'new york', 'north carolina', 'north dakota', 'ohio', 'oklahoma', 'oregon', 'pennsylvania', 'rhode island',
+    'south carolina', 'south dakota', 'tennessee', 'texas', 'utah', 'vermont', 'virginia', 'washington', 'west virginia',
+    'wisconsin', 'wyoming'
+];
+
+// Postal codes, as the wizard suggests ("NY, CA, Federal"). Only matched in
+// capitals so words like "in" or "or" don't count.
+const US_STATE_CODES = [
+    'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD',
+    'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD',
+    'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'
+];
+
+export function isJurisdictionId(value: string): value is JurisdictionId {
+    return value in JURISDICTION_PROFILES;
+}
+
+export function isClaimType(value: string): value is ClaimType {
+    return value in CLAIM_LABELS;
+}
+
+function mentions(text: string, terms: string[]): boolean {
+    return terms.some(term => new RegExp(`\\b${term}\\b`).test(text));
+}
+
+// Match the wizard's answers to a profile; null when the forum isn't covered.
+// The court decides between federal and state courts in Nigeria and the US.
+export function resolveJurisdiction(forum: CaseForum): JurisdictionProfile | null {
+    // "U.S." and "U.S.A." match as "us" / "usa"
+    const raw = `${forum.jurisdiction || ''} ${forum.court || ''}`.replace(/\./g, '');
+    const text = raw.toLowerCase();
+    const usStateCode = mentions(raw, US_STATE_CODES);
+
+    if (mentions(text, ['nigeria', 'nigerian', 'fct', 'abuja', ...NIGERIAN_STATES])) {
+        const federal = /\bfederal\b|\bfct\b|\babuja\b|\bnational industrial\b/.test(text);
+        const state = mentions(text, NIGERIAN_STATES) || /\bstate\b/.test(text);
+        return JURISDICTION_PROFILES[federal || !state ? 'NG-FED' : 'NG-STATE'];
+    }
+    if (mentions(text, ['ghana', 'accra', 'kumasi'])) return JURISDICTION_PROFILES.GH;
+    if (mentions(text, ['kenya', 'nairobi', 'mombasa', 'kisumu'])) return JURISDICTION_PROFILES.KE;
+    if (mentions(text, ['south africa', 'gauteng', 'johannesburg', 'pretoria', 'cape town', 'durban', 'rsa'])) return JURISDICTION_PROFILES.ZA;
+    if (mentions(text, ['england', 'wales', 'uk', 'united kingdom', 'london', 'e&w', 'king\'s bench', 'county court'])) return JURISDICTION_PROFILES.EW;
+    if (usStateCode || mentions(text, ['us', 'usa', 'united states', 'america', ...US_STATES])) {
+        // Several states also call their trial courts "District" or "Circuit" courts
+        const federal = /\bfederal\b|\b(us|united states) (district|court of appeals|bankruptcy)\b|\bdistrict of\b|\b\d+(st|nd|rd|th) circuit\b/.test(text);
+        const state = usStateCode || mentions(text, US_STATES) || /\bstate\b/.test(text);
+        return JURISDICTION_PROFILES[federal || !state ? 'US-FED' : 'US-STATE'];
+    }
+    return null;
+}
+
+export function formatDuration(duration: Duration): string {
+    const parts: string[] = [];
+    if (duration.years) parts.push(`${duration.years} year${duration.years === 1 ? '' : 's'}`);
+    if (duration.months) parts.push(`${duration.months} month${duration.months === 1 ? '' : 's'}`);
+    if (duration.days && duration.days > 0) parts.push(`${duration.days} day${duration.days === 1 ? '' : 's'}`);
+    // Negative days shorten the period, e.g. "3 months less 1 day"
+    if (duration.days && duration.days < 0) parts.push(`less ${-duration.days} day${duration.days === -1 ? '' : 's'}`);
+    return parts.join(' ') || 'none';
+}
+
+// Block for the prompts: the forum details and, when matched, its profile.
+// Empty when nothing is known about the forum.
+export function forumBrief(forum: CaseForum): string {
+    const lines: string[] = [];
+    if (forum.jurisdiction) lines.push(`Jurisdiction: ${forum.jurisdiction}`);
+    if (forum.court) lines.push(`Court: ${forum.court}`);
+    if (forum.parties) lines.push(`Parties: ${forum.parties}`);
+
+    const profile = resolveJurisdiction(forum);
+    if (profile) {
+        lines.push(`Legal system: ${profile.name}`);
+        lines.push(`Governing law:\n${profile.governingLaw.map(l => `- ${l}`).join('\n')}`);
+        lines.push(`Court hierarchy (highest first): ${profile.courts.join(' > ')}`);
+        lines.push(`Limitation periods (general defaults):\n${profile.limitation.map(l =>
+            `- ${CLAIM_LABELS[l.claim]}: ${formatDuration(l.period)} (${l.authority})${l.note ? ` - ${l.note}` : ''}`).join('\n')}`);
+        lines.push(`Citation style: ${profile.citationStyle}`);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,83 @@
+// Limitation and deadline engine
+// Which date in the facts starts each period, which filing windows apply to
+// the claim, and how the last day is moved off weekends and holidays.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JURISDICTION_PROFILES } from './jurisdictions';
+import { DeadlineReport, computeDeadlines } from './limitation';
+
+const NOW = new Date('2026-05-01T12:00:00Z');
+
+const FACTS = [
+    'The contract was signed on 3 March 2020.',
+    'The goods were delivered late on 10 June 2020.',
+    'The claim form was served on 2 February 2026.',
+    'The court delivered judgment on 1 April 2026 and the ruling was read again on 15 April 2026.',
+    'Judgment in the related appeal is expected on 1 December 2026.'
+].join(' ');
+
+function deadline(report: DeadlineReport, id: string) {
+    const found = report.deadlines.find(d => d.id === id);
+    assert.ok(found, `no ${id} deadline`);
+    return found;
+}
+
+describe('computeDeadlines', () => {
+    it('runs the limitation period from the earliest past date', () => {
+        const report = computeDeadlines(FACTS, JURISDICTION_PROFILES.EW, { now: NOW });
+        assert.equal(report.claim, 'contract');
+        assert.equal(report.accrual, '2020-03-03');
+        const limitation = deadline(report, 'limitation');
+        assert.equal(limitation.fromText, 'The contract was signed on 3 March 2020.');
+        assert.equal(limitation.due, '2026-03-03');
+    });
+
+    it('starts service windows from the sentence about service', () => {
+        const report = computeDeadlines(FACTS, JURISDICTION_PROFILES.EW, { now: NOW });
+        assert.equal(deadline(report, 'acknowledgment').from, '2026-02-02');
+        assert.equal(deadline(report, 'acknowledgment').due, '2026-02-16');
+        assert.equal(deadline(report, 'defence').due, '2026-03-02');
+    });
+
+    it('starts appeal windows from the latest past date in a sentence about a judgment', () => {
+        const appeal = deadline(computeDeadlines(FACTS, JURISDICTION_PROFILES.EW, { now: NOW }), 'appeal');
+        assert.equal(appeal.from, '2026-04-15');
+        assert.equal(appeal.due, '2026-05-06');
+    });
+
+    it('leaves out windows whose trigger is not in the facts', () => {
+        const report = computeDeadlines('The contract was signed on 3 March 2020.', JURISDICTION_PROFILES.EW, { now: NOW });
+        assert.deepEqual(report.deadlines.map(d => d.id), ['limitation']);
+    });
+
+    it('takes the accrual date and claim given instead of the inferred ones', () => {
+        const report = computeDeadlines(FACTS, JURISDICTION_PROFILES.EW, { now: NOW, accrual: '2021-06-01', claim: 'defamation' });
+        const limitation = deadline(report, 'limitation');
+        assert.equal(report.claim, 'defamation');
+        assert.equal(limitation.from, '2021-06-01');
+        assert.equal(limitation.fromText, 'Accrual date you set');
+        assert.equal(limitation.due, '2022-06-01');
+    });
+
+    it('applies windows limited to some claims only to those claims', () => {
+        const police = 'Police officers assaulted me on 2 January 2026.';
+        assert.ok(computeDeadlines(police, JURISDICTION_PROFILES['NG-FED'], { now: NOW }).deadlines.some(d => d.id === 'pre-action-notice'));
+        assert.ok(!computeDeadlines(FACTS, JURISDICTION_PROFILES['NG-FED'], { now: NOW }).deadlines.some(d => d.id === 'pre-action-notice'));
+    });
+
+    it('moves a limitation date forward and a notice date back off a weekend', () => {
+        const report = computeDeadlines('Police officers assaulted me on 2 January 2026.', JURISDICTION_PROFILES.KE, { now: NOW });
+        assert.equal(report.claim, 'publicAuthority');
+        const limitation = deadline(report, 'limitation');
+        assert.deepEqual([limitation.movedFrom, limitation.due, limitation.movedReason], ['2027-01-02', '2027-01-04', 'Saturday']);
+        const notice = deadline(report, 'notice-to-ag');
+        assert.equal(notice.from, '2027-01-04');
+        assert.deepEqual([notice.movedFrom, notice.due, notice.movedReason], ['2026-12-05', '2026-12-04', 'Saturday']);
+    });
+
+    it('lists the deadlines soonest first', () => {
+        const dues = computeDeadlines(FACTS, JURISDICTION_PROFILES.EW, { now: NOW }).deadlines.map(d => d.due);
+        assert.deepEqual(dues, [...dues].sort());
+    });
+});
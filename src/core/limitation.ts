@@ -0,0 +1,222 @@
+// Limitation and deadline engine
+// Works out when a claim becomes time-barred and when court filing windows
+// close. Limitation periods come from the jurisdiction profiles; the filing
+// windows (appeals, responding to a claim, pre-action notices) are below.
+// The dates are read from the facts: the earliest past date is taken as when
+// the cause of action accrued, and a date in a sentence about a judgment or
+// about service starts the windows that run from it. A deadline that falls
+// on a weekend or public holiday moves to the next working day.
+// Like the profiles, these are the general rules - extensions, disability and
+// special regimes still need a lawyer's check.
+
+import { CLAIM_LABELS, ClaimType, Duration, JurisdictionId, JurisdictionProfile, LimitationPeriod } from './jurisdictions';
+import { FoundDate, IsoDate, addDays, addMonths, daysBetween, extractDates, toIsoDate } from './dates';
+import { addWorkingDays, closureReason, nextWorkingDay } from './holidays';
+
+// What starts a filing window running:
+// accrual          - the cause of action, like the limitation period
+// decision         - the judgment or ruling
+// service          - service of the claim on the defendant
+// beforeLimitation - the notice has to be given this long before suing, so
+//                    the window closes that long before the limitation date
+export type WindowTrigger = 'accrual' | 'decision' | 'service' | 'beforeLimitation';
+
+export interface FilingWindow {
+    id: string;
+    label: string;
+    trigger: WindowTrigger;
+    period: Duration;
+    workingDays?: boolean; // `period.days` counts court days, not calendar days
+    claims?: ClaimType[];  // Only for these claims; all claims when absent
+    authority: string;
+    note?: string;
+}
+
+export interface Deadline {
+    kind: 'limitation' | 'filing';
+    id: string;            // "limitation" or the filing window's id
+    label: string;
+    authority: string;
+    note?: string;
+    from: IsoDate;         // When the period started running
+    fromText: string;      // What that date is, e.g. the sentence in the facts
+    due: IsoDate;          // Last day, after moving off weekends and holidays
+    movedFrom?: IsoDate;   // The unadjusted last day, when it was moved
+    movedReason?: string;  // "Sunday", "Christmas Day"
+}
+
+export interface DeadlineOptions {
+    claim?: ClaimType;     // Inferred from the facts when not given
+    accrual?: IsoDate;     // Earliest past date in the facts when not given
+    category?: string | null; // Practice area from the analysis, helps infer the claim
+    now?: Date;
+}
+
+export interface DeadlineReport {
+    jurisdiction: JurisdictionId;
+    claim: ClaimType;
+    accrual: IsoDate | null;
+    deadlines: Deadline[]; // Soonest first
+}
+
+const NIGERIAN_APPEALS: FilingWindow[] = [
+    { id: 'appeal-final', label: 'Appeal to the Court of Appeal (final decision)', trigger: 'decision', period: { months: 3 }, authority: 'Court of Appeal Act 2004, s. 24(2)(a)' },
+    { id: 'appeal-interlocutory', label: 'Appeal to the Court of Appeal (interlocutory decision)', trigger: 'decision', period: { days: 14 }, authority: 'Court of Appeal Act 2004, s. 24(2)(a)' }
+];
+
+export const FILING_WINDOWS: Record<JurisdictionId, FilingWindow[]> = {
+    'NG-FED': [
+        ...NIGERIAN_APPEALS,
+        { id: 'pre-action-notice', label: 'Pre-action notice to the public body', trigger: 'beforeLimitation', period: { months: 1 }, claims: ['publicAuthority'], authority: 'Statute of the body concerned, e.g. NNPC Act, s. 12(2)', note: 'Check the notice period in the body\'s own statute' }
+    ],
+    'NG-STATE': [
+        ...NIGERIAN_APPEALS,
+        { id: 'pre-action-notice', label: 'Pre-action notice to the public body', trigger: 'beforeLimitation', period: { months: 1 }, claims: ['publicAuthority'], authority: 'Statute of the body concerned', note: 'Check the notice period in the body\'s own law' }
+    ],
+    EW: [
+        { id: 'acknowledgment', label: 'Acknowledgment of service', trigger: 'service', period: { days: 14 }, authority: 'CPR 10.3(1)', note: 'From service of the particulars of claim' },
+        { id: 'defence', label: 'Defence', trigger: 'service', period: { days: 28 }, authority: 'CPR 15.4(1)', note: '14 days if no acknowledgment of service is filed' },
+        { id: 'appeal', label: "Appellant's notice", trigger: 'decision', period: { days: 21 }, authority: 'CPR 52.12(2)(b)', note: 'Unless the lower court directs a different period' }
+    ],
+    'US-FED': [
+        { id: 'answer', label: 'Answer to the complaint', trigger: 'service', period: { days: 21 }, authority: 'FRCP 12(a)(1)(A)(i)', note: '60 days if service was waived' },
+        { id: 'appeal', label: 'Notice of appeal', trigger: 'decision', period: { days: 30 }, authority: 'FRAP 4(a)(1)(A)', note: '60 days if the United States is a party' }
+    ],
+    'US-STATE': [
+        { id: 'notice-of-claim', label: 'Notice of claim against a municipality', trigger: 'accrual', period: { days: 90 }, claims: ['publicAuthority'], authority: 'N.Y. Gen. Mun. Law § 50-e' },
+        { id: 'answer', label: 'Answer', trigger: 'service', period: { days: 20 }, authority: 'N.Y. C.P.L.R. 320(a)', note: '30 days if not served personally' },
+        { id: 'appeal', label: 'Notice of appeal', trigger: 'decision', period: { days: 30 }, authority: 'N.Y. C.P.L.R. 5513(a)', note: 'Runs from service of the judgment with notice of entry' }
+    ],
+    GH: [
+        { id: 'appearance', label: 'Entry of appearance', trigger: 'service', period: { days: 8 }, authority: 'High Court (Civil Procedure) Rules 2004 (C.I. 47), Order 9' },
+        { id: 'appeal-final', label: 'Appeal to the Court of Appeal (final decision)', trigger: 'decision', period: { months: 3 }, authority: 'Court of Appeal Rules 1997 (C.I. 19), r. 9' },
+        { id: 'appeal-interlocutory', label: 'Appeal to the Court of Appeal (interlocutory decision)', trigger: 'decision', period: { days: 21 }, authority: 'Court of Appeal Rules 1997 (C.I. 19), r. 9' }
+    ],
+    KE: [
+        { id: 'notice-to-ag', label: 'Notice to the Attorney General', trigger: 'beforeLimitation', period: { days: 30 }, claims: ['publicAuthority'], authority: 'Government Proceedings Act (Cap. 40), s. 13A' },
+        { id: 'appeal-high-court', label: 'Appeal from a subordinate court to the High Court', trigger: 'decision', period: { days: 30 }, authority: 'Civil Procedure Act (Cap. 21), s. 79G' },
+        { id: 'notice-of-appeal', label: 'Notice of appeal to the Court of Appeal', trigger: 'decision', period: { days: 14 }, authority: 'Court of Appeal Rules, r. 75(2)' }
+    ],
+    ZA: [
+        { id: 'intention-to-defend', label: 'Notice of intention to defend', trigger: 'service', period: { days: 10 }, workingDays: true, authority: 'Uniform Rules of Court, rule 19(1)' },
+        { id: 'leave-to-appeal', label: 'Application for leave to appeal', trigger: 'decision', period: { days: 15 }, workingDays: true, authority: 'Uniform Rules of Court, rule 49(1)(b)' }
+    ]
+};
+
+// Where a profile has no period of its own for the claim
+const FALLBACK_CLAIMS: Partial<Record<ClaimType, ClaimType>> = {
+    personalInjury: 'tort',
+    defamation: 'tort',
+    employment: 'contract'
+};
+
+// Most specific first: a police assault is a claim against a public officer
+// before it is a personal injury
+const CLAIM_TERMS: [ClaimType, RegExp][] = [
+    ['judgment', /\b(enforce (the |a )?judgment|judgment debt)\b/],
+    ['publicAuthority', /\b(police|government|ministry|public officer|local council|municipal|federal agency|state agency)\b/],
+    ['defamation', /\b(defam\w*|libel\w*|slander\w*)\b/],
+    ['personalInjury', /\b(injur(y|ies|ed)|accident|wounded|hospitali[sz]ed|medical negligence)\b/],
+    ['employment', /\b(unfair dismissal|wrongful dismissal|dismissed|sacked|terminated my employment|redundan\w*|discriminat\w*)\b/],
+    ['land', /\b(trespass|evict\w*|recovery of (the )?land|title to (the )?land|possession of (the )?(land|property))\b/]
+];
+
+const CATEGORY_CLAIMS: Record<string, ClaimType> = {
+    Tort: 'tort',
+    Employment: 'employment',
+    Property: 'land'
+};
+
+const TRIGGER_TERMS: Record<'decision' | 'service', RegExp> = {
+    decision: /\b(judgment|judgement|ruling|struck out|court (dismissed|held|ordered))\b/i,
+    service: /\b(served|service of)\b/i
+};
+
+export function inferClaimType(facts: string, category?: string | null): ClaimType {
+    const text = facts.toLowerCase();
+    const match = CLAIM_TERMS.find(([, pattern]) => pattern.test(text));
+    if (match) return match[0];
+    return (category && CATEGORY_CLAIMS[category]) || 'contract';
+}
+
+// The profile's period for the claim, or for the nearest claim it has
+export function limitationPeriodFor(profile: JurisdictionProfile, claim: ClaimType): LimitationPeriod | null {
+    const period = profile.limitation.find(l => l.claim === claim);
+    if (period) return period;
+    const fallback = FALLBACK_CLAIMS[claim];
+    return fallback ? profile.limitation.find(l => l.claim === fallback) || null : null;
+}
+
+function addDuration(date: IsoDate, duration: Duration, sign: 1 | -1 = 1): IsoDate {
+    const months = ((duration.years || 0) * 12 + (duration.months || 0)) * sign;
+    return addDays(addMonths(date, months), (duration.days || 0) * sign);
+}
+
+// Last day of a period, moved forward off a weekend or holiday
+function closingDay(jurisdiction: JurisdictionId, from: IsoDate, period: Duration, workingDays = false): Pick<Deadline, 'due' | 'movedFrom' | 'movedReason'> {
+    const end = workingDays ? addWorkingDays(from, period.days || 0, jurisdiction) : addDuration(from, period);
+    const due = nextWorkingDay(end, jurisdiction);
+    return due === end ? { due } : { due, movedFrom: end, movedReason: closureReason(end, jurisdiction) || undefined };
+}
+
+// A notice due before the limitation date is moved back, not forward
+function noticeDay(jurisdiction: JurisdictionId, limitationDue: IsoDate, period: Duration): Pick<Deadline, 'due' | 'movedFrom' | 'movedReason'> {
+    const end = addDuration(limitationDue, period, -1);
+    let due = end;
+    while (closureReason(due, jurisdiction)) due = addDays(due, -1);
+    return due === end ? { due } : { due, movedFrom: end, movedReason: closureReason(end, jurisdiction) || undefined };
+}
+
+// The latest date in a sentence that matches the trigger
+function triggerDate(dates: FoundDate[], trigger: 'decision' | 'service'): FoundDate | null {
+    const matching = dates.filter(d => TRIGGER_TERMS[trigger].test(d.context));
+    return matching.length > 0 ? matching.reduce((latest, d) => d.date > latest.date ? d : latest) : null;
+}
+
+export function computeDeadlines(facts: string, profile: JurisdictionProfile, options: DeadlineOptions = {}): DeadlineReport {
+    const today = toIsoDate(options.now || new Date());
+    const claim = options.claim || inferClaimType(facts, options.category);
+    const dates = extractDates(facts, { dayFirst: !profile.id.startsWith('US') }).filter(d => d.date <= today);
+
+    const earliest = dates.length > 0 ? dates.reduce((first, d) => d.date < first.date ? d : first) : null;
+    const accrual = options.accrual || earliest?.date || null;
+    const accrualText = options.accrual ? 'Accrual date you set' : earliest ? earliest.context : '';
+
+    const deadlines: Deadline[] = [];
+    const period = limitationPeriodFor(profile, claim);
+    let limitation: Deadline | null = null;
+    if (period && accrual) {
+        limitation = {
+            kind: 'limitation',
+            id: 'limitation',
+            label: `Limitation: ${CLAIM_LABELS[claim]}${period.claim === claim ? '' : ` (${CLAIM_LABELS[period.claim].toLowerCase()} period)`}`,
+            authority: period.authority,
+            note: period.note,
+            from: accrual,
+            fromText: accrualText,
+            ...closingDay(profile.id, accrual, period.period)
+        };
+        deadlines.push(limitation);
+    }
+
+    for (const window of FILING_WINDOWS[profile.id]) {
+        if (window.claims && !window.claims.includes(claim)) continue;
+        const base = { kind: 'filing' as const, id: window.id, label: window.label, authority: window.authority, note: window.note };
+
+        if (window.trigger === 'beforeLimitation') {
+            if (limitation) deadlines.push({ ...base, from: limitation.due, fromText: 'Before the limitation date', ...noticeDay(profile.id, limitation.due, window.period) });
+        } else if (window.trigger === 'accrual') {
+            if (accrual) deadlines.push({ ...base, from: accrual, fromText: accrualText, ...closingDay(profile.id, accrual, window.period, window.workingDays) });
+        } else {
+            const start = triggerDate(dates, window.trigger);
+            if (start) deadlines.push({ ...base, from: start.date, fromText: start.context, ...closingDay(profile.id, start.date, window.period, window.workingDays) });
+        }
+    }
+
+    return { jurisdiction: profile.id, claim, accrual, deadlines: deadlines.sort((a, b) => a.due.localeCompare(b.due)) };
+}
+
+// Negative once the deadline has passed
+export function daysRemaining(deadline: Deadline, now: Date = new Date()): number {
+    return daysBetween(toIsoDate(now), deadline.due);
+}
@@ -1,4 +1,18 @@
-// Mock Viability and Scenario Analysis
+// Offline Viability Scoring Engine
+// Rule-based scoring that needs no LLM. Each practice area weights four
+// factors (limitation, documentary evidence, witnesses, jurisdiction); every
+// factor is scored 0-1 from the facts and explained, and the weighted sum is
+// the 0-100 viability score. Used when no AI provider is configured and as a
+// cross-check on LLM scores. When the forum has a jurisdiction profile the
+// limitation factor uses the limitation engine's actual deadline.
+
+import { resolveJurisdiction } from './jurisdictions';
+import { computeDeadlines, daysRemaining } from './limitation';
+import { formatDate } from './dates';
+
+export type ViabilityFactor = 'limitation' | 'documentary' | 'witnesses' | 'jurisdiction';
+
+export type FactorWeights = Record<ViabilityFactor, number>;
 
 export interface Scenario {
     name: string;
@@ -7,93 +21,292 @@ export interface Scenario {
     recommendedAction: string;
 }
 
+export interface FactorResult {
+    factor: ViabilityFactor;
+    weight: number;        // Share of the total score, 0-1
+    score: number;         // 0-1
+    points: number;        // Contribution to the 0-100 score
+    explanation: string;
+}
+
 export interface CaseAnalysis {
     viabilityScore: number; // 0-100
     prediction: string;
     scenarios: Scenario[];
     keyIssues: string[];
-    caseCategory: string; // New field
+    caseCategory: string;
+    factors: FactorResult[];
 }
 
-export async function analyzeCaseViability(facts: string): Promise<CaseAnalysis> {
-    // Simulate AI processing time
-    await new Promise(resolve => setTimeout(resolve, 2000));
+interface PracticeArea {
+    category: string;              // Same labels the LLM is asked for
+    keywords: string[];
+    limitationYears: number | null; // Rough general period, null = none / not applicable
+    weights: FactorWeights;
+    keyIssues: string[];
+    favourable: string;            // Scenario names
+    unfavourable: string;
+}
 
-    const lowerFacts = facts.toLowerCase();
+const FACTOR_LABELS: Record<ViabilityFactor, string> = {
+    limitation: 'Limitation period',
+    documentary: 'Documentary evidence',
+    witnesses: 'Witness availability',
+    jurisdiction: 'Jurisdiction'
+};
 
-    let category = "General Civil Litigation";
-    let score = 50;
-    let issues: string[] = [];
-    let scenarios: Scenario[] = [];
+// Weights are relative - they are normalised when scoring
+export const PRACTICE_AREAS: Record<string, PracticeArea> = {
+    contract: {
+        category: 'Contract',
+        keywords: ['contract', 'agreement', 'breach', 'invoice', 'payment', 'supply', 'delivery', 'terms', 'consideration'],
+        limitationYears: 6,
+        weights: { limitation: 0.25, documentary: 0.45, witnesses: 0.1, jurisdiction: 0.2 },
+        keyIssues: ['Formation and terms of the contract', 'Breach and its materiality', 'Quantum of damages'],
+        favourable: 'Judgment for breach',
+        unfavourable: 'Claim fails on terms or proof'
+    },
+    tort: {
+        category: 'Tort',
+        keywords: ['injury', 'accident', 'negligence', 'crash', 'medical', 'defamation', 'nuisance', 'trespass', 'damage'],
+        limitationYears: 3,
+        weights: { limitation: 0.3, documentary: 0.25, witnesses: 0.3, jurisdiction: 0.15 },
+        keyIssues: ['Duty of care and breach', 'Causation', 'Assessment of damages'],
+        favourable: 'Liability established',
+        unfavourable: 'Causation not proven'
+    },
+    employment: {
+        category: 'Employment',
+        keywords: ['employer', 'employee', 'dismissal', 'termination', 'salary', 'wages', 'redundancy', 'workplace'],
+        limitationYears: 1,
+        weights: { limitation: 0.3, documentary: 0.35, witnesses: 0.2, jurisdiction: 0.15 },
+        keyIssues: ['Fairness of the dismissal procedure', 'Contractual entitlements', 'Remedies available'],
+        favourable: 'Award for unfair or wrongful dismissal',
+        unfavourable: 'Dismissal upheld'
+    },
+    property: {
+        category: 'Property',
+        keywords: ['land', 'property', 'tenant', 'landlord', 'lease', 'rent', 'title', 'possession', 'eviction'],
+        limitationYears: 12,
+        weights: { limitation: 0.2, documentary: 0.5, witnesses: 0.1, jurisdiction: 0.2 },
+        keyIssues: ['Proof of title or tenancy', 'Possession and notice requirements', 'Arrears or mesne profits'],
+        favourable: 'Possession / title confirmed',
+        unfavourable: 'Competing title prevails'
+    },
+    family: {
+        category: 'Family',
+        keywords: ['divorce', 'custody', 'marriage', 'child', 'maintenance', 'spouse', 'matrimonial'],
+        limitationYears: null,
+        weights: { limitation: 0.05, documentary: 0.35, witnesses: 0.3, jurisdiction: 0.3 },
+        keyIssues: ['Grounds for the application', 'Welfare of any children', 'Division of assets and maintenance'],
+        favourable: 'Orders granted as sought',
+        unfavourable: 'Orders refused or varied'
+    },
+    estates: {
+        category: 'Estates',
+        keywords: ['will', 'estate', 'probate', 'inheritance', 'executor', 'deceased', 'trust', 'beneficiary'],
+        limitationYears: 12,
+        weights: { limitation: 0.15, documentary: 0.55, witnesses: 0.15, jurisdiction: 0.15 },
+        keyIssues: ['Validity of the will', 'Testamentary capacity and undue influence', 'Distribution of assets'],
+        favourable: 'Will admitted to probate',
+        unfavourable: 'Will set aside'
+    },
+    criminal: {
+        category: 'Criminal',
+        keywords: ['arrest', 'police', 'charge', 'prosecution', 'theft', 'fraud', 'assault', 'bail', 'offence'],
+        limitationYears: null,
+        weights: { limitation: 0.05, documentary: 0.3, witnesses: 0.4, jurisdiction: 0.25 },
+        keyIssues: ['Elements of the offence', 'Admissibility of evidence', 'Available defences'],
+        favourable: 'Acquittal or charges dropped',
+        unfavourable: 'Conviction'
+    },
+    corporate: {
+        category: 'Corporate',
+        keywords: ['company', 'shareholder', 'director', 'board', 'shares', 'merger', 'insolvency', 'partnership'],
+        limitationYears: 6,
+        weights: { limitation: 0.2, documentary: 0.5, witnesses: 0.1, jurisdiction: 0.2 },
+        keyIssues: ['Directors\' duties', 'Shareholder rights and remedies', 'Corporate documents and resolutions'],
+        favourable: 'Relief granted against the company or directors',
+        unfavourable: 'Claim dismissed as internal management'
+    },
+    other: {
+        category: 'Other',
+        keywords: [],
+        limitationYears: 6,
+        weights: { limitation: 0.25, documentary: 0.35, witnesses: 0.2, jurisdiction: 0.2 },
+        keyIssues: ['Cause of action unclear', 'More facts needed'],
+        favourable: 'Claim succeeds',
+        unfavourable: 'Claim fails'
+    }
+};
 
-    // Deterministic Mock Logic
-    if (lowerFacts.includes('contract') || lowerFacts.includes('agreement') || lowerFacts.includes('payment')) {
-        category = "Contract Law";
-        score = 75;
-        issues = ['Breach of Contract', 'Unjust Enrichment', 'Failure to Perform'];
-        scenarios = [
-            {
-                name: 'Summary Judgment',
-                probability: 0.60,
-                description: 'Clear breach of written terms allows for expedited ruling.',
-                recommendedAction: 'File Motion for Summary Judgment immediately.'
-            },
-            {
-                name: 'Settlement',
-                probability: 0.30,
-                description: 'Defendant may settle to avoid legal fees usually recoverable in contract cases.',
-                recommendedAction: 'Send demand letter with 14-day deadline.'
-            }
-        ];
-    } else if (lowerFacts.includes('injury') || lowerFacts.includes('accident') || lowerFacts.includes('medical') || lowerFacts.includes('crash')) {
-        category = "Personal Injury / Tort";
-        score = 65;
-        issues = ['Negligence', 'Causation', 'Damages Assessment'];
-        scenarios = [
-            {
-                name: 'Insurance Settlement',
-                probability: 0.80,
-                description: 'Insurer likely to offer settlement within policy limits.',
-                recommendedAction: 'Compile medical bills and lost wage reports.'
-            },
-            {
-                name: 'Trial on Damages',
-                probability: 0.20,
-                description: 'Liability admitted, but damages disputed.',
-                recommendedAction: 'Retain expert medical witnesses.'
-            }
-        ];
-    } else if (lowerFacts.includes('will') || lowerFacts.includes('estate') || lowerFacts.includes('probate')) {
-        category = "Estates & Trusts";
-        score = 85;
-        issues = ['Testamentary Capacity', 'Undue Influence', 'Asset Distribution'];
-        scenarios = [
-            {
-                name: 'Probate Validation',
-                probability: 0.90,
-                description: 'Will appears valid on its face.',
-                recommendedAction: 'File petition for probate.'
-            }
-        ];
-    } else {
-        // Fallback
-        score = 45;
-        issues = ['Unclear Cause of Action', 'Need More Facts'];
-        scenarios = [
-            {
-                name: 'Investigation Needed',
-                probability: 1.0,
-                description: 'Facts provided are insufficient to determine specific legal path.',
-                recommendedAction: 'Interview client for specific dates and alleged duties.'
-            }
-        ];
+// VIABILITY_WEIGHTS='{"contract":{"documentary":0.6}}' overrides weights per area
+function loadWeightOverrides(): void {
+    if (!process.env.VIABILITY_WEIGHTS) return;
+    try {
+        const overrides = JSON.parse(process.env.VIABILITY_WEIGHTS) as Record<string, Partial<FactorWeights>>;
+        for (const [area, weights] of Object.entries(overrides)) {
+            if (PRACTICE_AREAS[area]) Object.assign(PRACTICE_AREAS[area].weights, weights);
+        }
+    } catch (e) {
+        console.error('[Viability] Invalid VIABILITY_WEIGHTS:', (e as Error).message);
+    }
+}
+loadWeightOverrides();
+
+const DOCUMENT_TERMS = ['contract', 'agreement', 'invoice', 'receipt', 'email', 'letter', 'signed', 'written', 'report', 'photo', 'record', 'statement', 'deed', 'certificate', 'minutes', 'message'];
+const WITNESS_TERMS = ['witness', 'saw', 'testif', 'affidavit', 'cctv', 'colleague', 'neighbour', 'neighbor', 'bystander', 'expert'];
+const NEGATIONS = ['no witness', 'no evidence', 'no receipt', 'not in writing', 'verbal agreement', 'oral agreement', 'lost the'];
+
+function countTerms(text: string, terms: string[]): string[] {
+    return terms.filter(t => text.includes(t));
+}
+
+export function detectPracticeArea(facts: string): PracticeArea {
+    const text = facts.toLowerCase();
+    let best = PRACTICE_AREAS.other;
+    let bestHits = 0;
+    for (const area of Object.values(PRACTICE_AREAS)) {
+        const hits = countTerms(text, area.keywords).length;
+        if (hits > bestHits) {
+            best = area;
+            bestHits = hits;
+        }
+    }
+    return best;
+}
+
+// Deadlines closer than this count as urgent
+const LIMITATION_WARNING_DAYS = 90;
+
+function scoreLimitation(text: string, area: PracticeArea, now: Date, facts: string, options: ViabilityOptions): { score: number; explanation: string } {
+    if (area.limitationYears === null) return { score: 0.8, explanation: 'No general limitation period for this area' };
+
+    const profile = resolveJurisdiction(options);
+    const limitation = profile && computeDeadlines(facts, profile, { category: area.category, now }).deadlines.find(d => d.kind === 'limitation');
+    if (limitation) {
+        const left = daysRemaining(limitation, now);
+        if (left < 0) return { score: 0.1, explanation: `Limitation expired on ${formatDate(limitation.due)} (${limitation.authority})` };
+        if (left <= LIMITATION_WARNING_DAYS) return { score: 0.5, explanation: `Limitation expires on ${formatDate(limitation.due)} - ${left} days left, act quickly` };
+        return { score: 0.9, explanation: `Within limitation until ${formatDate(limitation.due)} (${limitation.authority})` };
     }
 
+    const years = (text.match(/\b(19|20)\d{2}\b/g) || []).map(Number).filter(y => y <= now.getFullYear());
+    if (years.length === 0) return { score: 0.5, explanation: 'No dates found - limitation cannot be checked' };
+
+    const elapsed = now.getFullYear() - Math.min(...years);
+    if (elapsed > area.limitationYears) {
+        return { score: 0.1, explanation: `Earliest event ${elapsed} years ago - likely outside the ${area.limitationYears}-year period` };
+    }
+    if (elapsed >= area.limitationYears - 1) {
+        return { score: 0.5, explanation: `Earliest event ${elapsed} years ago - close to the ${area.limitationYears}-year period, act quickly` };
+    }
+    return { score: 0.9, explanation: `Earliest event ${elapsed} year${elapsed === 1 ? '' : 's'} ago - within the ${area.limitationYears}-year period` };
+}
+
+function scoreDocumentary(text: string): { score: number; explanation: string } {
+    const found = countTerms(text, DOCUMENT_TERMS);
+    const gaps = countTerms(text, NEGATIONS).filter(n => !n.includes('witness'));
+    const score = Math.max(0.1, Math.min(1, 0.2 + found.length * 0.2 - gaps.length * 0.25));
+    if (found.length === 0) return { score, explanation: 'No documents mentioned' };
+    return { score, explanation: `Mentions ${found.slice(0, 4).join(', ')}${gaps.length ? ` but also: ${gaps.join(', ')}` : ''}` };
+}
+
+function scoreWitnesses(text: string): { score: number; explanation: string } {
+    if (text.includes('no witness')) return { score: 0.1, explanation: 'Facts say there are no witnesses' };
+    const found = countTerms(text, WITNESS_TERMS);
+    if (found.length === 0) return { score: 0.35, explanation: 'No witnesses mentioned' };
+    return { score: Math.min(1, 0.5 + found.length * 0.2), explanation: `Mentions ${found.slice(0, 4).join(', ')}` };
+}
+
+function scoreJurisdiction(text: string, jurisdiction?: string): { score: number; explanation: string } {
+    if (text.includes('arbitration')) return { score: 0.4, explanation: 'Arbitration mentioned - the court may not be the right forum' };
+    if (jurisdiction) return { score: 0.85, explanation: `Forum identified: ${jurisdiction}` };
+    if (/\b(court|tribunal|state|federal)\b/.test(text)) return { score: 0.6, explanation: 'A forum is mentioned but not confirmed' };
+    return { score: 0.4, explanation: 'Jurisdiction not stated' };
+}
+
+export interface ViabilityOptions {
+    jurisdiction?: string;
+    court?: string | null; // With the jurisdiction, picks the profile for limitation
+    now?: Date;
+}
+
+// Score the facts. Synchronous and deterministic.
+export function scoreViability(facts: string, options: ViabilityOptions = {}): { area: PracticeArea; score: number; factors: FactorResult[] } {
+    const text = facts.toLowerCase();
+    const area = detectPracticeArea(facts);
+    const now = options.now || new Date();
+
+    const raw: Record<ViabilityFactor, { score: number; explanation: string }> = {
+        limitation: scoreLimitation(text, area, now, facts, options),
+        documentary: scoreDocumentary(text),
+        witnesses: scoreWitnesses(text),
+        jurisdiction: scoreJurisdiction(text, options.jurisdiction)
+    };
+
+    const totalWeight = Object.values(area.weights).reduce((a, b) => a + b, 0) || 1;
+    const factors = (Object.keys(raw) as ViabilityFactor[]).map(factor => {
+        const weight = area.weights[factor] / totalWeight;
+        return {
+            factor,
+            weight,
+            score: raw[factor].score,
+            points: Math.round(weight * raw[factor].score * 100),
+            explanation: raw[factor].explanation
+        };
+    });
+
+    const score = Math.round(factors.reduce((sum, f) => sum + f.weight * f.score, 0) * 100);
+    return { area, score, factors };
+}
+
+export function describeFactor(f: FactorResult): string {
+    return `${FACTOR_LABELS[f.factor]} (${Math.round(f.weight * 100)}%): +${f.points} - ${f.explanation}`;
+}
+
+// Full analysis in the same shape the LLM returns
+export function analyzeCaseViability(facts: string, options: ViabilityOptions = {}): CaseAnalysis {
+    const { area, score, factors } = scoreViability(facts, options);
+    const favourable = Math.round(score) / 100;
+
+    // The weakest factors are the issues to work on
+    const weakest = [...factors].sort((a, b) => a.score - b.score).filter(f => f.score < 0.5);
+
     return {
         viabilityScore: score,
-        prediction: score > 60 ? 'Strong Viability' : 'Low/Uncertain Viability',
-        scenarios,
-        keyIssues: issues,
-        caseCategory: category
+        prediction: score >= 70 ? 'Strong' : score >= 50 ? 'Moderate' : 'Weak',
+        caseCategory: area.category,
+        keyIssues: [...area.keyIssues, ...weakest.map(f => `${FACTOR_LABELS[f.factor]}: ${f.explanation}`)],
+        scenarios: [
+            {
+                name: area.favourable,
+                probability: favourable,
+                description: `Offline estimate based on ${factors.map(f => FACTOR_LABELS[f.factor].toLowerCase()).join(', ')}.`,
+                recommendedAction: weakest.length > 0 ? `Strengthen: ${weakest.map(f => FACTOR_LABELS[f.factor].toLowerCase()).join(', ')}.` : 'Prepare the claim and gather supporting documents.'
+            },
+            {
+                name: area.unfavourable,
+                probability: Math.round((1 - favourable) * 100) / 100,
+                description: 'Risk that the weaker factors decide the matter.',
+                recommendedAction: 'Consider early settlement if the weak factors cannot be improved.'
+            }
+        ],
+        factors
     };
 }
+
+export interface ScoreCrossCheck {
+    offlineScore: number;
+    difference: number;    // LLM score minus offline score
+    agrees: boolean;
+}
+
+export const CROSS_CHECK_TOLERANCE = 25;
+
+// Compare an LLM score with the offline engine
+export function crossCheckScore(llmScore: number, facts: string, options: ViabilityOptions = {}): ScoreCrossCheck {
+    const { score } = scoreViability(facts, options);
+    const difference = llmScore - score;
+    return { offlineScore: score, difference, agrees: Math.abs(difference) <= CROSS_CHECK_TOLERANCE };
+}
@@ -1,14 +1,77 @@
 import 'dotenv/config';
 import http from 'http';
 
-// Note: DATABASE_URL and TOKEN sanitization now happens inside src/bot/bot.ts 
+// Note: DATABASE_URL and TOKEN sanitization now happens inside src/services/db.ts and src/bot/bot.ts 
 // to ensure it runs before Prisma initializes.
 
 import { setupBot } from './bot/bot';
+import { isValidPaystackSignature, processPaystackEvent } from './services/paymentService';
+
+const PAYSTACK_WEBHOOK_PATH = '/webhooks/paystack';
+const MAX_WEBHOOK_BODY = 1024 * 1024; // 1MB
+
+// Set once the bot is up - webhooks that arrive earlier still activate the plan
+let activeBot: ReturnType<typeof setupBot> | null = null;
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', (chunk) => {
+            body += chunk;
+            if (body.length > MAX_WEBHOOK_BODY) {
+                reject(new Error('Payload too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+async function handlePaystackWebhook(req: http.IncomingMessage, res: http.ServerResponse) {
+    try {
+        const rawBody = await readBody(req);
+        if (!isValidPaystackSignature(rawBody, req.headers['x-paystack-signature'] as string | undefined)) {
+            console.warn('[Webhook] Rejected Paystack call with invalid signature');
+            res.writeHead(401, { 'Content-Type': 'text/plain' });
+            return res.end('Invalid signature\n');
+        }
+
+        const result = await processPaystackEvent(JSON.parse(rawBody), async (telegramId, message) => {
+            if (!activeBot) {
+                console.warn(`[Webhook] Bot not ready, could not notify ${telegramId}`);
+                return;
+            }
+            await activeBot.telegram.sendMessage(telegramId, message, { parse_mode: 'Markdown' });
+        });
 
-// Tiny Health Check Server for Render Free Tier
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end(`${result}\n`);
+    } catch (err: any) {
+        // Non-200 makes Paystack retry later, which is what we want on DB hiccups
+        console.error('[Webhook] Paystack processing failed:', err.message || err);
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end('Error\n');
+    }
+}
+
+// Tiny Health Check Server for Render Free Tier (also receives payment webhooks)
 const PORT = process.env.PORT || 10000;
 http.createServer((req, res) => {
+    const path = (req.url || '/').split('?')[0];
+
+    if (req.method === 'POST' && path === PAYSTACK_WEBHOOK_PATH) {
+        handlePaystackWebhook(req, res);
+        return;
+    }
+
+    if (path === '/payment/callback') {
+        // Where Paystack sends the customer after checkout
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('Payment received. You can return to Telegram - your plan is activated automatically.\n');
+        return;
+    }
+
     res.writeHead(200, { 'Content-Type': 'text/plain' });
     res.end('Bot is alive\n');
 }).listen(PORT, () => {
@@ -94,6 +157,7 @@ async function main() {
 
     console.log('[1/3] Initializing Bot & Database...');
     const bot = setupBot(token);
+    activeBot = bot;
     console.log('[2/3] Bot setup complete.');
 
     console.log('[3/3] Verifying Telegram connection...');
@@ -1,248 +1,286 @@
 
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-// Interface matching core/viability.ts CaseAnalysis
-export interface AIAnalysisResult {
-    viabilityScore: number;
-    prediction: string;
-    scenarios: {
-        name: string;
-        probability: number;
-        description: string;
-        recommendedAction: string;
-    }[];
-    keyIssues: string[];
-    caseCategory: string;
+import { z } from 'zod';
+import { llm, ChatMessage, CompletionResult, LLMRouter } from './llm';
+import { cacheResponse, getCachedResponse } from './cacheService';
+import { renderPrompt, PromptName, PromptVariables, RenderedPrompt } from './prompts';
+import { analyzeCaseViability, scoreViability, FactorResult, ViabilityOptions, CROSS_CHECK_TOLERANCE } from '../core/viability';
+import { CaseForum, forumBrief } from '../core/jurisdictions';
+
+const ANALYSIS_ATTEMPTS = 3; // First try + 2 repair prompts
+
+// Models sometimes give percentages (60) instead of fractions (0.6)
+const probability = z.coerce.number()
+    .transform(p => (p > 1 && p <= 100 ? p / 100 : p))
+    .transform(p => Math.min(1, Math.max(0, p)));
+
+const text = z.string().trim().min(1);
+
+// Shape of a case analysis, matching core/viability.ts CaseAnalysis
+export const analysisResultSchema = z.object({
+    viabilityScore: z.coerce.number().transform(s => Math.round(Math.min(100, Math.max(0, s)))),
+    prediction: text,
+    caseCategory: text,
+    keyIssues: z.array(text).min(1),
+    scenarios: z.array(z.object({
+        name: text,
+        probability,
+        description: text,
+        recommendedAction: text
+    })).min(1)
+});
+
+export type AIAnalysisResult = z.infer<typeof analysisResultSchema> & {
+    source?: 'llm' | 'offline';
+    prompt?: string; // Template that produced it, e.g. "analysis@1"
+    // The offline engine's own score for the same facts, as a cross-check
+    offline?: { score: number; factors: FactorResult[] };
+};
+
+// The model never produced a valid analysis - nothing should be saved as one
+export class AnalysisIncompleteError extends Error {
+    constructor(public attempts: number, public issues: string) {
+        super(`Analysis incomplete after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${issues}`);
+        this.name = 'AnalysisIncompleteError';
+    }
 }
 
-export class AIService {
-    private openai?: OpenAI;
-    private gemini?: any; // GoogleGenerativeAI type
-    private provider: 'openai' | 'gemini' | 'none' = 'none';
-
-    constructor() {
-        if (process.env.OPENAI_API_KEY) {
-            this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-            this.provider = 'openai';
-            console.log('[AI] Initialized with OpenAI.');
-        } else if (process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-            const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
-            this.gemini = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-            this.provider = 'gemini';
-            console.log('[AI] Initialized with Google Gemini.');
-        } else {
-            console.warn('[AI] No API Key found. Using fallback mock logic.');
-        }
+// Answers from the interactive scenario wizard
+export interface SimulationInputs {
+    outcome: string;
+    evidence: string;
+    opposing: string;
+    jurisdiction: string;
+    caveats: string;
+}
+
+// The offline engine's options plus what the prompt needs about the forum
+export type AnalysisOptions = ViabilityOptions & {
+    parties?: string | null;
+    promptVersion?: number; // Template version other than the live one, e.g. in an A/B test
+};
+
+// Earlier turns of a case Q&A thread, see qaMemoryService
+export interface ConversationMemory {
+    summary: string | null; // Older turns, condensed
+    turns: ChatMessage[];   // Recent turns, word for word
+}
+
+// Whether a response may be cached: true, or a check it has to pass first.
+// Simulations and scenarios are never cached - running one again should give a fresh take.
+type Cacheable = boolean | ((response: string) => boolean);
+
+export type AnalysisParseResult =
+    | { ok: true; result: AIAnalysisResult }
+    | { ok: false; issues: string };
+
+// Pull the JSON object out of a model reply and validate it
+export function parseAnalysis(raw: string): AnalysisParseResult {
+    const cleaned = raw.replace(/```json/g, '').replace(/```/g, '');
+    const start = cleaned.indexOf('{');
+    const end = cleaned.lastIndexOf('}');
+    if (start === -1 || end <= start) return { ok: false, issues: 'response contains no JSON object' };
+
+    let json: unknown;
+    try {
+        json = JSON.parse(cleaned.substring(start, end + 1));
+    } catch (e) {
+        return { ok: false, issues: `invalid JSON (${(e as Error).message})` };
     }
 
-    async analyzeLegalText(text: string): Promise<AIAnalysisResult> {
-        if (this.provider === 'none') throw new Error("No AI Provider");
+    const parsed = analysisResultSchema.safeParse(json);
+    if (parsed.success) return { ok: true, result: parsed.data };
+    return { ok: false, issues: parsed.error.issues.map(i => `${i.path.join('.') || 'root'}: ${i.message}`).join('; ') };
+}
 
-        const prompt = `
-        You are a Senior Legal Consultant providing a comprehensive case analysis.
-        
-        DOCUMENT CONTENT:
-        """
-        ${text.substring(0, 20000)}
-        """
+export class AIService {
+    // Providers, models and failover live in ./llm
+    constructor(private llm: LLMRouter) { }
 
-        TASK: Provide a thorough legal analysis of this document. Be specific, practical, and actionable.
-
-        REQUIREMENTS:
-        1. Identify the core legal matter and categorize it accurately.
-        2. Assess the viability score (0-100) based on evidence strength, legal precedent, and procedural standing.
-        3. Identify 3-5 key legal issues with specificity (cite relevant laws/principles if apparent).
-        4. Provide realistic scenarios with probability assessments.
-        5. Give actionable recommendations a lawyer would actually use.
-
-        OUTPUT FORMAT (JSON only, no markdown wrappers):
-        {
-            "viabilityScore": number (0-100),
-            "prediction": "Strong" | "Moderate" | "Weak",
-            "caseCategory": "Contract" | "Tort" | "Criminal" | "Family" | "Property" | "Employment" | "Corporate" | "Other",
-            "keyIssues": ["Specific issue 1", "Specific issue 2", "..."],
-            "scenarios": [
-                {
-                    "name": "Favorable Outcome",
-                    "probability": 0.0-1.0,
-                    "description": "Detailed description of this scenario",
-                    "recommendedAction": "Specific action to take"
-                },
-                {
-                    "name": "Unfavorable Outcome",
-                    "probability": 0.0-1.0,
-                    "description": "Detailed description of this scenario",
-                    "recommendedAction": "Specific action to mitigate"
-                }
-            ]
+    get available(): boolean {
+        return this.llm.available;
+    }
+
+    // `history` goes between the system message and the prompt
+    private async chat(prompt: RenderedPrompt, json: boolean = false, history: ChatMessage[] = [], cache: Cacheable = false): Promise<string> {
+        const { task } = prompt;
+        const messages: ChatMessage[] = [{ role: 'system', content: prompt.system }, ...history, { role: 'user', content: prompt.text }];
+        if (cache) {
+            const cached = await getCachedResponse(this.llm.targets(task), messages, json);
+            if (cached !== null) return cached;
         }
-        `;
 
-        let rawResponse = '';
+        const result = await this.llm.complete(task, messages, { json });
+        if (cache && (cache === true || cache(result.text))) await cacheResponse(task, result, messages, json, result.text);
+        return result.text;
+    }
 
-        try {
-            if (this.provider === 'openai') {
-                const completion = await this.openai!.chat.completions.create({
-                    messages: [{ role: "system", content: "You are a legal expert returning raw JSON." }, { role: "user", content: prompt }],
-                    model: "gpt-4o-mini", // Fallback to 3.5-turbo if needed, but strict mode prefers 4o usually or 3.5. Assuming 4o-mini is available/valid.
-                    response_format: { type: "json_object" }
-                });
-                rawResponse = completion.choices[0].message.content || '{}';
-            } else if (this.provider === 'gemini') {
-                const result = await this.gemini.generateContent(prompt);
-                const response = await result.response;
-                rawResponse = response.text();
-                // Clean markdown code blocks if Gemini sends them
-                rawResponse = rawResponse.replace(/```json/g, '').replace(/```/g, '');
+    // Streamed chat. A provider failure ends the text with `failure` instead of throwing;
+    // a cancelled request still throws so the caller knows it was stopped.
+    private async *chatStream(prompt: RenderedPrompt, failure: string, signal?: AbortSignal, history: ChatMessage[] = [], cache: boolean = false): AsyncGenerator<string> {
+        const { task } = prompt;
+        const messages: ChatMessage[] = [{ role: 'system', content: prompt.system }, ...history, { role: 'user', content: prompt.text }];
+        if (cache) {
+            const cached = await getCachedResponse(this.llm.targets(task), messages);
+            if (cached !== null) {
+                yield cached;
+                return;
             }
+        }
 
-            return JSON.parse(rawResponse);
-
-        } catch (error) {
-            console.error('[AI] Analysis Failed:', error);
-            // Fallback
-            return {
-                viabilityScore: 50,
-                prediction: "Error",
-                caseCategory: "Unknown",
-                keyIssues: ["AI Analysis Failed"],
-                scenarios: []
-            };
+        let started = false;
+        let finished = null as CompletionResult | null;
+        try {
+            for await (const chunk of this.llm.stream(task, messages, { signal, onFinish: result => finished = result })) {
+                started = true;
+                yield chunk;
+            }
+            // Only complete answers are cached, never stopped or failed ones
+            if (cache && finished) await cacheResponse(task, finished, messages, false, finished.text);
+        } catch (e) {
+            if (signal?.aborted) throw e;
+            console.error(`[AI] ${task} stream failed:`, (e as any).message || e);
+            yield started ? `\n\n⚠️ ${failure}` : failure;
         }
     }
 
-    async askAI(context: string, question: string): Promise<string> {
-        if (this.provider === 'none') return "AI Service Unavailable.";
+    async analyzeLegalText(text: string, options: AnalysisOptions = {}): Promise<AIAnalysisResult> {
+        // Without a provider the rule-based engine does the whole analysis
+        if (!this.available) {
+            const { factors, ...offline } = analyzeCaseViability(text, options);
+            return { ...offline, source: 'offline', offline: { score: offline.viabilityScore, factors } };
+        }
+
+        const prompt = renderPrompt('analysis', { document: text, forum: forumBrief(options) }, options.promptVersion);
+
+        // Ask again with the validation errors until the output fits the schema
+        let currentPrompt = prompt;
+        let issues = '';
+        for (let attempt = 1; attempt <= ANALYSIS_ATTEMPTS; attempt++) {
+            let rawResponse = '';
+            try {
+                rawResponse = await this.chat(currentPrompt, true, [], raw => parseAnalysis(raw).ok);
+            } catch (error) {
+                console.error(`[AI] Analysis attempt ${attempt} failed:`, (error as any).message || error);
+                issues = 'AI provider error';
+                continue;
+            }
+
+            const parsed = parseAnalysis(rawResponse);
+            if (parsed.ok) {
+                const check = scoreViability(text, options);
+                if (Math.abs(parsed.result.viabilityScore - check.score) > CROSS_CHECK_TOLERANCE) {
+                    console.warn(`[AI] Viability ${parsed.result.viabilityScore} differs from offline engine (${check.score})`);
+                }
+                return { ...parsed.result, source: 'llm', prompt: prompt.id, offline: { score: check.score, factors: check.factors } };
+            }
+
+            issues = parsed.issues;
+            console.warn(`[AI] Analysis attempt ${attempt} invalid: ${issues}`);
+            currentPrompt = { ...prompt, text: `${prompt.text}
+
+        YOUR PREVIOUS RESPONSE:
+        """
+        ${rawResponse.substring(0, 5000)}
+        """
+
+        It was rejected because: ${issues}
+        Return the corrected analysis as a single JSON object that follows the OUTPUT FORMAT exactly. Do not invent facts to fill gaps.
+        ` };
+        }
 
-        const prompt = `
-        CONTEXT FACTS (Max 20000 chars):
-        "${context.substring(0, 20000)}"
+        throw new AnalysisIncompleteError(ANALYSIS_ATTEMPTS, issues);
+    }
 
-        USER QUESTION:
-        "${question}"
+    private questionPrompt(context: string, question: string, memory?: ConversationMemory, forum: CaseForum = {}): RenderedPrompt {
+        return renderPrompt('qa', { context, question, summary: memory?.summary ?? null, forum: forumBrief(forum) });
+    }
 
-        Act as a legal assistant. Answer the question based on the facts provided.
-        Use professional formatting with clear Bold Headers (e.g., **Analysis**, **Conclusion**).
-        Do NOT use phrases like "As an AI" or "Based on the context". Just provide the answer.
-        `;
+    async askAI(context: string, question: string, memory?: ConversationMemory, forum: CaseForum = {}): Promise<string> {
+        if (!this.available) return "AI Service Unavailable.";
 
         try {
-            if (this.provider === 'openai') {
-                const completion = await this.openai!.chat.completions.create({
-                    messages: [{ role: "system", content: "You are a legal expert." }, { role: "user", content: prompt }],
-                    model: "gpt-4o-mini",
-                });
-                return completion.choices[0].message.content || "No response.";
-            } else if (this.provider === 'gemini') {
-                const result = await this.gemini.generateContent(prompt);
-                return result.response.text();
-            }
-            return "Provider Error.";
+            return await this.chat(this.questionPrompt(context, question, memory, forum), false, memory?.turns, true);
         } catch (e) {
             console.error('[AI] Q&A Failed:', e);
             return "I'm having trouble analyzing that right now.";
         }
     }
 
-    async runSimulation(facts: string): Promise<string> {
-        if (this.provider === 'none') return "Simulation Unavailable.";
+    async *streamAnswer(context: string, question: string, signal?: AbortSignal, memory?: ConversationMemory, forum: CaseForum = {}): AsyncGenerator<string> {
+        if (!this.available) {
+            yield "AI Service Unavailable.";
+            return;
+        }
+        yield* this.chatStream(this.questionPrompt(context, question, memory, forum), "I'm having trouble analyzing that right now.", signal, memory?.turns, true);
+    }
 
-        const prompt = `
-        Act as a Legal Simulator. Run a simulation of a potential trial based on these facts:
-        
-        FACTS:
-        "${facts.substring(0, 20000)}"
+    // Fold older Q&A turns into the running summary of a thread. Throws if no provider answers.
+    async summarizeConversation(previousSummary: string | null, turns: ChatMessage[]): Promise<string> {
+        const transcript = turns.map(t => `${t.role === 'user' ? 'QUESTION' : 'ANSWER'}: ${t.content}`).join('\n\n');
+        return (await this.chat(renderPrompt('summary', { previousSummary, transcript }), false, [], true)).trim();
+    }
 
-        Output a narrative simulation that covers:
-        1. **Judge's Perspective**: Likely rulings on motions.
-        2. **Jury Reaction**: How a typical jury might perceive the facts.
-        3. **Opposing Counsel Strategy**: Likely defenses or counter-arguments.
-        4. **Verdict Prediction**: A probable outcome percentage.
+    // Any registry prompt, uncached and without fallbacks - e.g. for A/B tests. Throws if no provider answers.
+    async completePrompt<N extends PromptName>(name: N, vars: PromptVariables[N], version?: number): Promise<string> {
+        return this.chat(renderPrompt(name, vars, version));
+    }
 
-        Format with clear Markdown headers. Be realistic and critical.
-        `;
+    async runSimulation(facts: string, forum: CaseForum = {}): Promise<string> {
+        if (!this.available) return "Simulation Unavailable.";
 
         try {
-            if (this.provider === 'openai') {
-                const completion = await this.openai!.chat.completions.create({
-                    messages: [{ role: "system", content: "You are a legal simulator." }, { role: "user", content: prompt }],
-                    model: "gpt-4o-mini",
-                });
-                return completion.choices[0].message.content || "Simulation failed.";
-            } else if (this.provider === 'gemini') {
-                const result = await this.gemini.generateContent(prompt);
-                return result.response.text();
-            }
-            return "Provider Error.";
+            return await this.chat(renderPrompt('simulation', { facts, forum: forumBrief(forum) }));
         } catch (e) {
             console.error('[AI] Simulation Failed:', e);
             return "Simulation failed to run.";
         }
     }
-    async runInteractiveSimulation(facts: string, inputs: {
-        outcome: string,
-        evidence: string,
-        opposing: string,
-        jurisdiction: string,
-        caveats: string
-    }): Promise<string> {
-        if (this.provider === 'none') return "Simulation Unavailable.";
-
-        const prompt = `
-        Act as a Legal Simulator. Run a USER-DEFINED simulation based on these specific parameters:
 
-        CASE FACTS:
-        "${facts.substring(0, 15000)}"
-
-        SIMULATION PARAMETERS:
-        1. TARGET OUTCOME TO TEST: "${inputs.outcome}"
-        2. KEY EVIDENCE/WITNESS: "${inputs.evidence}"
-        3. OPPOSING STRATEGY: "${inputs.opposing}"
-        4. JURISDICTION/JUDGE NUANCES: "${inputs.jurisdiction}"
-        5. CAVEATS & COMMENTS: "${inputs.caveats}"
-
-        TASK:
-        Simulate the trial or legal proceeding strictly using the above User Inputs as the simulation variables.
-        Analyze if the Target Outcome is achievable given the Evidence, Opposing Strategy, and Jurisdiction.
-        Address the Caveats specifically.
+    async *streamSimulation(facts: string, signal?: AbortSignal, forum: CaseForum = {}): AsyncGenerator<string> {
+        if (!this.available) {
+            yield "Simulation Unavailable.";
+            return;
+        }
+        yield* this.chatStream(renderPrompt('simulation', { facts, forum: forumBrief(forum) }), "Simulation failed to run.", signal);
+    }
 
-        OUTPUT FORMAT:
-        **Simulation Results**
-        
-        **1. Analysis of Target Outcome**
-        (Is it viable? Why/Why not?)
+    async runInteractiveSimulation(facts: string, inputs: SimulationInputs, forum: CaseForum = {}): Promise<string> {
+        if (!this.available) return "Simulation Unavailable.";
 
-        **2. Impact of Key Evidence**
-        (How does it sway the judge/jury?)
+        try {
+            return await this.chat(renderPrompt('interactiveSimulation', { facts, ...inputs, forum: forumBrief(forum) }));
+        } catch (e) {
+            console.error('[AI] Interactive Simulation Failed:', e);
+            return "Simulation failed to run.";
+        }
+    }
 
-        **3. Counter-Strategy Effectiveness**
-        (How effective is the opposing argument?)
+    async *streamInteractiveSimulation(facts: string, inputs: SimulationInputs, signal?: AbortSignal, forum: CaseForum = {}): AsyncGenerator<string> {
+        if (!this.available) {
+            yield "Simulation Unavailable.";
+            return;
+        }
+        yield* this.chatStream(renderPrompt('interactiveSimulation', { facts, ...inputs, forum: forumBrief(forum) }), "Simulation failed to run.", signal);
+    }
 
-        **4. Jurisdiction Factor**
-        (How does the specific venue affect the case?)
+    async *streamScenarios(vars: PromptVariables['scenarios'], signal?: AbortSignal): AsyncGenerator<string> {
+        if (!this.available) {
+            yield "AI Service Unavailable.";
+            return;
+        }
+        yield* this.chatStream(renderPrompt('scenarios', vars), "I'm having trouble analyzing that right now.", signal);
+    }
 
-        **5. Conclusion & Probability**
-        (Final assessment based on these constraints)
-        `;
+    async analyzePrecedent(vars: PromptVariables['precedent']): Promise<string> {
+        if (!this.available) return "AI Service Unavailable.";
 
         try {
-            if (this.provider === 'openai') {
-                const completion = await this.openai!.chat.completions.create({
-                    messages: [{ role: "system", content: "You are a legal simulator." }, { role: "user", content: prompt }],
-                    model: "gpt-4o-mini",
-                });
-                return completion.choices[0].message.content || "Simulation failed.";
-            } else if (this.provider === 'gemini') {
-                const result = await this.gemini.generateContent(prompt);
-                return result.response.text();
-            }
-            return "Provider Error.";
+            return await this.chat(renderPrompt('precedent', vars), false, [], true);
         } catch (e) {
-            console.error('[AI] Interactive Simulation Failed:', e);
-            return "Simulation failed to run.";
+            console.error('[AI] Precedent analysis Failed:', e);
+            return "I'm having trouble analyzing that right now.";
         }
     }
 }
 
-export const aiService = new AIService();
+export const aiService = new AIService(llm);
@@ -0,0 +1,118 @@
+// Structured case analyses
+// Every AI analysis of a case is kept as a numbered version with its score,
+// issues and scenarios, so the case view, exports and search read fields
+// instead of re-parsing the Markdown brief sent to the user.
+
+import { AnalysisVersion } from '@prisma/client';
+import { prisma } from './db';
+import { AIAnalysisResult } from './ai';
+import { FactorResult, describeFactor, CROSS_CHECK_TOLERANCE } from '../core/viability';
+
+export type StoredAnalysis = AIAnalysisResult & { id: number; caseId: number; version: number; createdAt: Date };
+
+function parseList<T>(json: string): T[] {
+    try {
+        const parsed = JSON.parse(json);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+export function toStoredAnalysis(row: AnalysisVersion): StoredAnalysis {
+    return {
+        id: row.id,
+        caseId: row.caseId,
+        version: row.version,
+        createdAt: row.createdAt,
+        viabilityScore: row.viabilityScore,
+        prediction: row.prediction,
+        caseCategory: row.caseCategory,
+        keyIssues: parseList<string>(row.keyIssues),
+        scenarios: parseList<AIAnalysisResult['scenarios'][number]>(row.scenarios),
+        source: row.source === 'offline' ? 'offline' : 'llm',
+        prompt: row.promptVersion || undefined,
+        offline: row.offlineScore !== null
+            ? { score: row.offlineScore, factors: parseList<FactorResult>(row.offlineFactors || '[]') }
+            : undefined
+    };
+}
+
+// Offline engine score when it disagrees with the LLM, else null
+export function crossCheckWarning(analysis: AIAnalysisResult): string | null {
+    if (analysis.source !== 'llm' || !analysis.offline) return null;
+    const difference = analysis.viabilityScore - analysis.offline.score;
+    if (Math.abs(difference) <= CROSS_CHECK_TOLERANCE) return null;
+    return `Offline engine scores this ${analysis.offline.score}/100 (${difference > 0 ? '+' : ''}${difference} from the AI score)`;
+}
+
+// Store a new analysis as the next version for the case
+export async function saveAnalysis(caseId: number, result: AIAnalysisResult): Promise<StoredAnalysis> {
+    const row = await prisma.$transaction(async (tx) => {
+        const latest = await tx.analysisVersion.findFirst({ where: { caseId }, orderBy: { version: 'desc' }, select: { version: true } });
+        const created = await tx.analysisVersion.create({
+            data: {
+                caseId,
+                version: (latest?.version ?? 0) + 1,
+                viabilityScore: Math.round(result.viabilityScore),
+                prediction: result.prediction,
+                caseCategory: result.caseCategory,
+                keyIssues: JSON.stringify(result.keyIssues || []),
+                scenarios: JSON.stringify(result.scenarios || []),
+                source: result.source || 'llm',
+                promptVersion: result.prompt,
+                offlineScore: result.offline?.score,
+                offlineFactors: result.offline ? JSON.stringify(result.offline.factors) : undefined
+            }
+        });
+        await tx.caseMatter.update({ where: { id: caseId }, data: { category: result.caseCategory, analysisStatus: 'COMPLETE' } });
+        return created;
+    });
+
+    console.log(`[Analysis] Case ${caseId} analysis v${row.version} saved (score ${row.viabilityScore})`);
+    return toStoredAnalysis(row);
+}
+
+// The last analysis run produced nothing usable. Earlier versions are kept.
+export async function markAnalysisIncomplete(caseId: number): Promise<void> {
+    await prisma.caseMatter.update({ where: { id: caseId }, data: { analysisStatus: 'INCOMPLETE' } });
+    console.warn(`[Analysis] Case ${caseId} analysis incomplete`);
+}
+
+export async function getLatestAnalysis(caseId: number): Promise<StoredAnalysis | null> {
+    const row = await prisma.analysisVersion.findFirst({ where: { caseId }, orderBy: { version: 'desc' } });
+    return row ? toStoredAnalysis(row) : null;
+}
+
+// Plain text for exports and AI context
+export function formatAnalysisText(analysis: StoredAnalysis): string {
+    let text = `Case Category: ${analysis.caseCategory}\n`;
+    text += `Viability Score: ${analysis.viabilityScore}/100 (${analysis.prediction})\n`;
+    text += `Analysis Version: ${analysis.version} (${analysis.createdAt.toLocaleDateString()})\n`;
+    if (analysis.source === 'offline') text += `Source: Offline scoring engine (no AI provider)\n`;
+    text += `\n`;
+
+    text += `Key Issues:\n`;
+    analysis.keyIssues.forEach(issue => text += `- ${issue}\n`);
+
+    if (analysis.scenarios.length > 0) {
+        text += `\nScenarios & Strategy:\n`;
+        analysis.scenarios.forEach(s => {
+            text += `\n${s.name} (${Math.round(s.probability * 100)}%)\n`;
+            text += `${s.description}\n`;
+            text += `Action: ${s.recommendedAction}\n`;
+        });
+    }
+
+    if (analysis.offline && analysis.offline.factors.length > 0) {
+        text += `\n${analysis.source === 'offline' ? 'Score Breakdown' : `Offline Cross-Check: ${analysis.offline.score}/100`}:\n`;
+        analysis.offline.factors.forEach(f => text += `- ${describeFactor(f)}\n`);
+    }
+    return text.trim();
+}
+
+// The analysis text for a case: latest structured version, else the legacy blob
+export async function caseAnalysisText(c: { id: number; analysis: string | null }): Promise<string | undefined> {
+    const latest = await getLatestAnalysis(c.id);
+    return latest ? formatAnalysisText(latest) : (c.analysis || undefined);
+}
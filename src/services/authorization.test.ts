@@ -0,0 +1,213 @@
+// Case authorization rules
+// The pure checks behind authorizeCase() - how the actor relates to the case
+// creator, what that relation allows, what a share allows - and the lookups
+// that put them together. The database is replaced by a few in-memory rows.
+
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { CaseMatter, CaseShare, User } from '@prisma/client';
+import { prisma } from './db';
+import { CaseAction, SharePermission, authorizeCase, canActOnCase, caseRelation, isAllowed, shareAllows, toActor } from './authorization';
+
+const ACTIONS: CaseAction[] = ['read', 'comment', 'edit', 'delete'];
+const DAY = 24 * 60 * 60 * 1000;
+
+function user(id: number, fields: Partial<User> = {}): User {
+    return { id, telegramId: BigInt(1000 + id), accountType: 'INDIVIDUAL', teamOwnerId: null, ...fields } as User;
+}
+
+const firmOwner = user(1, { accountType: 'FIRM' });
+const associate = user(2, { teamOwnerId: firmOwner.id });
+const paralegal = user(3, { teamOwnerId: firmOwner.id });
+const solo = user(4);
+const outsider = user(5, { accountType: 'FIRM' });
+
+function share(permission: SharePermission | string, fields: Partial<CaseShare> = {}): CaseShare {
+    return { id: 1, caseId: 10, sharedWithId: outsider.id, permission, status: 'ACCEPTED', expiresAt: null, ...fields } as CaseShare;
+}
+
+// The actions in ACTIONS the check allows
+function allowed(check: (action: CaseAction) => boolean): CaseAction[] {
+    return ACTIONS.filter(check);
+}
+
+const firmCase = { id: 10, userId: associate.id, title: 'Firm matter' } as CaseMatter;
+const soloCase = { id: 20, userId: solo.id, title: 'Solo matter' } as CaseMatter;
+let shares: CaseShare[] = [];
+
+// Answer the queries authorizeCase() makes from the rows above
+function useRows() {
+    const users = [firmOwner, associate, paralegal, solo, outsider];
+    const db = prisma as any;
+    db.user.findUnique = async ({ where }: any) => users.find(u => u.telegramId === where.telegramId) ?? null;
+    db.caseMatter.findUnique = async ({ where }: any) => {
+        const c = [firmCase, soloCase].find(c => c.id === where.id);
+        const creator = users.find(u => u.id === c?.userId);
+        return c && creator ? { ...c, user: { id: creator.id, teamOwnerId: creator.teamOwnerId } } : null;
+    };
+    db.caseShare.findUnique = async ({ where }: any) => shares.find(s =>
+        s.caseId === where.caseId_sharedWithId.caseId && s.sharedWithId === where.caseId_sharedWithId.sharedWithId) ?? null;
+}
+
+// The actions in ACTIONS the user may take on the case
+async function allowedOn(actor: User, caseId: number): Promise<CaseAction[]> {
+    const results = await Promise.all(ACTIONS.map(a => authorizeCase(actor.telegramId, caseId, a)));
+    return ACTIONS.filter((_, i) => results[i].allowed);
+}
+
+describe('caseRelation', () => {
+    it('recognises the creator', () => {
+        assert.equal(caseRelation(toActor(solo), solo), 'CREATOR');
+        assert.equal(caseRelation(toActor(associate), associate), 'CREATOR');
+    });
+
+    it('gives the firm owner control of staff cases', () => {
+        assert.equal(caseRelation(toActor(firmOwner), associate), 'ORG_OWNER');
+    });
+
+    it('makes staff colleagues on firm cases', () => {
+        assert.equal(caseRelation(toActor(associate), firmOwner), 'COLLEAGUE');
+        assert.equal(caseRelation(toActor(associate), paralegal), 'COLLEAGUE');
+    });
+
+    it('gives nothing outside the organization', () => {
+        assert.equal(caseRelation(toActor(outsider), firmOwner), 'NONE');
+        assert.equal(caseRelation(toActor(outsider), associate), 'NONE');
+        assert.equal(caseRelation(toActor(solo), outsider), 'NONE');
+        assert.equal(caseRelation(toActor(firmOwner), solo), 'NONE');
+    });
+});
+
+describe('isAllowed', () => {
+    it('lets the owner do everything', () => {
+        assert.deepEqual(allowed(a => isAllowed(toActor(solo), solo, a)), ['read', 'comment', 'edit', 'delete']);
+        assert.ok(isAllowed(toActor(solo), solo, 'share'));
+    });
+
+    it('lets the firm owner do everything on staff cases', () => {
+        assert.deepEqual(allowed(a => isAllowed(toActor(firmOwner), associate, a)), ['read', 'comment', 'edit', 'delete']);
+        assert.ok(isAllowed(toActor(firmOwner), associate, 'share'));
+    });
+
+    it('lets firm members work on cases but not delete or share them', () => {
+        assert.deepEqual(allowed(a => isAllowed(toActor(associate), firmOwner, a)), ['read', 'comment', 'edit']);
+        assert.deepEqual(allowed(a => isAllowed(toActor(paralegal), associate, a)), ['read', 'comment', 'edit']);
+        assert.equal(isAllowed(toActor(associate), paralegal, 'share'), false);
+    });
+
+    it('lets an outsider do nothing', () => {
+        assert.deepEqual(allowed(a => isAllowed(toActor(outsider), firmOwner, a)), []);
+        assert.deepEqual(allowed(a => isAllowed(toActor(outsider), solo, a)), []);
+    });
+});
+
+describe('shareAllows', () => {
+    it('lets a viewer read only', () => {
+        assert.deepEqual(allowed(a => shareAllows(share('READ'), a)), ['read']);
+    });
+
+    it('lets a commenter read and comment', () => {
+        assert.deepEqual(allowed(a => shareAllows(share('COMMENT'), a)), ['read', 'comment']);
+    });
+
+    it('lets an editor read, comment and edit but not delete', () => {
+        assert.deepEqual(allowed(a => shareAllows(share('EDIT'), a)), ['read', 'comment', 'edit']);
+    });
+
+    it('never allows re-sharing', () => {
+        for (const permission of ['READ', 'COMMENT', 'EDIT']) assert.equal(shareAllows(share(permission), 'share'), false);
+    });
+
+    it('allows nothing until the share is accepted', () => {
+        for (const status of ['PENDING', 'DECLINED', 'REVOKED']) {
+            assert.deepEqual(allowed(a => shareAllows(share('EDIT', { status }), a)), []);
+        }
+    });
+
+    it('allows nothing once the share has expired', () => {
+        const now = new Date('2026-06-01T12:00:00Z');
+        const expired = share('EDIT', { expiresAt: new Date('2026-06-01T11:59:59Z') });
+        const current = share('EDIT', { expiresAt: new Date('2026-06-02T00:00:00Z') });
+        assert.deepEqual(allowed(a => shareAllows(expired, a, now)), []);
+        assert.deepEqual(allowed(a => shareAllows(current, a, now)), ['read', 'comment', 'edit']);
+    });
+
+    it('allows nothing for an unknown permission', () => {
+        assert.deepEqual(allowed(a => shareAllows(share('ADMIN'), a)), []);
+    });
+});
+
+describe('authorizeCase', () => {
+    beforeEach(() => {
+        shares = [];
+        useRows();
+        mock.method(console, 'warn', () => { });
+    });
+    afterEach(() => mock.restoreAll());
+
+    it('returns the case to its owner and the firm', async () => {
+        const result = await authorizeCase(associate.telegramId, firmCase.id, 'edit');
+        assert.ok(result.allowed);
+        assert.equal(result.case.id, firmCase.id);
+        assert.equal(result.actor.user.id, associate.id);
+        assert.deepEqual(await allowedOn(firmOwner, firmCase.id), ['read', 'comment', 'edit', 'delete']);
+        assert.deepEqual(await allowedOn(paralegal, firmCase.id), ['read', 'comment', 'edit']);
+    });
+
+    it('turns away users without an account', async () => {
+        assert.deepEqual(await authorizeCase(99999, firmCase.id, 'read'), { allowed: false, reason: 'NO_ACCOUNT' });
+    });
+
+    it('reports a missing case', async () => {
+        assert.deepEqual(await authorizeCase(associate.telegramId, 404, 'read'), { allowed: false, reason: 'NOT_FOUND' });
+    });
+
+    it('forbids outsiders and logs the denial', async () => {
+        assert.deepEqual(await authorizeCase(outsider.telegramId, firmCase.id, 'read'), { allowed: false, reason: 'FORBIDDEN' });
+        assert.deepEqual(await allowedOn(firmOwner, soloCase.id), []);
+        assert.ok((console.warn as any).mock.callCount() > 0);
+    });
+
+    it('lets shared viewers, commenters and editors in as far as their share allows', async () => {
+        shares = [share('READ')];
+        assert.deepEqual(await allowedOn(outsider, firmCase.id), ['read']);
+        shares = [share('COMMENT')];
+        assert.deepEqual(await allowedOn(outsider, firmCase.id), ['read', 'comment']);
+        shares = [share('EDIT')];
+        assert.deepEqual(await allowedOn(outsider, firmCase.id), ['read', 'comment', 'edit']);
+        assert.equal((await authorizeCase(outsider.telegramId, firmCase.id, 'share')).allowed, false);
+    });
+
+    it('ignores shares that are pending, revoked or expired, or for another case', async () => {
+        for (const fields of [{ status: 'PENDING' }, { status: 'REVOKED' }, { expiresAt: new Date(Date.now() - DAY) }, { caseId: soloCase.id }]) {
+            shares = [share('EDIT', fields)];
+            assert.deepEqual(await allowedOn(outsider, firmCase.id), []);
+        }
+        shares = [share('EDIT', { expiresAt: new Date(Date.now() + DAY) })];
+        assert.deepEqual(await allowedOn(outsider, firmCase.id), ['read', 'comment', 'edit']);
+    });
+});
+
+describe('canActOnCase', () => {
+    beforeEach(() => {
+        shares = [];
+        useRows();
+        mock.method(console, 'warn', () => { });
+    });
+    afterEach(() => mock.restoreAll());
+
+    it('answers the same as authorizeCase', async () => {
+        shares = [share('COMMENT')];
+        assert.equal(await canActOnCase(outsider.telegramId, firmCase.id, 'comment'), true);
+        assert.equal(await canActOnCase(outsider.telegramId, firmCase.id, 'edit'), false);
+        assert.equal(await canActOnCase(paralegal.telegramId, firmCase.id, 'delete'), false);
+        assert.equal(await canActOnCase(firmOwner.telegramId, firmCase.id, 'delete'), true);
+        assert.equal(await canActOnCase(99999, firmCase.id, 'read'), false);
+        assert.equal(await canActOnCase(associate.telegramId, 404, 'read'), false);
+    });
+
+    it('does not log a denial - it only decides which buttons to show', async () => {
+        assert.equal(await canActOnCase(solo.telegramId, firmCase.id, 'read'), false);
+        assert.equal((console.warn as any).mock.callCount(), 0);
+    });
+});
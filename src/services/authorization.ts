@@ -0,0 +1,124 @@
+// Case authorization
+// Every handler that touches a case by ID goes through authorizeCase() so a
+// user can only reach matters they own, that belong to their firm, or that
+// were shared with them (an accepted, unexpired CaseShare).
+//
+// Actions:
+//   read    - view, export, list documents, find precedents
+//   comment - ask questions, run scenarios / analyses (adds AI output to the case)
+//   edit    - add or remove documents and links
+//   delete  - delete the case
+//   share   - grant other users access
+
+import { CaseMatter, CaseShare, User } from '@prisma/client';
+import { prisma } from './db';
+
+export type CaseAction = 'read' | 'comment' | 'edit' | 'delete' | 'share';
+
+// OWNER: runs a firm / bar account, STAFF: member of someone else's team
+export type TeamRole = 'OWNER' | 'STAFF' | 'INDIVIDUAL';
+
+export interface Actor {
+    user: User;
+    role: TeamRole;
+    orgOwnerId: number; // User id at the top of the actor's organization (themselves if not staff)
+}
+
+// How the actor relates to the person who created the case
+export type CaseRelation = 'CREATOR' | 'ORG_OWNER' | 'COLLEAGUE' | 'NONE';
+
+const RELATION_ACTIONS: Record<CaseRelation, CaseAction[]> = {
+    CREATOR: ['read', 'comment', 'edit', 'delete', 'share'],
+    ORG_OWNER: ['read', 'comment', 'edit', 'delete', 'share'],
+    COLLEAGUE: ['read', 'comment', 'edit'],
+    NONE: []
+};
+
+export type SharePermission = 'READ' | 'COMMENT' | 'EDIT';
+export const SHARE_PERMISSIONS: SharePermission[] = ['READ', 'COMMENT', 'EDIT'];
+
+// Shares never include delete or re-sharing
+const SHARE_ACTIONS: Record<SharePermission, CaseAction[]> = {
+    READ: ['read'],
+    COMMENT: ['read', 'comment'],
+    EDIT: ['read', 'comment', 'edit']
+};
+
+export type CaseAccessResult =
+    | { allowed: true; actor: Actor; case: CaseMatter }
+    | { allowed: false; reason: 'NO_ACCOUNT' | 'NOT_FOUND' | 'FORBIDDEN' };
+
+export function resolveRole(user: Pick<User, 'teamOwnerId' | 'accountType'>): TeamRole {
+    if (user.teamOwnerId) return 'STAFF';
+    if (user.accountType === 'FIRM' || user.accountType === 'BAR') return 'OWNER';
+    return 'INDIVIDUAL';
+}
+
+export function toActor(user: User): Actor {
+    return { user, role: resolveRole(user), orgOwnerId: user.teamOwnerId ?? user.id };
+}
+
+export async function resolveActor(telegramId: number | bigint): Promise<Actor | null> {
+    const user = await prisma.user.findUnique({ where: { telegramId: BigInt(telegramId) } });
+    return user ? toActor(user) : null;
+}
+
+export function caseRelation(actor: Actor, creator: Pick<User, 'id' | 'teamOwnerId'>): CaseRelation {
+    if (creator.id === actor.user.id) return 'CREATOR';
+
+    const creatorOrg = creator.teamOwnerId ?? creator.id;
+    if (creatorOrg !== actor.orgOwnerId) return 'NONE';
+
+    // Same organization: the owner controls every matter, staff work on them
+    return actor.role === 'STAFF' ? 'COLLEAGUE' : 'ORG_OWNER';
+}
+
+// Pure rule check - no database access
+export function isAllowed(actor: Actor, creator: Pick<User, 'id' | 'teamOwnerId'>, action: CaseAction): boolean {
+    return RELATION_ACTIONS[caseRelation(actor, creator)].includes(action);
+}
+
+export function isShareActive(share: Pick<CaseShare, 'status' | 'expiresAt'>, now: Date = new Date()): boolean {
+    return share.status === 'ACCEPTED' && (!share.expiresAt || share.expiresAt > now);
+}
+
+// Pure rule check for access through a share
+export function shareAllows(share: Pick<CaseShare, 'status' | 'expiresAt' | 'permission'>, action: CaseAction, now: Date = new Date()): boolean {
+    if (!isShareActive(share, now)) return false;
+    return (SHARE_ACTIONS[share.permission as SharePermission] || []).includes(action);
+}
+
+export async function authorizeCase(telegramId: number | bigint, caseId: number, action: CaseAction): Promise<CaseAccessResult> {
+    return evaluateAccess(telegramId, caseId, action, true);
+}
+
+// Same check without logging a denial - for deciding which buttons to show
+export async function canActOnCase(telegramId: number | bigint, caseId: number, action: CaseAction): Promise<boolean> {
+    return (await evaluateAccess(telegramId, caseId, action, false)).allowed;
+}
+
+async function evaluateAccess(telegramId: number | bigint, caseId: number, action: CaseAction, logDenial: boolean): Promise<CaseAccessResult> {
+    const actor = await resolveActor(telegramId);
+    if (!actor) return { allowed: false, reason: 'NO_ACCOUNT' };
+
+    const found = await prisma.caseMatter.findUnique({
+        where: { id: caseId },
+        include: { user: { select: { id: true, teamOwnerId: true } } }
+    });
+    if (!found) return { allowed: false, reason: 'NOT_FOUND' };
+
+    const { user: creator, ...c } = found;
+    if (!isAllowed(actor, creator, action) && !await sharedAccess(actor, caseId, action)) {
+        if (logDenial) console.warn(`[Auth] Denied ${action} on case ${caseId} for user ${actor.user.id} (${actor.role})`);
+        return { allowed: false, reason: 'FORBIDDEN' };
+    }
+
+    return { allowed: true, actor, case: c };
+}
+
+async function sharedAccess(actor: Actor, caseId: number, action: CaseAction): Promise<boolean> {
+    const share = await prisma.caseShare.findUnique({
+        where: { caseId_sharedWithId: { caseId, sharedWithId: actor.user.id } }
+    });
+    return !!share && shareAllows(share, action);
+}
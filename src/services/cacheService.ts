@@ -1,74 +1,150 @@
-// Simple in-memory cache for AI responses to reduce API costs
-// Cache similar queries to avoid redundant API calls
+// AI response cache
+// Completions are stored in Postgres so every bot instance shares them and a
+// redeploy doesn't empty the cache. The key is a hash of the whole prompt, the
+// provider and the model, scoped to the firm the request was made for: one
+// firm's case facts can never answer another firm's question. Entries expire
+// after AI_CACHE_TTL_HOURS; past AI_CACHE_MAX_ENTRIES the least recently used go.
 
-interface CacheEntry {
-    response: string;
-    timestamp: number;
+import crypto from 'crypto';
+import { prisma } from './db';
+import { ChatMessage } from './llm';
+import { currentUsageScope } from './usageService';
+
+const DEFAULT_TTL_HOURS = 24;
+const DEFAULT_MAX_ENTRIES = 2000;
+const SYSTEM_TENANT = 'system'; // Calls made outside any user's update
+
+export interface CacheTarget {
+    provider: string;
+    model: string;
+}
+
+export interface CacheStats {
+    enabled: boolean;
+    entries: number;
+    maxEntries: number;
+    ttlHours: number;
+    hits: number;        // Since the bot started
+    misses: number;
+    storedHits: number;  // Served by the entries still cached, across restarts
+    tenants: { tenant: string; entries: number }[]; // Largest first
+}
+
+// Hit/miss counters for this process
+const metrics = { hits: 0, misses: 0 };
+
+function enabled(): boolean {
+    return process.env.AI_CACHE !== 'off' && !!process.env.DATABASE_URL;
+}
+
+function ttlMs(): number {
+    return (Number(process.env.AI_CACHE_TTL_HOURS) || DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
 }
 
-const cache: Map<string, CacheEntry> = new Map();
-const CACHE_TTL = 60 * 60 * 1000; // 1 hour cache
-const MAX_CACHE_SIZE = 500; // Maximum entries
+function maxEntries(): number {
+    return Number(process.env.AI_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES;
+}
 
-// Generate cache key from query (normalize to catch similar queries)
-function generateCacheKey(query: string, context?: string): string {
-    const normalized = query
-        .toLowerCase()
-        .trim()
-        .replace(/\s+/g, ' ')
-        .substring(0, 200); // First 200 chars
+export function firmTenant(firmId: number): string {
+    return `firm:${firmId}`;
+}
 
-    const contextHash = context ?
-        context.substring(0, 100).replace(/\s+/g, ' ') : '';
+function currentTenant(): string {
+    const scope = currentUsageScope();
+    return scope ? firmTenant(scope.firmId) : SYSTEM_TENANT;
+}
 
-    return `${normalized}|${contextHash}`;
+function cacheKey(tenant: string, target: CacheTarget, messages: ChatMessage[], json: boolean): string {
+    return crypto.createHash('sha256')
+        .update(JSON.stringify([tenant, target.provider, target.model, json, messages]))
+        .digest('hex');
 }
 
-// Get cached response if exists and not expired
-export function getCached(query: string, context?: string): string | null {
-    const key = generateCacheKey(query, context);
-    const entry = cache.get(key);
+// The stored response for this prompt, or null. `targets` is the failover
+// chain: an answer stored after a failover is found too, but the provider that
+// would be asked first wins. Cache errors count as a miss.
+export async function getCachedResponse(targets: CacheTarget[], messages: ChatMessage[], json: boolean = false): Promise<string | null> {
+    if (!enabled() || targets.length === 0) return null;
 
-    if (!entry) return null;
+    const tenant = currentTenant();
+    const keys = targets.map(target => cacheKey(tenant, target, messages, json));
+    try {
+        const now = new Date();
+        const entries = await prisma.aiCacheEntry.findMany({ where: { key: { in: keys } } });
+        const expired = entries.filter(e => e.expiresAt < now).map(e => e.key);
+        if (expired.length > 0) await prisma.aiCacheEntry.deleteMany({ where: { key: { in: expired } } });
 
-    // Check if expired
-    if (Date.now() - entry.timestamp > CACHE_TTL) {
-        cache.delete(key);
+        const entry = keys.map(key => entries.find(e => e.key === key && e.expiresAt >= now)).find(e => e);
+        if (!entry) {
+            metrics.misses++;
+            return null;
+        }
+
+        await prisma.aiCacheEntry.update({ where: { key: entry.key }, data: { hits: { increment: 1 }, lastUsedAt: new Date() } });
+        metrics.hits++;
+        console.log(`[Cache] HIT ${entry.task} (${entry.provider}/${entry.model})`);
+        return entry.response;
+    } catch (e) {
+        console.error('[Cache] Lookup failed:', (e as any).message || e);
+        metrics.misses++;
         return null;
     }
-
-    console.log('[Cache] HIT for query');
-    return entry.response;
 }
 
-// Store response in cache
-export function setCache(query: string, response: string, context?: string): void {
-    // Evict old entries if cache is too large
-    if (cache.size >= MAX_CACHE_SIZE) {
-        const oldestKey = cache.keys().next().value;
-        if (oldestKey) cache.delete(oldestKey);
+// Store a response under the provider and model that produced it
+export async function cacheResponse(task: string, source: CacheTarget, messages: ChatMessage[], json: boolean, response: string): Promise<void> {
+    if (!enabled()) return;
+
+    const tenant = currentTenant();
+    const key = cacheKey(tenant, source, messages, json);
+    const expiresAt = new Date(Date.now() + ttlMs());
+    try {
+        await prisma.aiCacheEntry.upsert({
+            where: { key },
+            update: { response, expiresAt, lastUsedAt: new Date() },
+            create: { key, tenant, task, provider: source.provider, model: source.model, response, expiresAt }
+        });
+        await evictLeastRecentlyUsed();
+    } catch (e) {
+        console.error('[Cache] Store failed:', (e as any).message || e);
     }
+}
 
-    const key = generateCacheKey(query, context);
-    cache.set(key, {
-        response,
-        timestamp: Date.now()
-    });
+async function evictLeastRecentlyUsed(): Promise<void> {
+    const overflow = await prisma.aiCacheEntry.count() - maxEntries();
+    if (overflow <= 0) return;
+
+    const oldest = await prisma.aiCacheEntry.findMany({ orderBy: { lastUsedAt: 'asc' }, take: overflow, select: { key: true } });
+    await prisma.aiCacheEntry.deleteMany({ where: { key: { in: oldest.map(e => e.key) } } });
+    console.log(`[Cache] Evicted ${oldest.length} least recently used entries`);
+}
 
-    console.log(`[Cache] Stored response (${cache.size} entries)`);
+export async function purgeExpiredResponses(): Promise<number> {
+    const result = await prisma.aiCacheEntry.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    return result.count;
 }
 
-// Clear entire cache
-export function clearCache(): void {
-    cache.clear();
-    console.log('[Cache] Cleared');
+// Empty the whole cache, or only one tenant's entries
+export async function clearCache(tenant?: string): Promise<number> {
+    const result = await prisma.aiCacheEntry.deleteMany({ where: tenant ? { tenant } : {} });
+    console.log(`[Cache] Cleared ${result.count} entries${tenant ? ` for ${tenant}` : ''}`);
+    return result.count;
 }
 
-// Get cache stats
-export function getCacheStats(): { size: number; maxSize: number; ttlMinutes: number } {
+export async function getCacheStats(): Promise<CacheStats> {
+    const [entries, stored, tenants] = await Promise.all([
+        prisma.aiCacheEntry.count(),
+        prisma.aiCacheEntry.aggregate({ _sum: { hits: true } }),
+        prisma.aiCacheEntry.groupBy({ by: ['tenant'], _count: { _all: true } })
+    ]);
     return {
-        size: cache.size,
-        maxSize: MAX_CACHE_SIZE,
-        ttlMinutes: CACHE_TTL / 60000
+        enabled: enabled(),
+        entries,
+        maxEntries: maxEntries(),
+        ttlHours: ttlMs() / (60 * 60 * 1000),
+        hits: metrics.hits,
+        misses: metrics.misses,
+        storedHits: stored._sum.hits || 0,
+        tenants: tenants.map(t => ({ tenant: t.tenant, entries: t._count._all })).sort((a, b) => b.entries - a.entries)
     };
 }
@@ -0,0 +1,62 @@
+// Calendar export
+// buildIcs() output: RFC 5545 text escaping and folding of long lines at 75
+// octets, which must never cut a multi-byte character in two.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CaseEvent, CaseMatter } from '@prisma/client';
+import { EventWithCase, buildIcs } from './calendarService';
+
+const matter = { id: 7, refCode: 'LGL-007', title: 'Okafor v. Lagos State' } as CaseMatter;
+
+function event(title: string, fields: Partial<CaseEvent> = {}): EventWithCase {
+    return { id: 1, caseId: matter.id, title, date: '2026-03-12', time: null, kind: 'HEARING', case: matter, ...fields } as EventWithCase;
+}
+
+// The file's lines with folded ones joined back together
+function unfold(ics: string): string[] {
+    return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+function property(ics: string, name: string): string | undefined {
+    return unfold(ics).find(line => line.startsWith(`${name}:`))?.slice(name.length + 1);
+}
+
+describe('buildIcs', () => {
+    it('escapes backslashes, semicolons, commas and newlines in text', () => {
+        const ics = buildIcs([event('Hearing; bring exhibits A, B\nand C:\\docs')], 'Cases, 2026');
+        assert.equal(property(ics, 'SUMMARY'), '[LGL-007] Hearing\\; bring exhibits A\\, B\\nand C:\\\\docs');
+        assert.equal(property(ics, 'X-WR-CALNAME'), 'Cases\\, 2026');
+    });
+
+    it('ends every line with CRLF', () => {
+        const ics = buildIcs([event('Mention')], 'Cases');
+        assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+        assert.ok(!/[^\r]\n/.test(ics));
+    });
+
+    it('folds long multi-byte lines at 75 octets without splitting a character', () => {
+        const titles = [
+            'Слушание по делу о взыскании задолженности по договору поставки и неустойки',
+            '口頭弁論期日 東京地方裁判所 民事第一部 第三回 証人尋問 及び 書証の取調べ 準備書面の提出期限',
+            '⚖️ Hearing 🏛️ with the 👩🏾‍⚖️ judge – exhibits 📎📎📎📎📎📎📎📎📎📎📎📎📎📎📎📎📎📎'
+        ];
+        for (const title of titles) {
+            const ics = buildIcs([event(title)], 'Cases');
+            const lines = ics.split('\r\n');
+            assert.ok(lines.some(line => line.startsWith(' ')), 'expected a folded line');
+            for (const line of lines) {
+                assert.ok(Buffer.byteLength(line, 'utf8') <= 75, `${Buffer.byteLength(line, 'utf8')} octets: ${line}`);
+                // A cut surrogate pair would not survive the round trip through UTF-8
+                assert.equal(Buffer.from(line, 'utf8').toString('utf8'), line);
+            }
+            assert.equal(property(ics, 'SUMMARY'), `[LGL-007] ${title}`);
+        }
+    });
+
+    it('leaves lines of exactly 75 octets whole', () => {
+        const title = 'x'.repeat(75 - 'SUMMARY:[LGL-007] '.length);
+        const ics = buildIcs([event(title)], 'Cases');
+        assert.ok(ics.split('\r\n').includes(`SUMMARY:[LGL-007] ${title}`));
+    });
+});
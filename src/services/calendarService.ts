@@ -0,0 +1,271 @@
+// Case calendar
+// Hearings, filing dates, meetings and deadlines on a case. The reminder job
+// messages the case owner and everyone it is actively shared with as an
+// event comes up; EVENT_REMINDER_DAYS sets when (default "7,1,0" - a week
+// before, the day before and on the day). Each threshold is sent once per
+// event. Events export as an iCalendar (.ics) file for Outlook/Google.
+
+import { CaseEvent, CaseMatter, User } from '@prisma/client';
+import { prisma } from './db';
+import { Notifier } from './subscriptionService';
+import { isShareActive } from './authorization';
+import { Deadline } from '../core/limitation';
+import { IsoDate, daysBetween, formatDate, toIsoDate } from '../core/dates';
+
+export const EVENT_KINDS = ['DEADLINE', 'FILING', 'HEARING', 'MEETING', 'LIMITATION', 'CONTRACT', 'EVENT'] as const;
+export type EventKind = typeof EVENT_KINDS[number];
+
+const EVENT_ICONS: Record<EventKind, string> = {
+    DEADLINE: '⏰',
+    FILING: '📄',
+    HEARING: '⚖️',
+    MEETING: '🤝',
+    LIMITATION: '⏳',
+    CONTRACT: '📝',
+    EVENT: '📌'
+};
+
+const DEFAULT_REMINDER_DAYS = [7, 1, 0];
+
+export type EventWithCase = CaseEvent & { case: CaseMatter };
+
+export interface NewEvent {
+    title: string;
+    date: IsoDate;
+    time?: string | null;
+    kind?: EventKind;
+    source?: string;
+    // Where in a case document it was found
+    documentId?: number;
+    page?: number | null;
+    passage?: string;
+}
+
+// Largest first, e.g. [7, 1, 0]
+export function reminderDays(): number[] {
+    const configured = (process.env.EVENT_REMINDER_DAYS || '').split(',').map(d => parseInt(d.trim())).filter(d => !isNaN(d) && d >= 0);
+    return (configured.length > 0 ? configured : DEFAULT_REMINDER_DAYS).sort((a, b) => b - a);
+}
+
+export function isEventKind(value: string): value is EventKind {
+    return (EVENT_KINDS as readonly string[]).includes(value);
+}
+
+// "HH:MM" typed by a user, or null
+export function parseTime(value: string): string | null {
+    const match = value.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+    return match ? `${match[1].padStart(2, '0')}:${match[2]}` : null;
+}
+
+// Guess the kind from the title: "Hearing on motion" is a hearing, "File reply brief" a filing
+export function eventKindFor(title: string): EventKind {
+    const text = title.toLowerCase();
+    if (/\b(hearing|trial|mention|adjourn\w*|judgment|ruling)\b/.test(text)) return 'HEARING';
+    if (/\b(meet\w*|call|conference|consultation)\b/.test(text)) return 'MEETING';
+    if (/\b(file|filing|serve|service|brief|submit\w*|lodge)\b/.test(text)) return 'FILING';
+    return 'DEADLINE';
+}
+
+export async function createEvent(caseId: number, createdById: number | null, event: NewEvent): Promise<CaseEvent> {
+    return prisma.caseEvent.create({
+        data: {
+            caseId,
+            createdById,
+            title: event.title,
+            date: event.date,
+            time: event.time || null,
+            kind: event.kind || eventKindFor(event.title),
+            source: event.source,
+            documentId: event.documentId,
+            page: event.page,
+            passage: event.passage
+        }
+    });
+}
+
+// Put the limitation engine's deadlines on the calendar, skipping passed ones
+// and any already there. Returns how many were added.
+export async function addDeadlineEvents(c: CaseMatter, deadlines: Deadline[], createdById: number | null): Promise<number> {
+    const today = toIsoDate(new Date());
+    const existing = await prisma.caseEvent.findMany({ where: { caseId: c.id, source: { not: null } }, select: { source: true, date: true } });
+
+    let added = 0;
+    for (const d of deadlines) {
+        if (d.due < today || existing.some(e => e.source === d.id && e.date === d.due)) continue;
+        await createEvent(c.id, createdById, { title: d.label, date: d.due, kind: d.kind === 'limitation' ? 'LIMITATION' : 'FILING', source: d.id });
+        added++;
+    }
+    return added;
+}
+
+// Corrections to an entry. A date found in a document is remembered as found,
+// so the entry isn't offered again, and reminders start over for the new date.
+export async function updateEvent(event: CaseEvent, changes: Partial<Pick<NewEvent, 'title' | 'date' | 'time' | 'kind'>>): Promise<CaseEvent> {
+    const moved = changes.date !== undefined && changes.date !== event.date;
+    return prisma.caseEvent.update({
+        where: { id: event.id },
+        data: {
+            ...changes,
+            ...(moved ? { lastReminderDays: null } : {}),
+            ...(moved && event.passage && !event.foundDate ? { foundDate: event.date } : {})
+        }
+    });
+}
+
+export async function deleteEvent(eventId: number): Promise<void> {
+    await prisma.caseEvent.deleteMany({ where: { id: eventId } });
+}
+
+export async function getEvent(eventId: number): Promise<CaseEvent | null> {
+    return prisma.caseEvent.findUnique({ where: { id: eventId } });
+}
+
+// All of a case's events, past ones included, in date order
+export async function listCaseEvents(caseId: number): Promise<CaseEvent[]> {
+    return prisma.caseEvent.findMany({ where: { caseId }, orderBy: [{ date: 'asc' }, { time: 'asc' }] });
+}
+
+// Upcoming events on the user's own cases and the cases shared with them
+export async function listUpcomingEvents(user: User, limit: number = 20): Promise<EventWithCase[]> {
+    const events = await prisma.caseEvent.findMany({
+        where: {
+            date: { gte: toIsoDate(new Date()) },
+            case: {
+                OR: [
+                    { userId: user.id },
+                    { shares: { some: { sharedWithId: user.id, status: 'ACCEPTED' } } }
+                ]
+            }
+        },
+        include: { case: { include: { shares: { where: { sharedWithId: user.id } } } } },
+        orderBy: [{ date: 'asc' }, { time: 'asc' }]
+    });
+    // Drop cases whose share has since expired
+    return events
+        .filter(e => e.case.userId === user.id || e.case.shares.some(s => isShareActive(s)))
+        .slice(0, limit)
+        .map(({ case: { shares, ...c }, ...event }) => ({ ...event, case: c }));
+}
+
+export function eventIcon(kind: string): string {
+    return isEventKind(kind) ? EVENT_ICONS[kind] : EVENT_ICONS.DEADLINE;
+}
+
+// "HEARING" -> "Hearing"
+export function eventKindName(kind: string): string {
+    return kind.charAt(0) + kind.slice(1).toLowerCase();
+}
+
+function describeDaysLeft(days: number): string {
+    if (days < 0) return `${-days} day${days === -1 ? '' : 's'} ago`;
+    if (days === 0) return 'today';
+    if (days === 1) return 'tomorrow';
+    return `in ${days} days`;
+}
+
+export function formatEvent(event: CaseEvent, now: Date = new Date()): string {
+    const when = `${formatDate(event.date)}${event.time ? ` ${event.time}` : ''}`;
+    return `${eventIcon(event.kind)} ${when} - ${event.title} (${describeDaysLeft(daysBetween(toIsoDate(now), event.date))})`;
+}
+
+// Owner plus everyone with an active share, each once
+async function reminderRecipients(c: CaseMatter): Promise<User[]> {
+    const owner = await prisma.user.findUnique({ where: { id: c.userId } });
+    const shares = await prisma.caseShare.findMany({ where: { caseId: c.id, status: 'ACCEPTED' }, include: { sharedWith: true } });
+    const recipients = [...(owner ? [owner] : []), ...shares.filter(s => isShareActive(s)).map(s => s.sharedWith)];
+    return recipients.filter((user, i) => recipients.findIndex(u => u.id === user.id) === i);
+}
+
+// Send the reminders that are due. Scheduler entry point.
+export async function runEventReminders(notify: Notifier): Promise<void> {
+    const thresholds = reminderDays();
+    const today = toIsoDate(new Date());
+    const horizon = toIsoDate(new Date(Date.now() + thresholds[0] * 24 * 60 * 60 * 1000));
+    const events = await prisma.caseEvent.findMany({
+        where: { date: { gte: today, lte: horizon } },
+        include: { case: true }
+    });
+
+    let sent = 0;
+    for (const event of events) {
+        const daysLeft = daysBetween(today, event.date);
+        const threshold = [...thresholds].reverse().find(d => daysLeft <= d);
+        if (threshold === undefined) continue;
+        if (event.lastReminderDays !== null && event.lastReminderDays <= threshold) continue;
+
+        const ref = event.case.refCode || `Case #${event.case.id}`;
+        // Plain text - titles are typed by users and may not be valid Markdown
+        const message = `🔔 Reminder: ${ref}\n\n${formatEvent(event)}\n\n${event.case.title}`;
+        for (const user of await reminderRecipients(event.case)) {
+            try {
+                await notify(String(user.telegramId), message);
+            } catch (e) { /* User may have blocked bot */ }
+        }
+
+        await prisma.caseEvent.update({ where: { id: event.id }, data: { lastReminderDays: threshold } });
+        sent++;
+    }
+    if (sent > 0) console.log(`[Calendar] Sent reminders for ${sent} events`);
+}
+
+// iCalendar text escaping (RFC 5545 3.3.11)
+function icsText(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space, which
+// counts towards the 75. Split between characters, never inside one.
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let part = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char, 'utf8');
+        if (octets + size > (parts.length === 0 ? 75 : 74)) {
+            parts.push(part);
+            part = '';
+            octets = 0;
+        }
+        part += char;
+        octets += size;
+    }
+    parts.push(part);
+    return parts.join('\r\n ');
+}
+
+function icsStamp(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Calendar file for the events. All-day events span their date; timed ones
+// last an hour in the calendar's local time.
+export function buildIcs(events: EventWithCase[], name: string): string {
+    const stamp = icsStamp(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//CaseView//Case Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${icsText(name)}`
+    ];
+
+    for (const event of events) {
+        const day = event.date.replace(/-/g, '');
+        const ref = event.case.refCode || `Case #${event.case.id}`;
+        lines.push('BEGIN:VEVENT', `UID:case-event-${event.id}@caseview`, `DTSTAMP:${stamp}`);
+        if (event.time) {
+            lines.push(`DTSTART:${day}T${event.time.replace(':', '')}00`, 'DURATION:PT1H');
+        } else {
+            const next = toIsoDate(new Date(Date.parse(`${event.date}T00:00:00Z`) + 24 * 60 * 60 * 1000)).replace(/-/g, '');
+            lines.push(`DTSTART;VALUE=DATE:${day}`, `DTEND;VALUE=DATE:${next}`);
+        }
+        lines.push(
+            `SUMMARY:${icsText(`[${ref}] ${event.title}`)}`,
+            `DESCRIPTION:${icsText(`${event.kind} - ${event.case.title}`)}`,
+            `CATEGORIES:${event.kind}`,
+            'END:VEVENT'
+        );
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,107 @@
+// Case list queries for /history
+// Paging, filters (status / jurisdiction / category), keyword search and
+// sorting over either the user's own cases or, for team owners, every case
+// created inside their organization.
+
+import { CaseMatter, Prisma, User } from '@prisma/client';
+import { prisma } from './db';
+
+export const HISTORY_PAGE_SIZE = 8;
+
+export type HistoryScope = 'mine' | 'firm';
+export type HistorySort = 'updated' | 'created';
+export type HistoryFacet = 'status' | 'jurisdiction' | 'category';
+
+// Kept in the session so paging buttons stay small enough for callback_data
+export interface HistoryQuery {
+    scope: HistoryScope;
+    sort: HistorySort;
+    page: number;           // 0-based
+    search?: string;
+    status?: string;
+    jurisdiction?: string;
+    category?: string;
+}
+
+export type CaseListItem = CaseMatter & { user: Pick<User, 'id' | 'username' | 'fullName' | 'firstName'> };
+
+export interface CaseListPage {
+    cases: CaseListItem[];
+    total: number;
+    page: number;
+    pages: number;
+}
+
+export const HISTORY_FACETS: HistoryFacet[] = ['status', 'jurisdiction', 'category'];
+
+export function defaultHistoryQuery(): HistoryQuery {
+    return { scope: 'mine', sort: 'updated', page: 0 };
+}
+
+export function hasFilters(query: HistoryQuery): boolean {
+    return !!(query.search || query.status || query.jurisdiction || query.category);
+}
+
+// Only owners of a FIRM / BAR account can see their staff's cases
+export function canViewFirm(user: Pick<User, 'teamOwnerId' | 'accountType'>): boolean {
+    return !user.teamOwnerId && (user.accountType === 'FIRM' || user.accountType === 'BAR');
+}
+
+function scopeWhere(user: User, scope: HistoryScope): Prisma.CaseMatterWhereInput {
+    if (scope === 'firm' && canViewFirm(user)) {
+        return { user: { OR: [{ id: user.id }, { teamOwnerId: user.id }] } };
+    }
+    return { userId: user.id };
+}
+
+// Every search word has to appear in the title, description, category or
+// the key issues of one of the case's analyses
+function searchWhere(search: string): Prisma.CaseMatterWhereInput[] {
+    return search.split(/\s+/).filter(Boolean).map(term => ({
+        OR: [
+            { title: { contains: term, mode: 'insensitive' } },
+            { description: { contains: term, mode: 'insensitive' } },
+            { refCode: { contains: term, mode: 'insensitive' } },
+            { category: { contains: term, mode: 'insensitive' } },
+            { analyses: { some: { keyIssues: { contains: term, mode: 'insensitive' } } } }
+        ]
+    }));
+}
+
+function buildWhere(user: User, query: HistoryQuery): Prisma.CaseMatterWhereInput {
+    const and: Prisma.CaseMatterWhereInput[] = [scopeWhere(user, query.scope)];
+    // Archived matters stay out of the way unless asked for explicitly
+    and.push(query.status ? { status: query.status } : { status: { not: 'ARCHIVED' } });
+    if (query.jurisdiction) and.push({ jurisdiction: query.jurisdiction });
+    if (query.category) and.push({ category: query.category });
+    if (query.search) and.push(...searchWhere(query.search));
+    return { AND: and };
+}
+
+export async function listCases(user: User, query: HistoryQuery): Promise<CaseListPage> {
+    const where = buildWhere(user, query);
+    const total = await prisma.caseMatter.count({ where });
+    const pages = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+    const page = Math.min(Math.max(query.page, 0), pages - 1);
+
+    const cases = await prisma.caseMatter.findMany({
+        where,
+        include: { user: { select: { id: true, username: true, fullName: true, firstName: true } } },
+        orderBy: query.sort === 'created' ? { createdAt: 'desc' } : { updatedAt: 'desc' },
+        skip: page * HISTORY_PAGE_SIZE,
+        take: HISTORY_PAGE_SIZE
+    });
+
+    return { cases, total, page, pages };
+}
+
+// Values a facet actually takes in the current scope, for the filter menu
+export async function facetValues(user: User, scope: HistoryScope, facet: HistoryFacet): Promise<string[]> {
+    const rows = await prisma.caseMatter.findMany({
+        where: { AND: [scopeWhere(user, scope), { [facet]: { not: null } }] },
+        distinct: [facet],
+        select: { status: true, jurisdiction: true, category: true },
+        orderBy: { [facet]: 'asc' }
+    });
+    return rows.map(r => r[facet]).filter((v): v is string => !!v);
+}
@@ -0,0 +1,116 @@
+// Case lifecycle
+// A matter moves Intake → Open → In Litigation → Settled / Judgment →
+// Closed → Archived. Only the transitions below are allowed, and every change
+// is recorded in CaseStatusChange with who made it.
+
+import { CaseStatusChange } from '@prisma/client';
+import { prisma } from './db';
+
+export const CASE_STATUSES = ['INTAKE', 'OPEN', 'IN_LITIGATION', 'SETTLED', 'JUDGMENT', 'CLOSED', 'ARCHIVED'] as const;
+export type CaseStatus = typeof CASE_STATUSES[number];
+
+export const STATUS_NAMES: Record<CaseStatus, string> = {
+    INTAKE: 'Intake',
+    OPEN: 'Open',
+    IN_LITIGATION: 'In Litigation',
+    SETTLED: 'Settled',
+    JUDGMENT: 'Judgment',
+    CLOSED: 'Closed',
+    ARCHIVED: 'Archived'
+};
+
+const STATUS_ICONS: Record<CaseStatus, string> = {
+    INTAKE: '📥',
+    OPEN: '📂',
+    IN_LITIGATION: '⚖️',
+    SETTLED: '🤝',
+    JUDGMENT: '🏛',
+    CLOSED: '✅',
+    ARCHIVED: '🗄'
+};
+
+// Closed matters can be reopened, archived ones restored to Closed
+const TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+    INTAKE: ['OPEN', 'CLOSED'],
+    OPEN: ['IN_LITIGATION', 'SETTLED', 'CLOSED'],
+    IN_LITIGATION: ['SETTLED', 'JUDGMENT', 'CLOSED'],
+    SETTLED: ['CLOSED'],
+    JUDGMENT: ['IN_LITIGATION', 'CLOSED'],
+    CLOSED: ['ARCHIVED', 'OPEN'],
+    ARCHIVED: ['CLOSED']
+};
+
+export function isCaseStatus(value: string): value is CaseStatus {
+    return (CASE_STATUSES as readonly string[]).includes(value);
+}
+
+export function statusName(status: string): string {
+    return isCaseStatus(status) ? STATUS_NAMES[status] : status;
+}
+
+export function statusLabel(status: string): string {
+    return isCaseStatus(status) ? `${STATUS_ICONS[status]} ${STATUS_NAMES[status]}` : status;
+}
+
+// Unknown legacy values behave like OPEN
+export function allowedTransitions(from: string): CaseStatus[] {
+    return isCaseStatus(from) ? TRANSITIONS[from] : TRANSITIONS.OPEN;
+}
+
+export function canTransition(from: string, to: string): boolean {
+    return isCaseStatus(to) && allowedTransitions(from).includes(to);
+}
+
+export type StatusChangeResult =
+    | { ok: true; change: CaseStatusChange }
+    | { ok: false; error: string };
+
+export async function changeCaseStatus(caseId: number, from: string, to: CaseStatus, changedById: number): Promise<StatusChangeResult> {
+    if (!canTransition(from, to)) {
+        return { ok: false, error: `A case cannot move from ${statusName(from)} to ${statusName(to)}.` };
+    }
+
+    // Only apply if nobody changed the status in the meantime
+    return prisma.$transaction(async (tx) => {
+        const updated = await tx.caseMatter.updateMany({ where: { id: caseId, status: from }, data: { status: to } });
+        if (updated.count === 0) {
+            return { ok: false as const, error: 'The case status was changed by someone else. Please reopen the case.' };
+        }
+
+        const change = await tx.caseStatusChange.create({
+            data: { caseId, fromStatus: from, toStatus: to, changedById }
+        });
+        console.log(`[Status] Case ${caseId}: ${from} -> ${to} by user ${changedById}`);
+        return { ok: true as const, change };
+    });
+}
+
+export interface StatusTimelineEntry {
+    status: string;
+    at: Date;
+    by?: string;
+}
+
+// Full status history, starting with the status the case was created in
+export async function getStatusTimeline(c: { id: number; status: string; createdAt: Date }): Promise<StatusTimelineEntry[]> {
+    const changes = await prisma.caseStatusChange.findMany({
+        where: { caseId: c.id },
+        include: { changedBy: { select: { username: true, fullName: true, firstName: true } } },
+        orderBy: { createdAt: 'asc' }
+    });
+
+    const initial = changes[0]?.fromStatus ?? c.status;
+    return [
+        { status: initial, at: c.createdAt },
+        ...changes.map(ch => ({
+            status: ch.toStatus,
+            at: ch.createdAt,
+            by: ch.changedBy ? (ch.changedBy.username ? `@${ch.changedBy.username}` : ch.changedBy.fullName || ch.changedBy.firstName || undefined) : undefined
+        }))
+    ];
+}
+
+export function formatTimelineEntry(entry: StatusTimelineEntry): string {
+    const date = entry.at.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+    return `${statusName(entry.status)} - ${date}${entry.by ? ` by ${entry.by}` : ''}`;
+}
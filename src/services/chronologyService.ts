@@ -0,0 +1,98 @@
+// Case chronology
+// The case timeline read as a litigator's chronology: every CaseEvent in date
+// order with where it came from. Building it adds the dates written in the
+// intake facts, the case documents and the questions asked in Q&A to the
+// lawyer's own entries and the calculated deadlines. Each build only reads
+// what was added since the last one (CaseMatter.chronologyBuiltAt), so an
+// entry the lawyer removed doesn't come back.
+
+import { CaseEvent, CaseMatter, Document } from '@prisma/client';
+import { prisma } from './db';
+import { createEvent, listCaseEvents } from './calendarService';
+import { DOCUMENT_EVENT_SOURCE, addDocumentEvents, caseDayFirst, findDocumentEvents, isSameEvent } from './documentEventService';
+import { documentLabel } from './documentService';
+import { parseQaHistory } from './qaMemoryService';
+import { extractEvents } from '../core/eventExtraction';
+import { IsoDate } from '../core/dates';
+
+export const FACTS_EVENT_SOURCE = 'facts';
+export const QA_EVENT_SOURCE = 'qa';
+
+export interface ChronologyEntry {
+    id: number;
+    date: IsoDate;
+    time: string | null;
+    kind: string;
+    title: string;
+    source: string;         // e.g. "contract.pdf, p. 2", "Q&A", "Added manually"
+    passage: string | null; // The sentence it was found in
+}
+
+// Add the dates in a piece of text, skipping ones already on the timeline
+async function addTextEvents(c: CaseMatter, text: string, source: string, createdById: number | null): Promise<number> {
+    const existing = await prisma.caseEvent.findMany({ where: { caseId: c.id, source }, select: { date: true, passage: true, foundDate: true } });
+    let added = 0;
+    for (const found of extractEvents(text, { dayFirst: caseDayFirst(c) })) {
+        if (existing.some(e => isSameEvent(e, found))) continue;
+        await createEvent(c.id, createdById, { title: found.title, date: found.date, kind: found.kind, source, passage: found.passage });
+        existing.push({ date: found.date, passage: found.passage, foundDate: null });
+        added++;
+    }
+    return added;
+}
+
+// Put the dates from facts, documents and Q&A added since the last build on
+// the timeline. Returns how many entries were added.
+export async function buildChronology(c: CaseMatter, createdById: number | null): Promise<number> {
+    const since = c.chronologyBuiltAt;
+    const builtAt = new Date();
+    const docs = await prisma.document.findMany({ where: { caseId: c.id }, orderBy: { createdAt: 'asc' } });
+    let added = 0;
+
+    // The document a case was opened from is also its (truncated) description
+    const description = c.description || '';
+    if (!since && description && !docs.some(d => d.textContent?.startsWith(description))) {
+        added += await addTextEvents(c, description, FACTS_EVENT_SOURCE, createdById);
+    }
+
+    for (const doc of docs.filter(d => !since || d.createdAt > since)) {
+        if (!doc.textContent && doc.type !== 'PDF') continue;
+        added += await addDocumentEvents(doc, await findDocumentEvents(doc), createdById);
+    }
+
+    // Only the lawyer's questions - answers restate the documents' dates
+    const questions = parseQaHistory(c.qaHistory)
+        .filter(e => e.role === 'user' && (!since || (e.timestamp && new Date(e.timestamp) > since)))
+        .map(e => e.content);
+    if (questions.length > 0) added += await addTextEvents(c, questions.join('\n'), QA_EVENT_SOURCE, createdById);
+
+    await prisma.caseMatter.update({ where: { id: c.id }, data: { chronologyBuiltAt: builtAt } });
+    return added;
+}
+
+function sourceLabel(event: CaseEvent, docs: Document[]): string {
+    if (event.source === DOCUMENT_EVENT_SOURCE) {
+        const doc = docs.find(d => d.id === event.documentId);
+        const label = doc ? documentLabel(doc) : 'Removed document';
+        return event.page ? `${label}, p. ${event.page}` : label;
+    }
+    if (event.source === FACTS_EVENT_SOURCE) return 'Case facts';
+    if (event.source === QA_EVENT_SOURCE) return 'Q&A';
+    if (event.source) return 'Calculated deadline';
+    return 'Added manually';
+}
+
+// Every entry on the case timeline, in date order
+export async function listChronology(c: CaseMatter): Promise<ChronologyEntry[]> {
+    const events = await listCaseEvents(c.id);
+    const docs = await prisma.document.findMany({ where: { caseId: c.id } });
+    return events.map(e => ({
+        id: e.id,
+        date: e.date,
+        time: e.time,
+        kind: e.kind,
+        title: e.title,
+        source: sourceLabel(e, docs),
+        passage: e.passage
+    }));
+}
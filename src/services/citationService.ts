@@ -0,0 +1,83 @@
+// Answer sources
+// Grounded answers mark what they rely on with inline markers like [2]. The
+// numbered sources are case-document passages from retrievalService and, when
+// the user has searched for them, precedent snippets. An answer keeps the
+// sources it actually cited so "📎 Sources" and exports can quote them later.
+
+import { CaseMatter } from '@prisma/client';
+import { retrievePassages, formatCitation, Passage } from './retrievalService';
+import { LegalCase } from './legalResearch';
+
+const EXCERPT_CHARS = 600;
+const DESCRIPTION_CHARS = 3000;
+const FALLBACK_FACTS_CHARS = 15000; // Leaves room for the sources within the prompt limit
+const MAX_PRECEDENTS = 3;
+
+export interface AnswerSource {
+    marker: number;
+    kind: 'document' | 'precedent';
+    label: string;   // "Lease.pdf, p. 4" or "Smith v Jones (CourtListener)"
+    excerpt: string;
+    url?: string;
+}
+
+export interface SourcedContext {
+    context: string;         // Case facts plus the numbered sources, for the prompt
+    sources: AnswerSource[]; // Everything offered to the model
+}
+
+function excerpt(text: string): string {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    return clean.length > EXCERPT_CHARS ? `${clean.substring(0, EXCERPT_CHARS)}…` : clean;
+}
+
+function passageSource(passage: Passage, marker: number): AnswerSource {
+    return { marker, kind: 'document', label: formatCitation(passage), excerpt: excerpt(passage.text) };
+}
+
+function precedentSource(precedent: LegalCase, marker: number): AnswerSource {
+    const citation = precedent.citation ? `, ${precedent.citation}` : '';
+    return { marker, kind: 'precedent', label: `${precedent.name}${citation} (${precedent.source})`, excerpt: excerpt(precedent.snippet), url: precedent.url };
+}
+
+// Case passages relevant to `query` and any precedents found for the case, numbered for citation.
+// Without searchable documents the full case facts are used instead of passages.
+export async function sourcedContext(c: CaseMatter | null, query: string, fallbackFacts: string, precedents: LegalCase[] = []): Promise<SourcedContext> {
+    const passages = c ? await retrievePassages(c.id, query) : [];
+    const sources = [
+        ...passages.map((p, i) => passageSource(p, i + 1)),
+        ...precedents.slice(0, MAX_PRECEDENTS).map((p, i) => precedentSource(p, passages.length + i + 1))
+    ];
+    if (sources.length === 0) return { context: fallbackFacts, sources };
+
+    let context = passages.length > 0 && c
+        ? `CASE: ${c.title}\n${(c.description || '').substring(0, DESCRIPTION_CHARS)}`
+        : fallbackFacts.substring(0, FALLBACK_FACTS_CHARS);
+    context += `\n\nNUMBERED SOURCES:\n`;
+    sources.forEach(s => {
+        const text = s.kind === 'document' ? passages[s.marker - 1].text : s.excerpt;
+        context += `\n[${s.marker}] ${s.kind === 'precedent' ? 'Precedent: ' : ''}${s.label}\n${text}\n`;
+    });
+    return { context, sources };
+}
+
+// The sources an answer refers to with [n] markers
+export function citedSources(answer: string, sources: AnswerSource[]): AnswerSource[] {
+    const markers = new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), m => parseInt(m[1])));
+    return sources.filter(s => markers.has(s.marker));
+}
+
+// Drop [n] markers, e.g. when an old answer is replayed to the model with different numbering
+export function stripCitationMarkers(text: string): string {
+    return text.replace(/ ?\[\d+\]/g, '');
+}
+
+// Plain-text list of sources, as in exports and message footers
+export function formatSourceList(sources: AnswerSource[], withExcerpts: boolean = true): string {
+    return sources.map(s => {
+        let line = `[${s.marker}] ${s.label}`;
+        if (withExcerpts) line += `\n"${s.excerpt}"`;
+        if (withExcerpts && s.url) line += `\n${s.url}`;
+        return line;
+    }).join(withExcerpts ? '\n\n' : '\n');
+}
@@ -0,0 +1,15 @@
+import { PrismaClient } from '@prisma/client';
+
+// 🛠️ DATABASE_URL AUTO-FIX (Must be before Prisma Client creation)
+if (process.env.DATABASE_URL) {
+    let dbUrl = process.env.DATABASE_URL.replace(/['"]/g, '').trim();
+    if (!dbUrl.startsWith('postgresql://') && !dbUrl.startsWith('postgres://')) {
+        console.warn('⚠️ DATABASE_URL missing protocol in db.ts. Fixing...');
+        dbUrl = `postgresql://${dbUrl}`;
+    }
+    process.env.DATABASE_URL = dbUrl;
+}
+
+console.log('[DB] Initializing Prisma Client...');
+export const prisma = new PrismaClient();
+console.log('[DB] Prisma Client created.');
@@ -0,0 +1,78 @@
+// Case deadlines
+// Runs the limitation engine over a case's facts and documents and keeps the
+// report on the case (CaseMatter.deadlines), so the case view can show the
+// next deadline without recomputing. A claim type or accrual date the lawyer
+// sets is kept and used on every later run. Cases whose forum has no
+// jurisdiction profile get no deadlines.
+
+import { CaseMatter } from '@prisma/client';
+import { prisma } from './db';
+import { buildCaseFacts } from './documentService';
+import { ClaimType, JURISDICTION_PROFILES, JurisdictionProfile, isClaimType, isJurisdictionId, resolveJurisdiction } from '../core/jurisdictions';
+import { Deadline, DeadlineReport, computeDeadlines, daysRemaining } from '../core/limitation';
+import { IsoDate, formatDate } from '../core/dates';
+
+// Deadlines closer than this are flagged
+const URGENT_DAYS = 30;
+
+export interface DeadlineOverrides {
+    claim?: ClaimType;
+    accrual?: IsoDate;
+}
+
+// The profile stored at intake, or one resolved from the forum fields
+export function caseProfile(c: CaseMatter): JurisdictionProfile | null {
+    if (c.jurisdictionProfile && isJurisdictionId(c.jurisdictionProfile)) return JURISDICTION_PROFILES[c.jurisdictionProfile];
+    return resolveJurisdiction(c);
+}
+
+// Recompute and store the case's deadlines. Overrides are saved for later runs.
+export async function refreshCaseDeadlines(c: CaseMatter, overrides: DeadlineOverrides = {}): Promise<DeadlineReport | null> {
+    const profile = caseProfile(c);
+    if (!profile) return null;
+
+    const savedClaim = c.limitationClaim && isClaimType(c.limitationClaim) ? c.limitationClaim : undefined;
+    const report = computeDeadlines(await buildCaseFacts(c), profile, {
+        claim: overrides.claim || savedClaim,
+        accrual: overrides.accrual || c.accrualDate || undefined,
+        category: c.category
+    });
+
+    await prisma.caseMatter.update({
+        where: { id: c.id },
+        data: {
+            deadlines: JSON.stringify(report),
+            jurisdictionProfile: profile.id,
+            ...(overrides.claim ? { limitationClaim: overrides.claim } : {}),
+            ...(overrides.accrual ? { accrualDate: overrides.accrual } : {})
+        }
+    });
+    return report;
+}
+
+// The report stored by the last run, or null
+export function getCaseDeadlines(c: CaseMatter): DeadlineReport | null {
+    if (!c.deadlines) return null;
+    try {
+        return JSON.parse(c.deadlines) as DeadlineReport;
+    } catch {
+        return null;
+    }
+}
+
+// The soonest deadline that hasn't passed
+export function nextDeadline(report: DeadlineReport, now: Date = new Date()): Deadline | null {
+    return report.deadlines.find(d => daysRemaining(d, now) >= 0) || null;
+}
+
+export function formatDeadline(d: Deadline, now: Date = new Date()): string {
+    const left = daysRemaining(d, now);
+    const plural = (n: number) => `${n} day${n === 1 ? '' : 's'}`;
+    const status = left < 0 ? `⛔ passed ${plural(-left)} ago`
+        : left === 0 ? '⚠️ due today'
+        : left <= URGENT_DAYS ? `⚠️ ${plural(left)} left`
+        : `${plural(left)} left`;
+    let line = `${d.label}: ${formatDate(d.due)} (${status})`;
+    if (d.movedFrom) line += ` - moved from ${formatDate(d.movedFrom)}, ${d.movedReason}`;
+    return line;
+}
@@ -0,0 +1,78 @@
+// Dates found in case documents
+// Mines an uploaded document's text for hearings, contract dates, deadlines
+// and other dated events, and puts the ones the lawyer picks on the case
+// timeline as CaseEvents linked to the document, page and sentence they came
+// from. The list is rebuilt from the document each time and keeps its order,
+// so a candidate's position can be used in a button.
+
+import { CaseEvent, CaseMatter, Document } from '@prisma/client';
+import { prisma } from './db';
+import { documentPages } from './retrievalService';
+import { caseProfile } from './deadlineService';
+import { createEvent } from './calendarService';
+import { ExtractedEvent, ExtractedEventKind, extractEvents } from '../core/eventExtraction';
+
+export const DOCUMENT_EVENT_SOURCE = 'document';
+
+const KIND_NAMES: Record<ExtractedEventKind, string> = {
+    HEARING: 'hearing',
+    DEADLINE: 'deadline',
+    CONTRACT: 'contract date',
+    EVENT: 'other date'
+};
+
+export interface DocumentEvent extends ExtractedEvent {
+    page: number | null;
+    added: boolean; // Already on the case timeline
+}
+
+// Also recognises an entry whose date the lawyer has since corrected
+export function isSameEvent(event: Pick<CaseEvent, 'date' | 'passage' | 'foundDate'>, found: ExtractedEvent): boolean {
+    return (event.foundDate || event.date) === found.date && event.passage === found.passage;
+}
+
+// US cases read "03/04/2021" as March 4
+export function caseDayFirst(c: CaseMatter | null): boolean {
+    return !(c && caseProfile(c)?.id.startsWith('US'));
+}
+
+// Every dated event in the document, page by page
+export async function findDocumentEvents(doc: Document): Promise<DocumentEvent[]> {
+    const dayFirst = caseDayFirst(await prisma.caseMatter.findUnique({ where: { id: doc.caseId } }));
+    const existing = await prisma.caseEvent.findMany({ where: { documentId: doc.id }, select: { date: true, passage: true, foundDate: true } });
+
+    return (await documentPages(doc)).flatMap(p => extractEvents(p.text, { dayFirst }).map(found => ({
+        ...found,
+        page: p.page,
+        added: existing.some(e => isSameEvent(e, found))
+    })));
+}
+
+// Put the picked candidates on the timeline, skipping ones already there.
+// Returns how many were added.
+export async function addDocumentEvents(doc: Document, events: DocumentEvent[], createdById: number | null): Promise<number> {
+    let added = 0;
+    for (const found of events.filter(e => !e.added)) {
+        await createEvent(doc.caseId, createdById, {
+            title: found.title,
+            date: found.date,
+            kind: found.kind,
+            source: DOCUMENT_EVENT_SOURCE,
+            documentId: doc.id,
+            page: found.page,
+            passage: found.passage
+        });
+        found.added = true;
+        added++;
+    }
+    return added;
+}
+
+// "1 hearing, 2 contract dates"
+export function summarizeDocumentEvents(events: ExtractedEvent[]): string {
+    return (Object.keys(KIND_NAMES) as ExtractedEventKind[])
+        .map(kind => ({ kind, count: events.filter(e => e.kind === kind).length }))
+        .filter(k => k.count > 0)
+        .map(k => `${k.count} ${KIND_NAMES[k.kind]}${k.count === 1 ? '' : 's'}`)
+        .join(', ');
+}
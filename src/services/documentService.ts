@@ -0,0 +1,125 @@
+// Case documents
+// Every upload, OCR image, voice note and added link becomes a Document row
+// pointing at the original file in the file store.
+
+import path from 'path';
+import { CaseMatter, Document } from '@prisma/client';
+import { prisma } from './db';
+import { StoredFile, StorageBackend, readStoredFile, deleteStoredFile } from './fileStorage';
+
+const TYPE_ICONS: Record<string, string> = {
+    PDF: '📄',
+    WORD: '📝',
+    IMAGE: '🖼',
+    AUDIO: '🎤',
+    VIDEO: '🎥',
+    FILE: '📎'
+};
+
+export function documentTypeFromMime(mimeType: string): string {
+    if (mimeType.includes('pdf')) return 'PDF';
+    if (mimeType.includes('word') || mimeType.includes('officedocument')) return 'WORD';
+    if (mimeType.startsWith('image')) return 'IMAGE';
+    if (mimeType.startsWith('audio')) return 'AUDIO';
+    if (mimeType.startsWith('video')) return 'VIDEO';
+    return 'FILE';
+}
+
+// Best guess for links, which rarely come with a useful name
+export function mimeFromFileName(fileName: string): string {
+    const ext = path.extname(fileName).toLowerCase();
+    switch (ext) {
+        case '.docx': return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+        case '.doc': return 'application/msword';
+        case '.jpg':
+        case '.jpeg': return 'image/jpeg';
+        case '.png': return 'image/png';
+        default: return 'application/pdf'; // extractor decides
+    }
+}
+
+export function documentIcon(doc: Document): string {
+    return TYPE_ICONS[doc.type] || TYPE_ICONS.FILE;
+}
+
+export function documentLabel(doc: Document): string {
+    return doc.fileName || (doc.sourceUrl ? doc.sourceUrl.replace(/^https?:\/\//, '') : `Document #${doc.id}`);
+}
+
+// Attach a stored file (and/or its extracted text) to a case
+export async function addDocument(caseId: number, file: StoredFile | undefined, options: { textContent?: string; sourceUrl?: string; type?: string } = {}): Promise<Document> {
+    const doc = await prisma.document.create({
+        data: {
+            caseId,
+            type: options.type || documentTypeFromMime(file?.mimeType || 'text/plain'),
+            filePath: file?.key,
+            storage: file?.storage,
+            fileName: file?.fileName,
+            mimeType: file?.mimeType,
+            size: file?.size,
+            sourceUrl: options.sourceUrl,
+            textContent: options.textContent
+        }
+    });
+    console.log(`[Documents] Added #${doc.id} (${doc.type}) to case ${caseId}`);
+    return doc;
+}
+
+export async function listDocuments(caseId: number): Promise<Document[]> {
+    return prisma.document.findMany({ where: { caseId }, orderBy: { createdAt: 'asc' } });
+}
+
+// Original bytes of a document, or null when only the extracted text was kept
+export async function getDocumentFile(doc: Document): Promise<Buffer | null> {
+    if (!doc.filePath || !doc.storage) return null;
+    return readStoredFile(doc.storage as StorageBackend, doc.filePath);
+}
+
+export async function removeDocument(documentId: number): Promise<Document | null> {
+    const doc = await prisma.document.findUnique({ where: { id: documentId } });
+    if (!doc) return null;
+
+    await prisma.document.delete({ where: { id: documentId } });
+    if (doc.filePath && doc.storage) {
+        await deleteStoredFile(doc.storage as StorageBackend, doc.filePath);
+    }
+    return doc;
+}
+
+// Must run before deleting cases - removes the rows and their stored files
+export async function removeCaseDocuments(caseIds: number[]): Promise<number> {
+    const docs = await prisma.document.findMany({ where: { caseId: { in: caseIds } } });
+    await prisma.document.deleteMany({ where: { caseId: { in: caseIds } } });
+    for (const doc of docs) {
+        if (doc.filePath && doc.storage) {
+            await deleteStoredFile(doc.storage as StorageBackend, doc.filePath);
+        }
+    }
+    return docs.length;
+}
+
+// Drop an upload that never made it into a case (cancelled, discarded, failed)
+export async function discardStoredFile(file: StoredFile | undefined): Promise<void> {
+    if (file) await deleteStoredFile(file.storage, file.key);
+}
+
+// Case facts for the AI: the intake description plus the text of every document
+export async function buildCaseFacts(c: CaseMatter): Promise<string> {
+    const docs = await prisma.document.findMany({
+        where: { caseId: c.id, textContent: { not: null } },
+        orderBy: { createdAt: 'asc' }
+    });
+
+    const description = c.description || '';
+    let facts = description;
+    docs.forEach(doc => {
+        const text = doc.textContent!;
+        // The document a case was opened from is its (truncated) description - use the full text instead
+        if (description && text.startsWith(description)) {
+            facts = text + facts.substring(description.length);
+            return;
+        }
+        facts += `\n\n[Document: ${documentLabel(doc)}]\n${text}`;
+    });
+    return facts;
+}
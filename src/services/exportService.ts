@@ -1,21 +1,42 @@
 import PDFDocument from 'pdfkit';
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, BorderStyle } from 'docx';
+import { Document, Packer, Paragraph, TextRun, HeadingLevel, BorderStyle, Table, TableRow, TableCell, WidthType, ShadingType } from 'docx';
+import { StatusTimelineEntry, formatTimelineEntry, statusName } from './caseStatusService';
+import { AnswerSource } from './citationService';
+import { ChronologyEntry } from './chronologyService';
+import { eventKindName } from './calendarService';
+import { formatDate } from '../core/dates';
 
 interface ConversationItem {
     role: 'user' | 'bot';
     content: string;
     timestamp?: Date;
+    sources?: AnswerSource[];
 }
 
 interface ExportData {
     refCode: string;
     title: string;
     status: string;
+    statusTimeline?: StatusTimelineEntry[];
     analysis?: string;
     conversationHistory?: ConversationItem[];
     scenarios?: string; // JSON string of scenarios
 }
 
+interface ChronologyExport {
+    refCode: string;
+    title: string;
+    entries: ChronologyEntry[];
+}
+
+// Chronology table columns; PDF widths in points, 495 = the page between margins
+const CHRONOLOGY_COLUMNS = [
+    { header: 'Date', width: 80 },
+    { header: 'Type', width: 60 },
+    { header: 'Event', width: 205 },
+    { header: 'Source', width: 150 }
+];
+
 // Clean text of all markdown and AI formatting artifacts
 function cleanText(text: string): string {
     return text
@@ -35,6 +56,21 @@ function cleanText(text: string): string {
         .trim();
 }
 
+// Sources appendix: what each answer cited, under the question it answered
+function sourceGroups(history: ConversationItem[]): { question: string; sources: AnswerSource[] }[] {
+    const groups: { question: string; sources: AnswerSource[] }[] = [];
+    let question = '';
+    history.forEach(item => {
+        if (item.role === 'user') question = item.content;
+        else if (item.sources && item.sources.length > 0) groups.push({ question, sources: item.sources });
+    });
+    return groups;
+}
+
+function sourceLine(source: AnswerSource): string {
+    return `[${source.marker}] ${source.label}${source.url ? ` - ${source.url}` : ''}`;
+}
+
 // Generate PDF export
 export async function generatePDF(data: ExportData, extent: 'full' | 'analysis' | 'qa'): Promise<Buffer> {
     return new Promise((resolve, reject) => {
@@ -55,8 +91,15 @@ export async function generatePDF(data: ExportData, extent: 'full' | 'analysis'
         doc.fontSize(10).font('Helvetica')
             .text(`Reference: ${data.refCode}`)
             .text(`Title: ${data.title}`)
-            .text(`Status: ${data.status}`)
+            .text(`Status: ${statusName(data.status)}`)
             .text(`Generated: ${new Date().toLocaleString()}`);
+
+        if (data.statusTimeline && data.statusTimeline.length > 0) {
+            doc.moveDown(0.5);
+            doc.font('Helvetica-Bold').text('Status Timeline');
+            doc.font('Helvetica');
+            data.statusTimeline.forEach(entry => doc.text(`• ${formatTimelineEntry(entry)}`));
+        }
         doc.moveDown();
 
         // Analysis Section
@@ -106,6 +149,23 @@ export async function generatePDF(data: ExportData, extent: 'full' | 'analysis'
             } else {
                 doc.fontSize(10).font('Helvetica').text('No Q&A conversation recorded.');
             }
+
+            const groups = sourceGroups(history);
+            if (groups.length > 0) {
+                doc.moveDown();
+                doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+                doc.moveDown(0.5);
+                doc.fontSize(14).font('Helvetica-Bold').text('SOURCES');
+                groups.forEach(group => {
+                    doc.moveDown(0.5);
+                    doc.fontSize(10).font('Helvetica-Bold').fillColor('#0066cc').text(`Q: ${cleanText(group.question).substring(0, 200)}`);
+                    group.sources.forEach(source => {
+                        doc.fontSize(9).font('Helvetica-Bold').fillColor('#000000').text(sourceLine(source));
+                        doc.fontSize(9).font('Helvetica-Oblique').text(`"${source.excerpt}"`);
+                    });
+                });
+                doc.font('Helvetica').fillColor('#000000');
+            }
         }
 
         // Footer
@@ -140,10 +200,17 @@ export async function generateWord(data: ExportData, extent: 'full' | 'analysis'
         }),
         new Paragraph({ children: [new TextRun({ text: `Reference: `, bold: true }), new TextRun(data.refCode)] }),
         new Paragraph({ children: [new TextRun({ text: `Title: `, bold: true }), new TextRun(data.title)] }),
-        new Paragraph({ children: [new TextRun({ text: `Status: `, bold: true }), new TextRun(data.status)] }),
+        new Paragraph({ children: [new TextRun({ text: `Status: `, bold: true }), new TextRun(statusName(data.status))] }),
         new Paragraph({ children: [new TextRun({ text: `Generated: `, bold: true }), new TextRun(new Date().toLocaleString())] })
     );
 
+    if (data.statusTimeline && data.statusTimeline.length > 0) {
+        sections.push(new Paragraph({ children: [new TextRun({ text: 'Status Timeline', bold: true })], spacing: { before: 100 } }));
+        data.statusTimeline.forEach(entry => {
+            sections.push(new Paragraph({ text: formatTimelineEntry(entry), bullet: { level: 0 } }));
+        });
+    }
+
     // Analysis Section
     if (extent === 'full' || extent === 'analysis') {
         sections.push(
@@ -216,6 +283,30 @@ export async function generateWord(data: ExportData, extent: 'full' | 'analysis'
         } else {
             sections.push(new Paragraph({ text: 'No Q&A conversation recorded.' }));
         }
+
+        const groups = sourceGroups(history);
+        if (groups.length > 0) {
+            sections.push(
+                new Paragraph({
+                    text: 'SOURCES',
+                    heading: HeadingLevel.HEADING_1,
+                    spacing: { before: 400, after: 100 },
+                    border: { top: { style: BorderStyle.SINGLE, size: 1, color: '000000' } }
+                })
+            );
+            groups.forEach(group => {
+                sections.push(new Paragraph({
+                    children: [new TextRun({ text: `Q: ${cleanText(group.question).substring(0, 200)}`, bold: true, color: '0066cc' })],
+                    spacing: { before: 200, after: 100 }
+                }));
+                group.sources.forEach(source => {
+                    sections.push(
+                        new Paragraph({ children: [new TextRun({ text: sourceLine(source), bold: true })] }),
+                        new Paragraph({ children: [new TextRun({ text: `"${source.excerpt}"`, italics: true })], spacing: { after: 100 } })
+                    );
+                });
+            });
+        }
     }
 
     // Footer
@@ -233,3 +324,131 @@ export async function generateWord(data: ExportData, extent: 'full' | 'analysis'
 
     return await Packer.toBuffer(doc);
 }
+
+function chronologyCells(entry: ChronologyEntry): string[] {
+    return [
+        `${formatDate(entry.date)}${entry.time ? ` ${entry.time}` : ''}`,
+        eventKindName(entry.kind),
+        entry.title,
+        entry.source
+    ];
+}
+
+// Generate the chronology as a PDF table
+export async function generateChronologyPDF(data: ChronologyExport): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const doc = new PDFDocument({ margin: 50 });
+        const chunks: Buffer[] = [];
+
+        doc.on('data', (chunk) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        // Header
+        doc.fontSize(20).font('Helvetica-Bold').text('CASEVIEW BOT', { align: 'center' });
+        doc.fontSize(16).text('Chronology', { align: 'center' });
+        doc.moveDown();
+        doc.fontSize(10).font('Helvetica')
+            .text(`Reference: ${data.refCode}`)
+            .text(`Title: ${data.title}`)
+            .text(`Generated: ${new Date().toLocaleString()}`);
+        doc.moveDown();
+
+        // Rows grow to fit their longest cell; the header repeats on every page
+        const drawRow = (cells: string[], header: boolean) => {
+            const font = header ? 'Helvetica-Bold' : 'Helvetica';
+            doc.fontSize(9).font(font);
+            const height = Math.max(...cells.map((text, i) => doc.heightOfString(text, { width: CHRONOLOGY_COLUMNS[i].width - 8 }))) + 8;
+            if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+                doc.addPage();
+                if (!header) drawRow(CHRONOLOGY_COLUMNS.map(c => c.header), true);
+                doc.fontSize(9).font(font);
+            }
+
+            const top = doc.y;
+            let x = 50;
+            cells.forEach((text, i) => {
+                const width = CHRONOLOGY_COLUMNS[i].width;
+                doc.lineWidth(0.5).rect(x, top, width, height);
+                if (header) doc.fillAndStroke('#e8eef7', '#999999');
+                else doc.stroke('#999999');
+                doc.fillColor('#000000').text(text, x + 4, top + 4, { width: width - 8 });
+                x += width;
+            });
+            doc.x = 50;
+            doc.y = top + height;
+        };
+
+        if (data.entries.length > 0) {
+            drawRow(CHRONOLOGY_COLUMNS.map(c => c.header), true);
+            data.entries.forEach(entry => drawRow(chronologyCells(entry), false));
+        } else {
+            doc.fontSize(10).font('Helvetica').text('No entries on the case timeline.');
+        }
+
+        // Footer
+        doc.moveDown();
+        doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+        doc.moveDown(0.5);
+        doc.fontSize(8).fillColor('#666666').text('Generated by CaseView Bot', 50, doc.y, { align: 'center', width: 495 });
+
+        doc.end();
+    });
+}
+
+// Generate the chronology as a Word/DOCX table
+export async function generateChronologyWord(data: ChronologyExport): Promise<Buffer> {
+    const total = CHRONOLOGY_COLUMNS.reduce((sum, c) => sum + c.width, 0);
+    const cell = (text: string, i: number, header: boolean) => new TableCell({
+        width: { size: Math.round(CHRONOLOGY_COLUMNS[i].width / total * 100), type: WidthType.PERCENTAGE },
+        ...(header ? { shading: { type: ShadingType.CLEAR, fill: 'E8EEF7', color: 'auto' } } : {}),
+        children: [new Paragraph({ children: [new TextRun({ text, bold: header, size: 18 })] })]
+    });
+
+    const rows = [
+        new TableRow({ tableHeader: true, children: CHRONOLOGY_COLUMNS.map((c, i) => cell(c.header, i, true)) }),
+        ...data.entries.map(entry => new TableRow({ children: chronologyCells(entry).map((text, i) => cell(text, i, false)) }))
+    ];
+
+    const doc = new Document({
+        sections: [{
+            properties: {},
+            children: [
+                new Paragraph({
+                    text: 'CASEVIEW BOT - Chronology',
+                    heading: HeadingLevel.TITLE,
+                    spacing: { after: 200 }
+                }),
+                new Paragraph({ children: [new TextRun({ text: `Reference: `, bold: true }), new TextRun(data.refCode)] }),
+                new Paragraph({ children: [new TextRun({ text: `Title: `, bold: true }), new TextRun(data.title)] }),
+                new Paragraph({ children: [new TextRun({ text: `Generated: `, bold: true }), new TextRun(new Date().toLocaleString())], spacing: { after: 200 } }),
+                data.entries.length > 0
+                    ? new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows })
+                    : new Paragraph({ text: 'No entries on the case timeline.' }),
+                new Paragraph({
+                    children: [new TextRun({ text: 'Generated by CaseView Bot', italics: true, color: '666666' })],
+                    spacing: { before: 400 },
+                    border: { top: { style: BorderStyle.SINGLE, size: 1, color: '000000' } }
+                })
+            ]
+        }]
+    });
+
+    return await Packer.toBuffer(doc);
+}
+
+// Spreadsheet apps run a cell starting with = + - @ as a formula
+function csvCell(value: string): string {
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Generate the chronology as CSV, one row per entry with the full source passage
+export function generateChronologyCsv(data: ChronologyExport): Buffer {
+    const rows = [
+        ['Date', 'Time', 'Type', 'Event', 'Source', 'Passage'],
+        ...data.entries.map(e => [e.date, e.time || '', eventKindName(e.kind), e.title, e.source, e.passage || ''])
+    ];
+    // The byte order mark makes Excel read it as UTF-8
+    return Buffer.from('\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n', 'utf-8');
+}
@@ -6,26 +6,62 @@ import OpenAI from 'openai';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { recordTranscription } from './usageService';
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Whisper is OpenAI-only, so the client is made on first use - the rest of
+// the bot runs without an OpenAI key
+let openai: OpenAI | null = null;
+
+function transcriptionClient(): OpenAI | null {
+    if (!openai && process.env.OPENAI_API_KEY) openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    return openai;
+}
+
+export function transcriptionAvailable(): boolean {
+    return transcriptionClient() !== null;
+}
+
+// Download a file (Telegram file links expire, so callers keep the bytes)
+export async function downloadFile(fileUrl: string): Promise<Buffer> {
+    const res = await axios.get(fileUrl, {
+        responseType: 'arraybuffer',
+        maxContentLength: 20 * 1024 * 1024, // 20MB max
+        timeout: 15000 // 15 second timeout for download
+    });
+    return Buffer.from(res.data);
+}
 
 // Audio Transcription Service
 export async function transcribeAudio(fileUrl: string): Promise<string> {
     console.log(`[Transcription] Processing audio: ${fileUrl}`);
     try {
         // 1. Download Audio File
-        const response = await axios.get(fileUrl, { responseType: 'arraybuffer' });
-        const buffer = Buffer.from(response.data);
+        const buffer = await downloadFile(fileUrl);
+        return await transcribeAudioBuffer(buffer);
+    } catch (error) {
+        console.error("[Transcription] Failed:", error);
+        return `Error transcribing audio: ${(error as any).message}`;
+    }
+}
 
+export async function transcribeAudioBuffer(buffer: Buffer): Promise<string> {
+    const client = transcriptionClient();
+    if (!client) {
+        console.warn("[Transcription] OPENAI_API_KEY is not set");
+        return "Error transcribing audio: voice notes need OpenAI transcription, which is not configured.";
+    }
+    try {
         // 2. Save to temp file (OpenAI SDK requires file path or ReadStream)
         const tempFilePath = path.join(os.tmpdir(), `audio_${Date.now()}.mp3`);
         fs.writeFileSync(tempFilePath, buffer);
 
         // 3. Transcribe using Whisper
-        const transcription = await openai.audio.transcriptions.create({
+        const transcription = await client.audio.transcriptions.create({
             file: fs.createReadStream(tempFilePath),
             model: "whisper-1",
+            response_format: "verbose_json", // Includes the duration Whisper is billed on
         });
+        recordTranscription(transcription.duration);
 
         // 4. Cleanup
         fs.unlinkSync(tempFilePath);
@@ -45,20 +81,48 @@ export async function extractTextFromDocument(fileUrlOrPath: string, mimeType: s
     console.log(`[Extraction] Processing ${fileUrlOrPath} (${mimeType})...`);
 
     try {
-        // 1. Fetch File Buffer (if URL) - no timeout, let it complete
+        // 1. Fetch File Buffer (if URL)
         let buffer: Buffer;
         if (fileUrlOrPath.startsWith('http')) {
-            const res = await axios.get(fileUrlOrPath, {
-                responseType: 'arraybuffer',
-                maxContentLength: 20 * 1024 * 1024, // 20MB max
-                timeout: 15000 // 15 second timeout for download
-            });
-            buffer = Buffer.from(res.data);
+            buffer = await downloadFile(fileUrlOrPath);
             console.log(`[Extraction] Downloaded ${buffer.length} bytes`);
         } else {
             return "Local file path extraction not supported.";
         }
 
+        return await extractTextFromBuffer(buffer, mimeType);
+    } catch (error) {
+        console.error("Extraction Failed:", error);
+        return `Error extracting text: ${(error as any).message}`;
+    }
+}
+
+// Full text of each PDF page, unescaped and untruncated - for retrieval, not for display
+export async function extractPdfPages(buffer: Buffer): Promise<string[]> {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const pdf = require('pdf-parse');
+    const pages: string[] = [];
+    // pdf-parse renders pages in order; same line-joining as its default renderer
+    await pdf(buffer, {
+        pagerender: async (pageData: any) => {
+            const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+            let lastY: number | undefined;
+            let text = '';
+            for (const item of content.items) {
+                text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+                lastY = item.transform[5];
+            }
+            pages.push(text);
+            return text;
+        }
+    });
+    console.log(`[Extraction] PDF split into ${pages.length} pages`);
+    return pages;
+}
+
+// Extract text from bytes we already hold (e.g. a stored Document)
+export async function extractTextFromBuffer(buffer: Buffer, mimeType: string): Promise<string> {
+    try {
         // 2. Select Strategy
         if (mimeType.includes('pdf')) {
             console.log('[Extraction] Parsing PDF...');
@@ -78,7 +142,7 @@ export async function extractTextFromDocument(fileUrlOrPath: string, mimeType: s
         } else if (mimeType.startsWith('image')) {
             console.log('[Extraction] Using Tesseract OCR...');
             const worker = await createWorker('eng');
-            const ret = await worker.recognize(fileUrlOrPath); // Tesseract accepts URLs/Buffers
+            const ret = await worker.recognize(buffer); // Tesseract accepts URLs/Buffers
             await worker.terminate();
             return ret.data.text;
 
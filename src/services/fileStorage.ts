@@ -0,0 +1,134 @@
+// Original-file storage for case documents
+// Files are kept either on local disk or in any S3-compatible bucket
+// (AWS S3, Cloudflare R2, MinIO, DigitalOcean Spaces...).
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+
+export type StorageBackend = 'local' | 's3';
+
+// What the bot keeps in the session / Document row to find a file again
+export interface StoredFile {
+    storage: StorageBackend;
+    key: string;
+    fileName: string;
+    mimeType: string;
+    size: number;
+}
+
+export interface FileStore {
+    readonly backend: StorageBackend;
+    put(key: string, data: Buffer, mimeType: string): Promise<void>;
+    get(key: string): Promise<Buffer>;
+    delete(key: string): Promise<void>;
+}
+
+// Local disk - fine for a single instance with a persistent volume
+export class LocalFileStore implements FileStore {
+    readonly backend = 'local' as const;
+
+    constructor(private rootDir: string) { }
+
+    private resolve(key: string): string {
+        const fullPath = path.resolve(this.rootDir, key);
+        if (!fullPath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return fullPath;
+    }
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const fullPath = this.resolve(key);
+        await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+        await fs.promises.writeFile(fullPath, data);
+    }
+
+    async get(key: string): Promise<Buffer> {
+        return fs.promises.readFile(this.resolve(key));
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.promises.rm(this.resolve(key), { force: true });
+    }
+}
+
+// S3-compatible bucket - shared between all bot instances
+export class S3FileStore implements FileStore {
+    readonly backend = 's3' as const;
+    private client: S3Client;
+
+    constructor(private bucket: string) {
+        this.client = new S3Client({
+            region: process.env.S3_REGION || 'us-east-1',
+            endpoint: process.env.S3_ENDPOINT || undefined,
+            forcePathStyle: !!process.env.S3_ENDPOINT, // MinIO & co. need path-style URLs
+            credentials: process.env.S3_ACCESS_KEY_ID ? {
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || ''
+            } : undefined
+        });
+    }
+
+    async put(key: string, data: Buffer, mimeType: string): Promise<void> {
+        await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: data, ContentType: mimeType }));
+    }
+
+    async get(key: string): Promise<Buffer> {
+        const res = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+        if (!res.Body) throw new Error(`Empty object: ${key}`);
+        return Buffer.from(await res.Body.transformToByteArray());
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    }
+}
+
+const stores: Partial<Record<StorageBackend, FileStore>> = {};
+
+function getStore(backend: StorageBackend): FileStore {
+    if (!stores[backend]) {
+        if (backend === 's3') {
+            if (!process.env.S3_BUCKET) throw new Error('S3_BUCKET is not configured');
+            stores.s3 = new S3FileStore(process.env.S3_BUCKET);
+        } else {
+            stores.local = new LocalFileStore(process.env.FILE_STORAGE_DIR || path.join(process.cwd(), 'storage'));
+        }
+    }
+    return stores[backend]!;
+}
+
+// New files go to FILE_STORAGE ("local" | "s3"). Defaults to S3 when a bucket is set.
+function activeBackend(): StorageBackend {
+    const kind = (process.env.FILE_STORAGE || (process.env.S3_BUCKET ? 's3' : 'local')).toLowerCase();
+    return kind === 's3' ? 's3' : 'local';
+}
+
+// Save an upload and return the handle needed to fetch it later
+export async function storeFile(data: Buffer, fileName: string, mimeType: string): Promise<StoredFile> {
+    const store = getStore(activeBackend());
+    const safeName = fileName.replace(/[^\w.-]+/g, '_').substring(0, 100) || 'file';
+    const month = new Date().toISOString().substring(0, 7);
+    const key = `documents/${month}/${crypto.randomUUID()}-${safeName}`;
+
+    await store.put(key, data, mimeType);
+    console.log(`[Storage] Saved ${key} (${data.length} bytes, ${store.backend})`);
+
+    return { storage: store.backend, key, fileName, mimeType, size: data.length };
+}
+
+// Files are read back from the backend they were written to, so switching
+// FILE_STORAGE doesn't orphan older documents
+export async function readStoredFile(storage: StorageBackend, key: string): Promise<Buffer> {
+    return getStore(storage).get(key);
+}
+
+export async function deleteStoredFile(storage: StorageBackend, key: string): Promise<void> {
+    try {
+        await getStore(storage).delete(key);
+    } catch (error) {
+        console.error(`[Storage] Failed to delete ${key}:`, (error as any).message || error);
+    }
+}
@@ -0,0 +1,59 @@
+import { Content, GoogleGenerativeAI } from '@google/generative-ai';
+import { CompletionRequest, LLMProvider, LLMTask, configuredModel } from './types';
+
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini';
+    readonly embeddingModel = process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004';
+    private client: GoogleGenerativeAI;
+
+    constructor(apiKey: string) {
+        this.client = new GoogleGenerativeAI(apiKey);
+    }
+
+    modelFor(task: LLMTask): string {
+        return configuredModel('GEMINI', task, 'gemini-1.5-flash');
+    }
+
+    // Gemini takes the system prompt separately and calls the assistant "model"
+    private prepare(request: CompletionRequest) {
+        const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+        const model = this.client.getGenerativeModel({
+            model: request.model,
+            systemInstruction: system || undefined,
+            generationConfig: request.json ? { responseMimeType: 'application/json' } : undefined
+        });
+        const contents: Content[] = request.messages
+            .filter(m => m.role !== 'system')
+            .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+        return { model, contents };
+    }
+
+    async complete(request: CompletionRequest): Promise<string> {
+        const { model, contents } = this.prepare(request);
+        const result = await model.generateContent({ contents }, { signal: request.signal });
+        const usage = result.response.usageMetadata;
+        if (usage) request.onUsage?.({ input: usage.promptTokenCount, output: usage.candidatesTokenCount });
+        const text = result.response.text();
+        if (!text) throw new Error('Empty response');
+        return text;
+    }
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+        const { model, contents } = this.prepare(request);
+        const result = await model.generateContentStream({ contents }, { signal: request.signal });
+        for await (const chunk of result.stream) {
+            const text = chunk.text();
+            if (text) yield text;
+        }
+        const usage = (await result.response).usageMetadata;
+        if (usage) request.onUsage?.({ input: usage.promptTokenCount, output: usage.candidatesTokenCount });
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const model = this.client.getGenerativeModel({ model: this.embeddingModel });
+        const result = await model.batchEmbedContents({
+            requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+        });
+        return result.embeddings.map(e => e.values);
+    }
+}
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+
+// Offline embeddings
+// Feature hashing of words and word pairs into a fixed-size vector. Much
+// weaker than a trained model, but it needs no network or API key, always
+// gives the same vector for the same text, and still ranks passages that
+// share the question's wording above those that don't.
+
+export const OFFLINE_EMBEDDING_MODEL = 'offline:hash-v1';
+const DIMENSIONS = 512;
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'was', 'were', 'this', 'that', 'with', 'from', 'have', 'has', 'had',
+    'not', 'but', 'they', 'their', 'them', 'his', 'her', 'its', 'our', 'you', 'your', 'which', 'who',
+    'what', 'when', 'where', 'been', 'being', 'will', 'would', 'shall', 'should', 'may', 'can', 'could',
+    'there', 'these', 'those', 'into', 'any', 'all', 'such', 'than', 'then', 'also', 'upon', 'said'
+]);
+
+// Crude stemming so "breached" and "breach" land in the same bucket
+function stem(word: string): string {
+    if (word.length <= 4) return word;
+    if (word.endsWith('sses')) word = word.slice(0, -2);
+    else if (word.endsWith('ies')) word = `${word.slice(0, -3)}y`;
+    else if (word.endsWith('s') && !word.endsWith('ss')) word = word.slice(0, -1);
+
+    if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+    if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+    return word;
+}
+
+function tokens(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+        .filter(w => w.length > 1 && !STOP_WORDS.has(w))
+        .map(stem);
+}
+
+function bucket(feature: string): { index: number; sign: number } {
+    const hash = crypto.createHash('md5').update(feature).digest();
+    return { index: hash.readUInt32LE(0) % DIMENSIONS, sign: hash[4] & 1 ? 1 : -1 };
+}
+
+export function hashEmbedding(text: string): number[] {
+    const counts = new Map<string, number>();
+    const words = tokens(text);
+    words.forEach((word, i) => {
+        counts.set(word, (counts.get(word) || 0) + 1);
+        if (i > 0) counts.set(`${words[i - 1]} ${word}`, (counts.get(`${words[i - 1]} ${word}`) || 0) + 1);
+    });
+
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    counts.forEach((count, feature) => {
+        const { index, sign } = bucket(feature);
+        vector[index] += sign * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+}
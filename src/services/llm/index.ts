@@ -0,0 +1,192 @@
+// LLM access
+// Every AI call goes through llm.complete(), which picks the model for the
+// task and tries the configured providers in order until one answers.
+// llm.stream() does the same but yields the text as it is generated.
+// The tokens each call used are reported to onUsage() listeners for the usage ledger.
+//
+// LLM_PROVIDERS sets the order (default "openai,gemini,local"). Providers
+// without credentials are skipped. "mock" is only used when listed.
+
+import { ChatMessage, CompletionResult, EmbeddingResult, LLMProvider, LLMTask, LLMUnavailableError, TokenUsage, UsageEvent, estimateTokens } from './types';
+import { OpenAIProvider } from './openaiProvider';
+import { GeminiProvider } from './geminiProvider';
+import { MockProvider } from './mockProvider';
+import { hashEmbedding, OFFLINE_EMBEDDING_MODEL } from './hashEmbedding';
+
+export * from './types';
+export { OFFLINE_EMBEDDING_MODEL } from './hashEmbedding';
+
+const DEFAULT_ORDER = ['openai', 'gemini', 'local'];
+const EMBEDDING_BATCH = 64;
+
+function buildProvider(name: string): LLMProvider | null {
+    switch (name) {
+        case 'openai':
+            return process.env.OPENAI_API_KEY
+                ? new OpenAIProvider('openai', 'OPENAI', 'gpt-4o-mini', { apiKey: process.env.OPENAI_API_KEY, embeddingModel: 'text-embedding-3-small' })
+                : null;
+        case 'gemini':
+            return process.env.GOOGLE_GENERATIVE_AI_API_KEY ? new GeminiProvider(process.env.GOOGLE_GENERATIVE_AI_API_KEY) : null;
+        case 'local':
+            return process.env.LOCAL_LLM_URL
+                ? new OpenAIProvider('local', 'LOCAL_LLM', 'llama3.1', { apiKey: process.env.LOCAL_LLM_API_KEY || 'local', baseURL: process.env.LOCAL_LLM_URL, embeddingModel: 'nomic-embed-text' })
+                : null;
+        case 'mock':
+            return new MockProvider();
+        default:
+            console.warn(`[LLM] Unknown provider "${name}" in LLM_PROVIDERS`);
+            return null;
+    }
+}
+
+type UsageListener = (event: UsageEvent) => void;
+
+function promptTokens(messages: ChatMessage[]): number {
+    return messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+}
+
+export class LLMRouter {
+    private usageListeners: UsageListener[] = [];
+
+    constructor(readonly providers: LLMProvider[]) { }
+
+    get available(): boolean {
+        return this.providers.length > 0;
+    }
+
+    onUsage(listener: UsageListener): void {
+        this.usageListeners.push(listener);
+    }
+
+    // Exact counts when the provider reported them, else estimated from the text
+    private reportUsage(feature: UsageEvent['feature'], provider: LLMProvider, model: string, usage: TokenUsage | undefined, messages: ChatMessage[], output: string): void {
+        const event: UsageEvent = {
+            feature,
+            provider: provider.name,
+            model,
+            tokensIn: usage ? usage.input : promptTokens(messages),
+            tokensOut: usage ? usage.output : estimateTokens(output)
+        };
+        this.usageListeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('[LLM] Usage listener failed:', (error as any).message || error);
+            }
+        });
+    }
+
+    // Providers and models a task is tried on, in failover order, e.g. to look up a cached answer
+    targets(task: LLMTask): { provider: string; model: string }[] {
+        return this.providers.map(provider => ({ provider: provider.name, model: provider.modelFor(task) }));
+    }
+
+    async complete(task: LLMTask, messages: ChatMessage[], options: { json?: boolean } = {}): Promise<CompletionResult> {
+        const failures: string[] = [];
+
+        for (const provider of this.providers) {
+            const model = provider.modelFor(task);
+            let usage: TokenUsage | undefined;
+            try {
+                const text = await provider.complete({ messages, model, json: options.json, onUsage: u => usage = u });
+                this.reportUsage(task, provider, model, usage, messages, text);
+                if (failures.length > 0) console.log(`[LLM] ${task} answered by ${provider.name} after failover`);
+                return { text, provider: provider.name, model };
+            } catch (error) {
+                const message = (error as any).message || String(error);
+                console.error(`[LLM] ${provider.name} (${model}) failed for ${task}:`, message);
+                failures.push(`${provider.name}: ${message}`);
+            }
+        }
+        throw new LLMUnavailableError(failures);
+    }
+
+    // Failover only happens before the first chunk - a half-sent answer can't be retried elsewhere
+    // `onFinish` gets the provider and model that streamed the whole answer
+    async *stream(task: LLMTask, messages: ChatMessage[], options: { signal?: AbortSignal; onFinish?: (result: CompletionResult) => void } = {}): AsyncGenerator<string> {
+        const failures: string[] = [];
+
+        for (const provider of this.providers) {
+            const model = provider.modelFor(task);
+            let usage: TokenUsage | undefined;
+            const request = { messages, model, signal: options.signal, onUsage: (u: TokenUsage) => usage = u };
+            let started = false;
+            let output = '';
+            try {
+                if (provider.stream) {
+                    for await (const chunk of provider.stream(request)) {
+                        started = true;
+                        output += chunk;
+                        yield chunk;
+                    }
+                } else {
+                    const text = await provider.complete(request);
+                    started = true;
+                    output = text;
+                    yield text;
+                }
+                this.reportUsage(task, provider, model, usage, messages, output);
+                options.onFinish?.({ text: output, provider: provider.name, model });
+                if (failures.length > 0) console.log(`[LLM] ${task} streamed by ${provider.name} after failover`);
+                return;
+            } catch (error) {
+                // A stopped or broken stream was still paid for up to that point
+                if (started) this.reportUsage(task, provider, model, usage, messages, output);
+                if (started || options.signal?.aborted) throw error;
+                const message = (error as any).message || String(error);
+                console.error(`[LLM] ${provider.name} (${model}) failed to stream ${task}:`, message);
+                failures.push(`${provider.name}: ${message}`);
+            }
+        }
+        throw new LLMUnavailableError(failures);
+    }
+
+    // Embeddings from the first provider that can make them, else the offline hashing model.
+    // EMBEDDING_MODE=offline skips the providers entirely.
+    async embed(texts: string[]): Promise<EmbeddingResult> {
+        if (process.env.EMBEDDING_MODE !== 'offline') {
+            for (const provider of this.providers) {
+                if (!provider.embed) continue;
+                try {
+                    return { vectors: await this.embedBatches(provider, texts), model: `${provider.name}:${provider.embeddingModel}` };
+                } catch (error) {
+                    console.error(`[LLM] ${provider.name} embeddings failed:`, (error as any).message || error);
+                }
+            }
+        }
+        return { vectors: texts.map(hashEmbedding), model: OFFLINE_EMBEDDING_MODEL };
+    }
+
+    // Embeddings comparable with ones made earlier by `model`
+    async embedWith(model: string, texts: string[]): Promise<number[][]> {
+        if (model === OFFLINE_EMBEDDING_MODEL) return texts.map(hashEmbedding);
+        const provider = this.providers.find(p => p.embed && `${p.name}:${p.embeddingModel}` === model);
+        if (!provider) throw new LLMUnavailableError([`embedding model ${model} is not configured`]);
+        return this.embedBatches(provider, texts);
+    }
+
+    private async embedBatches(provider: LLMProvider, texts: string[]): Promise<number[][]> {
+        const vectors: number[][] = [];
+        for (let i = 0; i < texts.length; i += EMBEDDING_BATCH) {
+            vectors.push(...await provider.embed!(texts.slice(i, i + EMBEDDING_BATCH)));
+        }
+        this.reportUsage('embedding', provider, provider.embeddingModel!, undefined, texts.map(content => ({ role: 'user' as const, content })), '');
+        return vectors;
+    }
+}
+
+export function createRouterFromEnv(): LLMRouter {
+    const order = process.env.LLM_PROVIDERS
+        ? process.env.LLM_PROVIDERS.split(',').map(p => p.trim().toLowerCase()).filter(Boolean)
+        : DEFAULT_ORDER;
+    const providers = order.map(buildProvider).filter((p): p is LLMProvider => !!p);
+
+    if (providers.length > 0) {
+        console.log(`[LLM] Providers: ${providers.map(p => p.name).join(' -> ')}`);
+    } else {
+        console.warn('[LLM] No provider configured. AI features are disabled.');
+    }
+    return new LLMRouter(providers);
+}
+
+export const llm = createRouterFromEnv();
@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import { CompletionRequest, LLMProvider, LLMTask } from './types';
+
+const MOCK_STREAM_DELAY = 40; // ms per word
+
+// Offline provider for development and tests. The same prompt always gives
+// the same answer, and JSON requests get a valid case analysis.
+export class MockProvider implements LLMProvider {
+    readonly name = 'mock';
+
+    modelFor(task: LLMTask): string {
+        return `mock-${task}`;
+    }
+
+    async complete(request: CompletionRequest): Promise<string> {
+        const prompt = request.messages.map(m => m.content).join('\n');
+        const hash = crypto.createHash('sha256').update(prompt).digest();
+
+        if (request.json) {
+            const score = 30 + (hash[0] % 60);
+            const favourable = Math.round((0.3 + (hash[1] % 50) / 100) * 100) / 100;
+            return JSON.stringify({
+                viabilityScore: score,
+                prediction: score >= 70 ? 'Strong' : score >= 50 ? 'Moderate' : 'Weak',
+                caseCategory: 'Other',
+                keyIssues: ['Mock issue: liability', 'Mock issue: evidence', 'Mock issue: remedies'],
+                scenarios: [
+                    { name: 'Favorable Outcome', probability: favourable, description: 'Mock favourable scenario.', recommendedAction: 'Mock action: gather evidence.' },
+                    { name: 'Unfavorable Outcome', probability: Math.round((1 - favourable) * 100) / 100, description: 'Mock unfavourable scenario.', recommendedAction: 'Mock action: consider settlement.' }
+                ]
+            });
+        }
+
+        const question = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+        return `**Mock Response** (${request.model}, ${hash.toString('hex').substring(0, 8)})\n\n${question.trim().substring(0, 200)}`;
+    }
+
+    // The same answer a word at a time, slowly enough to watch the message update
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+        const words = (await this.complete(request)).split(/(?<=\s)/);
+        for (const word of words) {
+            if (request.signal?.aborted) throw new Error('Request aborted');
+            await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY));
+            yield word;
+        }
+    }
+}
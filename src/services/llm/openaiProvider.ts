@@ -0,0 +1,55 @@
+import OpenAI from 'openai';
+import { CompletionRequest, LLMProvider, LLMTask, configuredModel } from './types';
+
+// OpenAI itself, or any server speaking the same chat completions API
+// (Ollama, llama.cpp server, vLLM, LM Studio...)
+export class OpenAIProvider implements LLMProvider {
+    private client: OpenAI;
+    readonly embeddingModel: string;
+
+    constructor(
+        readonly name: string,
+        private envPrefix: string,
+        private defaultModel: string,
+        options: { apiKey: string; baseURL?: string; embeddingModel: string }
+    ) {
+        this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+        this.embeddingModel = process.env[`${envPrefix}_EMBEDDING_MODEL`] || options.embeddingModel;
+    }
+
+    modelFor(task: LLMTask): string {
+        return configuredModel(this.envPrefix, task, this.defaultModel);
+    }
+
+    async complete(request: CompletionRequest): Promise<string> {
+        const completion = await this.client.chat.completions.create({
+            model: request.model,
+            messages: request.messages,
+            response_format: request.json ? { type: 'json_object' } : undefined
+        }, { signal: request.signal });
+        if (completion.usage) request.onUsage?.({ input: completion.usage.prompt_tokens, output: completion.usage.completion_tokens });
+        const text = completion.choices[0]?.message?.content;
+        if (!text) throw new Error('Empty response');
+        return text;
+    }
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+        const stream = await this.client.chat.completions.create({
+            model: request.model,
+            messages: request.messages,
+            stream: true,
+            stream_options: { include_usage: true }
+        }, { signal: request.signal });
+        for await (const chunk of stream) {
+            // The last chunk carries the usage and no choices
+            if (chunk.usage) request.onUsage?.({ input: chunk.usage.prompt_tokens, output: chunk.usage.completion_tokens });
+            const delta = chunk.choices[0]?.delta?.content;
+            if (delta) yield delta;
+        }
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const response = await this.client.embeddings.create({ model: this.embeddingModel, input: texts });
+        return response.data.sort((a, b) => a.index - b.index).map(d => d.embedding);
+    }
+}
@@ -0,0 +1,73 @@
+// Shared types for the LLM providers
+
+// What a call is for - each task can use its own model
+export type LLMTask = 'analysis' | 'qa' | 'simulation';
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface CompletionRequest {
+    messages: ChatMessage[];
+    model: string;
+    json?: boolean; // Ask for a single JSON object back
+    signal?: AbortSignal; // Cancels the request, e.g. when the user taps Stop
+    // Providers that know the exact token counts report them here; otherwise they are estimated
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface TokenUsage {
+    input: number;
+    output: number;
+}
+
+// One provider call, for the usage ledger
+export interface UsageEvent {
+    feature: LLMTask | 'embedding';
+    provider: string;
+    model: string;
+    tokensIn: number;
+    tokensOut: number;
+}
+
+// Rough count - about four characters per token for English text
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    // Model used for a task unless the caller overrides it
+    modelFor(task: LLMTask): string;
+    complete(request: CompletionRequest): Promise<string>;
+    // Text as it is generated. Providers without it are called via complete().
+    stream?(request: CompletionRequest): AsyncIterable<string>;
+    // Vectors for semantic search, one per text, from `embeddingModel`
+    readonly embeddingModel?: string;
+    embed?(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingResult {
+    vectors: number[][];
+    model: string; // "<provider>:<model>" - vectors from different models can't be compared
+}
+
+export interface CompletionResult {
+    text: string;
+    provider: string;
+    model: string;
+}
+
+// No configured provider could answer
+export class LLMUnavailableError extends Error {
+    constructor(public failures: string[]) {
+        super(failures.length > 0 ? `All LLM providers failed: ${failures.join('; ')}` : 'No LLM provider configured');
+        this.name = 'LLMUnavailableError';
+    }
+}
+
+// Per-task model from the environment: <PREFIX>_MODEL_<TASK>, then <PREFIX>_MODEL
+export function configuredModel(prefix: string, task: LLMTask, fallback: string): string {
+    return process.env[`${prefix}_MODEL_${task.toUpperCase()}`] || process.env[`${prefix}_MODEL`] || fallback;
+}
@@ -1,7 +1,12 @@
 // Paystack Payment Service
 // API key will be added to .env when available
 
+import crypto from 'crypto';
+import { prisma } from './db';
+
 const PAYSTACK_SECRET = process.env.PAYSTACK_SECRET_KEY || '';
+const PLAN_DURATION_DAYS = 30;
+const PAID_PLANS = ['PRO', 'FIRM', 'BAR'];
 
 interface PaymentData {
     email: string;
@@ -59,19 +64,25 @@ export async function initializePayment(data: PaymentData): Promise<{ success: b
 }
 
 // Verify payment (called by webhook or callback)
-export async function verifyPayment(reference: string): Promise<{ success: boolean; data?: any; error?: string }> {
+// `retryable` means Paystack couldn't be asked (no key, network, timeout, 5xx) -
+// the payment may well be good and the check should be repeated later.
+export async function verifyPayment(reference: string): Promise<{ success: boolean; data?: any; error?: string; retryable?: boolean }> {
     if (!PAYSTACK_SECRET) {
-        return { success: false, error: 'API key not configured' };
+        return { success: false, error: 'API key not configured', retryable: true };
     }
 
     try {
-        const response = await fetch(`https://api.paystack.co/transaction/verify/${reference}`, {
+        const response = await fetch(`https://api.paystack.co/transaction/verify/${encodeURIComponent(reference)}`, {
             headers: {
                 'Authorization': `Bearer ${PAYSTACK_SECRET}`
-            }
+            },
+            signal: AbortSignal.timeout(15000)
         });
+        if (response.status >= 500 || response.status === 429) {
+            return { success: false, error: `Paystack returned ${response.status}`, retryable: true };
+        }
 
-        const result = await response.json() as { status: boolean; data?: { status: string; metadata?: { plan: string; telegramId: string } } };
+        const result = await response.json() as { status: boolean; data?: { status: string; amount: number; currency: string; paid_at?: string; metadata?: { plan: string; telegramId: string } } };
 
         if (result.status && result.data?.status === 'success') {
             return { success: true, data: result.data };
@@ -80,8 +91,155 @@ export async function verifyPayment(reference: string): Promise<{ success: boole
         }
     } catch (error) {
         console.error('Verify payment error:', error);
-        return { success: false, error: 'Verification failed' };
+        return { success: false, error: 'Verification failed', retryable: true };
+    }
+}
+
+// Paystack checkout for a plan, recorded as a pending payment
+export async function createPlanCheckout(telegramId: string, email: string | null | undefined, plan: string): Promise<{ success: boolean; url?: string; amount: number; currency: string }> {
+    const currency = 'NGN';
+    const amount = getPlanAmount(plan, currency);
+
+    const payment = await initializePayment({
+        email: email || `user${telegramId}@caseview.bot`,
+        amount,
+        plan,
+        telegramId,
+        currency
+    });
+
+    if (payment.success && payment.reference) {
+        await recordPendingPayment(payment.reference, plan, telegramId, amount, currency);
+    }
+    return { success: payment.success && !!payment.url, url: payment.url, amount, currency };
+}
+
+// Audit row for a checkout we started - the webhook completes it
+export async function recordPendingPayment(reference: string, plan: string, telegramId: string, amount: number, currency: string): Promise<void> {
+    try {
+        const user = await prisma.user.findUnique({ where: { telegramId: BigInt(telegramId) } });
+        await prisma.payment.upsert({
+            where: { reference },
+            update: {},
+            create: {
+                reference,
+                plan,
+                amount: amount * 100,
+                currency,
+                telegramId: BigInt(telegramId),
+                userId: user?.id
+            }
+        });
+    } catch (error) {
+        console.error('[Payments] Failed to record pending payment:', error);
+    }
+}
+
+// Paystack signs the raw request body with HMAC-SHA512 of our secret key
+export function isValidPaystackSignature(rawBody: string, signature: string | undefined): boolean {
+    if (!PAYSTACK_SECRET || !signature) return false;
+
+    const expected = crypto.createHmac('sha512', PAYSTACK_SECRET).update(rawBody).digest('hex');
+    const given = Buffer.from(signature, 'utf8');
+    const wanted = Buffer.from(expected, 'utf8');
+    return given.length === wanted.length && crypto.timingSafeEqual(given, wanted);
+}
+
+export type PaymentNotifier = (telegramId: string, message: string) => Promise<void>;
+
+// Handle a verified webhook event. Safe to call repeatedly for the same
+// reference - Paystack retries until it gets a 200.
+export async function processPaystackEvent(event: { event?: string; data?: { reference?: string } }, notify: PaymentNotifier): Promise<string> {
+    const reference = event.data?.reference;
+    if (event.event !== 'charge.success' || !reference) {
+        return 'ignored';
+    }
+
+    const existing = await prisma.payment.findUnique({ where: { reference } });
+    if (existing?.status === 'SUCCESS') {
+        console.log(`[Payments] ${reference} already processed`);
+        return 'duplicate';
+    }
+
+    // Never trust the webhook body alone - confirm with Paystack
+    const verification = await verifyPayment(reference);
+    // Not a verdict on the payment - throwing makes the webhook answer 500 so Paystack retries
+    if (verification.retryable) throw new Error(`Could not verify ${reference}: ${verification.error}`);
+    const data = verification.data;
+    const plan = String(data?.metadata?.plan || existing?.plan || '').toUpperCase();
+    const telegramId = String(data?.metadata?.telegramId || existing?.telegramId || '');
+
+    const fail = async (reason: string) => {
+        console.warn(`[Payments] ${reference} rejected: ${reason}`);
+        if (telegramId && /^\d+$/.test(telegramId)) {
+            await prisma.payment.upsert({
+                where: { reference },
+                update: { status: 'FAILED', failureReason: reason },
+                create: { reference, plan: plan || 'UNKNOWN', telegramId: BigInt(telegramId), status: 'FAILED', failureReason: reason }
+            });
+        }
+        return 'failed';
+    };
+
+    if (!verification.success || !data) return fail(verification.error || 'Payment not verified');
+    if (!PAID_PLANS.includes(plan)) return fail(`Unknown plan "${plan}"`);
+    if (!/^\d+$/.test(telegramId)) return fail('Missing telegramId metadata');
+
+    const currency = String(data.currency || 'NGN');
+    const expectedAmount = getPlanAmount(plan, currency) * 100;
+    if (Number(data.amount) < expectedAmount) return fail(`Amount ${data.amount} ${currency} below plan price ${expectedAmount}`);
+
+    const user = await prisma.user.findUnique({ where: { telegramId: BigInt(telegramId) } });
+    if (!user) return fail(`No user with telegramId ${telegramId}`);
+
+    // Renewals of the same plan stack on top of the remaining time
+    const now = new Date();
+    const base = user.subscription === plan && user.subscriptionExp && user.subscriptionExp > now ? user.subscriptionExp : now;
+    const periodEnd = new Date(base.getTime() + PLAN_DURATION_DAYS * 24 * 60 * 60 * 1000);
+
+    const activated = await prisma.$transaction(async (tx) => {
+        await tx.payment.upsert({
+            where: { reference },
+            update: {},
+            create: { reference, plan, telegramId: BigInt(telegramId), userId: user.id }
+        });
+
+        // Claim the reference - only one concurrent delivery gets count === 1
+        const claim = await tx.payment.updateMany({
+            where: { reference, status: { not: 'SUCCESS' } },
+            data: {
+                status: 'SUCCESS',
+                plan,
+                amount: Number(data.amount),
+                currency,
+                userId: user.id,
+                periodEnd,
+                failureReason: null,
+                rawEvent: JSON.stringify(data),
+                paidAt: data.paid_at ? new Date(data.paid_at) : now
+            }
+        });
+        if (claim.count === 0) return false;
+
+        await tx.user.update({
+            where: { id: user.id },
+            data: { subscription: plan, subscriptionExp: periodEnd }
+        });
+        return true;
+    });
+
+    if (!activated) {
+        console.log(`[Payments] ${reference} already processed`);
+        return 'duplicate';
+    }
+
+    console.log(`[Payments] ${reference}: ${plan} active for ${telegramId} until ${periodEnd.toISOString()}`);
+    try {
+        await notify(telegramId, `✅ **Payment Received**\n\nYour **${plan}** plan is now active until **${periodEnd.toDateString()}**.\n\nReference: \`${reference}\`\nUse /myplan to see your limits.`);
+    } catch (error) {
+        console.error('[Payments] Failed to notify user:', error);
     }
+    return 'activated';
 }
 
 // Get plan prices for Paystack
@@ -0,0 +1,134 @@
+// Prompt A/B tests
+// Runs a candidate template version and the live one on the same random
+// sample of cases so an admin can compare them before switching over. The
+// outputs go back to the admin only; nothing is saved to the cases.
+
+import { CaseMatter } from '@prisma/client';
+import { prisma } from './db';
+import { aiService } from './ai';
+import { buildCaseFacts } from './documentService';
+import { caseAnalysisText } from './analysisService';
+import { currentVersion, getTemplate, promptId } from './prompts';
+import { forumBrief } from '../core/jurisdictions';
+
+// Prompts whose variables can be filled from a case alone
+export const EXPERIMENT_PROMPTS = ['analysis', 'simulation', 'scenarios'] as const;
+export type ExperimentPrompt = typeof EXPERIMENT_PROMPTS[number];
+
+const MAX_SAMPLE = 20;
+const CANDIDATE_POOL = 200; // Most recent cases the sample is drawn from
+
+export interface ExperimentOutput {
+    ok: boolean;
+    text: string;    // Response, or the error
+    score?: number;  // Viability score, for analyses
+    ms: number;
+}
+
+export interface ExperimentRun {
+    caseId: number;
+    label: string;
+    baseline: ExperimentOutput;
+    candidate: ExperimentOutput;
+}
+
+export interface ExperimentReport {
+    prompt: ExperimentPrompt;
+    baseline: string;  // "analysis@1"
+    candidate: string; // "analysis@2"
+    runs: ExperimentRun[];
+}
+
+export function isExperimentPrompt(name: string): name is ExperimentPrompt {
+    return (EXPERIMENT_PROMPTS as readonly string[]).includes(name);
+}
+
+function shuffle<T>(items: T[]): T[] {
+    const copy = [...items];
+    for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy;
+}
+
+async function runVersion(prompt: ExperimentPrompt, version: number, c: CaseMatter): Promise<ExperimentOutput> {
+    const started = Date.now();
+    try {
+        if (prompt === 'analysis') {
+            const result = await aiService.analyzeLegalText(await buildCaseFacts(c), { jurisdiction: c.jurisdiction || undefined, court: c.court, parties: c.parties, promptVersion: version });
+            return { ok: true, text: JSON.stringify({ ...result, offline: undefined }, null, 2), score: result.viabilityScore, ms: Date.now() - started };
+        }
+        const text = prompt === 'simulation'
+            ? await aiService.completePrompt('simulation', { facts: c.description || '', forum: forumBrief(c) }, version)
+            : await aiService.completePrompt('scenarios', { title: c.title, details: c.description || '', analysis: await caseAnalysisText(c) || '' }, version);
+        return { ok: true, text, ms: Date.now() - started };
+    } catch (error) {
+        return { ok: false, text: (error as any).message || String(error), ms: Date.now() - started };
+    }
+}
+
+// Throws UnknownPromptError if the candidate version doesn't exist
+export async function runPromptExperiment(prompt: ExperimentPrompt, candidateVersion: number, sampleSize: number): Promise<ExperimentReport> {
+    getTemplate(prompt, candidateVersion);
+    const baselineVersion = currentVersion(prompt);
+
+    const pool = await prisma.caseMatter.findMany({
+        where: { description: { not: null } },
+        orderBy: { createdAt: 'desc' },
+        take: CANDIDATE_POOL
+    });
+    const sample = shuffle(pool).slice(0, Math.min(sampleSize, MAX_SAMPLE));
+    console.log(`[Prompts] A/B ${promptId(prompt, baselineVersion)} vs ${promptId(prompt, candidateVersion)} on ${sample.length} cases`);
+
+    const runs: ExperimentRun[] = [];
+    for (const c of sample) {
+        runs.push({
+            caseId: c.id,
+            label: c.refCode || `Case #${c.id}`,
+            baseline: await runVersion(prompt, baselineVersion, c),
+            candidate: await runVersion(prompt, candidateVersion, c)
+        });
+    }
+    return { prompt, baseline: promptId(prompt, baselineVersion), candidate: promptId(prompt, candidateVersion), runs };
+}
+
+function wordCount(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+function average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function summarise(outputs: ExperimentOutput[]): string {
+    const ok = outputs.filter(o => o.ok);
+    let line = `${ok.length}/${outputs.length} succeeded, avg ${Math.round(average(ok.map(o => wordCount(o.text))))} words, ${(average(outputs.map(o => o.ms)) / 1000).toFixed(1)}s`;
+    const scores = ok.filter(o => o.score !== undefined).map(o => o.score!);
+    if (scores.length > 0) line += `, avg score ${Math.round(average(scores))}`;
+    return line;
+}
+
+// Short summary for the chat
+export function formatExperimentSummary(report: ExperimentReport): string {
+    let msg = `🧪 **A/B Test: ${report.baseline} vs ${report.candidate}**\n\n`;
+    msg += `**A (live) ${report.baseline}:** ${summarise(report.runs.map(r => r.baseline))}\n`;
+    msg += `**B ${report.candidate}:** ${summarise(report.runs.map(r => r.candidate))}\n\n`;
+    report.runs.forEach(r => {
+        const describe = (o: ExperimentOutput) => !o.ok ? 'failed' : o.score !== undefined ? `${o.score}/100` : `${wordCount(o.text)} words`;
+        msg += `• ${r.label}: A ${describe(r.baseline)} | B ${describe(r.candidate)}\n`;
+    });
+    return msg;
+}
+
+// Both outputs for every case, side by side, as a text file
+export function formatExperimentTranscript(report: ExperimentReport): string {
+    const sections = report.runs.map(r => [
+        `=== ${r.label} ===`,
+        `--- A: ${report.baseline}${r.baseline.ok ? '' : ' (FAILED)'} ---`,
+        r.baseline.text,
+        `--- B: ${report.candidate}${r.candidate.ok ? '' : ' (FAILED)'} ---`,
+        r.candidate.text
+    ].join('\n\n'));
+    return [`A/B test: ${report.baseline} vs ${report.candidate}`, ...sections].join('\n\n\n');
+}
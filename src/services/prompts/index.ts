@@ -0,0 +1,56 @@
+// Prompt registry
+// Looks templates up by name and version and renders them with their typed
+// variables. The live version of each prompt is the newest one unless
+// PROMPT_VERSIONS pins another, e.g. '{"analysis":1}' to roll a change back.
+
+import { PromptName, PromptTemplate, PromptVariables, RenderedPrompt, UnknownPromptError } from './types';
+import { TEMPLATES } from './templates';
+
+export * from './types';
+
+export const PROMPT_NAMES = Object.keys(TEMPLATES) as PromptName[];
+
+export function isPromptName(name: string): name is PromptName {
+    return (PROMPT_NAMES as string[]).includes(name);
+}
+
+function pinnedVersions(): Record<string, number> {
+    if (!process.env.PROMPT_VERSIONS) return {};
+    try {
+        return JSON.parse(process.env.PROMPT_VERSIONS);
+    } catch (e) {
+        console.error('[Prompts] Ignoring invalid PROMPT_VERSIONS:', (e as Error).message);
+        return {};
+    }
+}
+
+export function promptVersions(name: PromptName): number[] {
+    return TEMPLATES[name].map(t => t.version).sort((a, b) => a - b);
+}
+
+export function currentVersion(name: PromptName): number {
+    const versions = promptVersions(name);
+    const pinned = pinnedVersions()[name];
+    if (pinned !== undefined && !versions.includes(pinned)) {
+        console.warn(`[Prompts] PROMPT_VERSIONS pins ${name}@${pinned}, which doesn't exist - using the newest`);
+    }
+    return pinned !== undefined && versions.includes(pinned) ? pinned : versions[versions.length - 1];
+}
+
+export function getTemplate<N extends PromptName>(name: N, version: number = currentVersion(name)): PromptTemplate<N> {
+    const templates = TEMPLATES[name] as PromptTemplate<N>[] | undefined;
+    if (!templates) throw new UnknownPromptError(name);
+    const template = templates.find(t => t.version === version);
+    if (!template) throw new UnknownPromptError(name, version);
+    return template;
+}
+
+export function promptId(name: PromptName, version: number = currentVersion(name)): string {
+    return `${name}@${version}`;
+}
+
+// The live version unless `version` asks for another (e.g. in an A/B test)
+export function renderPrompt<N extends PromptName>(name: N, vars: PromptVariables[N], version?: number): RenderedPrompt {
+    const template = getTemplate(name, version);
+    return { id: promptId(name, template.version), task: template.task, system: template.system, text: template.render(vars) };
+}
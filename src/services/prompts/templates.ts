@@ -0,0 +1,329 @@
+// Prompt templates
+// Every prompt the bot sends, by name and version. Once a version has been
+// used its text stays as it is: a change goes into a new version so stored
+// outputs keep pointing at the wording that produced them, and the two can be
+// compared with /abtest before the new one goes live.
+
+import { PromptName, PromptTemplate } from './types';
+
+// Sourced context lists "[n] Document, p. N" passages and precedents (see citationService)
+const CITATION_INSTRUCTION = `If NUMBERED SOURCES are provided, put the source number in square brackets right after each statement that relies on it, e.g. "Rent was due on the 1st [2]." Only use numbers from the list. Statements from general legal knowledge get no marker.`;
+
+// Where the forum is known (see core/jurisdictions forumBrief)
+const FORUM_INSTRUCTION = `Apply the law of this forum: its governing law, court hierarchy and limitation periods. Cite authorities in its citation style and say when a point depends on a special regime or needs checking locally.`;
+
+function forumSection(forum: string): string {
+    return forum ? `
+        FORUM AND APPLICABLE LAW:
+        """
+        ${forum}
+        """
+        ${FORUM_INSTRUCTION}
+` : '';
+}
+
+const ANALYSIS_OUTPUT_FORMAT = `        OUTPUT FORMAT (JSON only, no markdown wrappers):
+        {
+            "viabilityScore": number (0-100),
+            "prediction": "Strong" | "Moderate" | "Weak",
+            "caseCategory": "Contract" | "Tort" | "Criminal" | "Family" | "Property" | "Employment" | "Corporate" | "Other",
+            "keyIssues": ["Specific issue 1", "Specific issue 2", "..."],
+            "scenarios": [
+                {
+                    "name": "Favorable Outcome",
+                    "probability": 0.0-1.0,
+                    "description": "Detailed description of this scenario",
+                    "recommendedAction": "Specific action to take"
+                },
+                {
+                    "name": "Unfavorable Outcome",
+                    "probability": 0.0-1.0,
+                    "description": "Detailed description of this scenario",
+                    "recommendedAction": "Specific action to mitigate"
+                }
+            ]
+        }
+`;
+
+const SIMULATION_OUTPUT_FORMAT = `        OUTPUT FORMAT:
+        **Simulation Results**
+        
+        **1. Analysis of Target Outcome**
+        (Is it viable? Why/Why not?)
+
+        **2. Impact of Key Evidence**
+        (How does it sway the judge/jury?)
+
+        **3. Counter-Strategy Effectiveness**
+        (How effective is the opposing argument?)
+
+        **4. Jurisdiction Factor**
+        (How does the specific venue affect the case?)
+
+        **5. Conclusion & Probability**
+        (Final assessment based on these constraints)
+`;
+
+export const TEMPLATES: { [N in PromptName]: PromptTemplate<N>[] } = {
+    analysis: [{
+        name: 'analysis',
+        version: 1,
+        task: 'analysis',
+        description: 'Structured JSON analysis with viability score and scenarios',
+        system: "You are a legal expert returning raw JSON.",
+        render: v => `
+        You are a Senior Legal Consultant providing a comprehensive case analysis.
+        
+        DOCUMENT CONTENT:
+        """
+        ${v.document.substring(0, 20000)}
+        """
+
+        TASK: Provide a thorough legal analysis of this document. Be specific, practical, and actionable.
+
+        REQUIREMENTS:
+        1. Identify the core legal matter and categorize it accurately.
+        2. Assess the viability score (0-100) based on evidence strength, legal precedent, and procedural standing.
+        3. Identify 3-5 key legal issues with specificity (cite relevant laws/principles if apparent).
+        4. Provide realistic scenarios with probability assessments.
+        5. Give actionable recommendations a lawyer would actually use.
+
+${ANALYSIS_OUTPUT_FORMAT}        `
+    }, {
+        name: 'analysis',
+        version: 2,
+        task: 'analysis',
+        description: 'Adds the forum: governing law, court hierarchy, limitation periods, citation style',
+        system: "You are a legal expert returning raw JSON.",
+        render: v => `
+        You are a Senior Legal Consultant providing a comprehensive case analysis.
+
+        DOCUMENT CONTENT:
+        """
+        ${v.document.substring(0, 20000)}
+        """
+        ${forumSection(v.forum)}
+        TASK: Provide a thorough legal analysis of this document. Be specific, practical, and actionable.
+
+        REQUIREMENTS:
+        1. Identify the core legal matter and categorize it accurately.
+        2. Assess the viability score (0-100) based on evidence strength, legal precedent, procedural standing and whether the claim is within the limitation period.
+        3. Identify 3-5 key legal issues with specificity (cite relevant laws/principles of the forum if known).
+        4. Provide realistic scenarios with probability assessments.
+        5. Give actionable recommendations a lawyer would actually use, naming the right court where it matters.
+
+${ANALYSIS_OUTPUT_FORMAT}        `
+    }],
+    qa: [{
+        name: 'qa',
+        version: 1,
+        task: 'qa',
+        description: 'Answer a question from the case facts, citing numbered sources',
+        system: "You are a legal expert.",
+        render: v => {
+            const earlier = v.summary ? `
+        EARLIER IN THIS CONVERSATION (summary):
+        "${v.summary}"
+        ` : '';
+            return `
+        CONTEXT FACTS (Max 20000 chars):
+        "${v.context.substring(0, 20000)}"
+        ${earlier}
+        USER QUESTION:
+        "${v.question}"
+
+        Act as a legal assistant. Answer the question based on the facts provided.
+        It may follow up on earlier questions in this conversation - resolve references like "the second defendant" from them.
+        Use professional formatting with clear Bold Headers (e.g., **Analysis**, **Conclusion**).
+        ${CITATION_INSTRUCTION}
+        Do NOT use phrases like "As an AI" or "Based on the context". Just provide the answer.
+        `;
+        }
+    }, {
+        name: 'qa',
+        version: 2,
+        task: 'qa',
+        description: 'Adds the forum: governing law, court hierarchy, limitation periods, citation style',
+        system: "You are a legal expert.",
+        render: v => {
+            const earlier = v.summary ? `
+        EARLIER IN THIS CONVERSATION (summary):
+        "${v.summary}"
+        ` : '';
+            return `
+        CONTEXT FACTS (Max 20000 chars):
+        "${v.context.substring(0, 20000)}"
+        ${forumSection(v.forum)}${earlier}
+        USER QUESTION:
+        "${v.question}"
+
+        Act as a legal assistant. Answer the question based on the facts provided and the law of the forum.
+        It may follow up on earlier questions in this conversation - resolve references like "the second defendant" from them.
+        Use professional formatting with clear Bold Headers (e.g., **Analysis**, **Conclusion**).
+        ${CITATION_INSTRUCTION}
+        Do NOT use phrases like "As an AI" or "Based on the context". Just provide the answer.
+        `;
+        }
+    }],
+    summary: [{
+        name: 'summary',
+        version: 1,
+        task: 'qa',
+        description: 'Fold older Q&A turns into the running thread summary',
+        system: "You summarise legal conversations.",
+        render: v => `
+        ${v.previousSummary ? `SUMMARY SO FAR:\n"${v.previousSummary}"\n` : ''}
+        NEW TURNS:
+        """
+        ${v.transcript.substring(0, 20000)}
+        """
+
+        Update the summary of this legal Q&A conversation to cover the new turns.
+        Keep every party, date, amount and conclusion that a follow-up question could refer to.
+        Plain text, at most 250 words.
+        `
+    }],
+    simulation: [{
+        name: 'simulation',
+        version: 1,
+        task: 'simulation',
+        description: 'Narrative trial simulation: judge, jury, opposing counsel, verdict',
+        system: "You are a legal simulator.",
+        render: v => `
+        Act as a Legal Simulator. Run a simulation of a potential trial based on these facts:
+        
+        FACTS:
+        "${v.facts.substring(0, 20000)}"
+
+        Output a narrative simulation that covers:
+        1. **Judge's Perspective**: Likely rulings on motions.
+        2. **Jury Reaction**: How a typical jury might perceive the facts.
+        3. **Opposing Counsel Strategy**: Likely defenses or counter-arguments.
+        4. **Verdict Prediction**: A probable outcome percentage.
+
+        Format with clear Markdown headers. Be realistic and critical.
+        ${CITATION_INSTRUCTION}
+        `
+    }, {
+        name: 'simulation',
+        version: 2,
+        task: 'simulation',
+        description: 'Adds the forum: governing law, court hierarchy, limitation periods, citation style',
+        system: "You are a legal simulator.",
+        render: v => `
+        Act as a Legal Simulator. Run a simulation of a potential trial based on these facts:
+
+        FACTS:
+        "${v.facts.substring(0, 20000)}"
+        ${forumSection(v.forum)}
+        Output a narrative simulation that covers:
+        1. **Judge's Perspective**: Likely rulings on motions, under the forum's procedure.
+        2. **Fact-Finder Reaction**: How the judge or jury, as the forum uses them, might perceive the facts.
+        3. **Opposing Counsel Strategy**: Likely defenses or counter-arguments, including limitation.
+        4. **Verdict Prediction**: A probable outcome percentage and the likely route of any appeal.
+
+        Format with clear Markdown headers. Be realistic and critical.
+        ${CITATION_INSTRUCTION}
+        `
+    }],
+    interactiveSimulation: [{
+        name: 'interactiveSimulation',
+        version: 1,
+        task: 'simulation',
+        description: 'Simulation driven by the /scenario wizard answers',
+        system: "You are a legal simulator.",
+        render: v => `
+        Act as a Legal Simulator. Run a USER-DEFINED simulation based on these specific parameters:
+
+        CASE FACTS:
+        "${v.facts.substring(0, 15000)}"
+
+        SIMULATION PARAMETERS:
+        1. TARGET OUTCOME TO TEST: "${v.outcome}"
+        2. KEY EVIDENCE/WITNESS: "${v.evidence}"
+        3. OPPOSING STRATEGY: "${v.opposing}"
+        4. JURISDICTION/JUDGE NUANCES: "${v.jurisdiction}"
+        5. CAVEATS & COMMENTS: "${v.caveats}"
+
+        TASK:
+        Simulate the trial or legal proceeding strictly using the above User Inputs as the simulation variables.
+        Analyze if the Target Outcome is achievable given the Evidence, Opposing Strategy, and Jurisdiction.
+        Address the Caveats specifically.
+        ${CITATION_INSTRUCTION}
+
+${SIMULATION_OUTPUT_FORMAT}        `
+    }, {
+        name: 'interactiveSimulation',
+        version: 2,
+        task: 'simulation',
+        description: 'Adds the forum: governing law, court hierarchy, limitation periods, citation style',
+        system: "You are a legal simulator.",
+        render: v => `
+        Act as a Legal Simulator. Run a USER-DEFINED simulation based on these specific parameters:
+
+        CASE FACTS:
+        "${v.facts.substring(0, 15000)}"
+        ${forumSection(v.forum)}
+        SIMULATION PARAMETERS:
+        1. TARGET OUTCOME TO TEST: "${v.outcome}"
+        2. KEY EVIDENCE/WITNESS: "${v.evidence}"
+        3. OPPOSING STRATEGY: "${v.opposing}"
+        4. JURISDICTION/JUDGE NUANCES: "${v.jurisdiction}"
+        5. CAVEATS & COMMENTS: "${v.caveats}"
+
+        TASK:
+        Simulate the trial or legal proceeding strictly using the above User Inputs as the simulation variables.
+        Analyze if the Target Outcome is achievable given the Evidence, Opposing Strategy, and Jurisdiction.
+        Address the Caveats specifically.
+        ${CITATION_INSTRUCTION}
+
+${SIMULATION_OUTPUT_FORMAT}        `
+    }],
+    scenarios: [{
+        name: 'scenarios',
+        version: 1,
+        task: 'qa',
+        description: 'Three outcome scenarios with probabilities and actions',
+        system: "You are a legal expert.",
+        render: v => `Based on this legal case, generate 3 possible outcome scenarios with probabilities:
+
+Case: ${v.title}
+Details: ${v.details.substring(0, 2000) || 'No details'}
+Analysis: ${v.analysis.substring(0, 1000) || 'No analysis'}
+
+For each scenario, provide:
+1. Scenario name
+2. Probability (%)
+3. Description (2-3 sentences)
+4. Recommended action
+
+Format as:
+**Scenario 1: [Name]** (XX% likely)
+[Description]
+👉 Action: [What to do]
+
+---`
+    }],
+    precedent: [{
+        name: 'precedent',
+        version: 1,
+        task: 'qa',
+        description: 'How a precedent applies to the case',
+        system: "You are a legal expert.",
+        render: v => `Analyze how this precedent case applies to the current legal matter:
+
+CURRENT CASE:
+Title: ${v.title}
+Details: ${v.details.substring(0, 1500) || 'No details'}
+
+PRECEDENT TO ANALYZE:
+URL: ${v.precedentUrl}
+
+Provide:
+1. **Relevance Score** (1-10)
+2. **Key Similarities** (3-4 points)
+3. **Key Differences** (2-3 points)
+4. **How to Apply This Precedent** (strategic advice)
+5. **Potential Distinguishing Arguments** (if opposing counsel cites this)`
+    }]
+};
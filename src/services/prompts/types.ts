@@ -0,0 +1,41 @@
+// Shared types for the prompt registry
+
+import { LLMTask } from '../llm';
+
+// Variables each prompt is rendered with. `forum` is the jurisdiction block
+// from core/jurisdictions forumBrief, empty when the forum is unknown.
+export interface PromptVariables {
+    analysis: { document: string; forum: string };
+    qa: { context: string; question: string; summary: string | null; forum: string };
+    summary: { previousSummary: string | null; transcript: string };
+    simulation: { facts: string; forum: string };
+    interactiveSimulation: { facts: string; outcome: string; evidence: string; opposing: string; jurisdiction: string; caveats: string; forum: string };
+    scenarios: { title: string; details: string; analysis: string };
+    precedent: { title: string; details: string; precedentUrl: string };
+}
+
+export type PromptName = keyof PromptVariables;
+
+export interface PromptTemplate<N extends PromptName = PromptName> {
+    name: N;
+    version: number;
+    task: LLMTask;       // Which model answers it
+    description: string; // What this version is for or changed
+    system: string;
+    render(vars: PromptVariables[N]): string;
+}
+
+export interface RenderedPrompt {
+    id: string; // "analysis@2" - stored with whatever the prompt produced
+    task: LLMTask;
+    system: string;
+    text: string;
+}
+
+// A prompt name or version that isn't in the registry
+export class UnknownPromptError extends Error {
+    constructor(name: string, version?: number) {
+        super(version === undefined ? `Unknown prompt "${name}"` : `Prompt "${name}" has no version ${version}`);
+        this.name = 'UnknownPromptError';
+    }
+}
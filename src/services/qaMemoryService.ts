@@ -0,0 +1,118 @@
+// Q&A memory
+// Each case keeps every question and answer in qaHistory (exports read it
+// whole). The current thread starts at qaThreadStart; its newest turns are sent
+// back to the model word for word within QA_MEMORY_TOKENS, and anything older
+// is folded into qaSummary so follow-up questions keep their context.
+
+import { prisma } from './db';
+import { aiService, ConversationMemory } from './ai';
+import { ChatMessage, estimateTokens } from './llm';
+import { AnswerSource, stripCitationMarkers } from './citationService';
+
+export interface QaEntry {
+    role: 'user' | 'bot';
+    content: string;
+    timestamp?: string;
+    sources?: AnswerSource[]; // What the answer's [n] markers point to
+    prompt?: string;          // Template that produced an answer, e.g. "qa@1"
+}
+
+const DEFAULT_MEMORY_TOKENS = 3000;
+const SUMMARY_FALLBACK_CHARS = 2000;
+
+function memoryBudget(): number {
+    const budget = parseInt(process.env.QA_MEMORY_TOKENS || '');
+    return budget > 0 ? budget : DEFAULT_MEMORY_TOKENS;
+}
+
+export function parseQaHistory(json: string | null): QaEntry[] {
+    try {
+        const parsed = JSON.parse(json || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+// Add turns to the end of the history. The row stays locked until the write, so
+// two answers finishing together (or on two instances) can't drop each other's
+// turns. Returns the new length, 0 if the case is gone.
+export async function appendQaTurns(caseId: number, entries: QaEntry[]): Promise<number> {
+    return prisma.$transaction(async (tx) => {
+        const rows = await tx.$queryRaw<{ qaHistory: string | null }[]>`SELECT "qaHistory" FROM "CaseMatter" WHERE "id" = ${caseId} FOR UPDATE`;
+        if (rows.length === 0) return 0;
+        const history = [...parseQaHistory(rows[0].qaHistory), ...entries];
+        await tx.caseMatter.update({ where: { id: caseId }, data: { qaHistory: JSON.stringify(history) } });
+        return history.length;
+    });
+}
+
+// Old markers would point at the wrong sources in a new prompt
+function toMessage(entry: QaEntry): ChatMessage {
+    return entry.role === 'user'
+        ? { role: 'user', content: entry.content }
+        : { role: 'assistant', content: stripCitationMarkers(entry.content) };
+}
+
+// Without a provider the older questions are kept, shortened, instead of summarised
+function fallbackSummary(previous: string | null, entries: QaEntry[]): string {
+    const questions = entries.filter(e => e.role === 'user').map(e => `- Asked: ${e.content.substring(0, 150)}`);
+    const summary = [previous, ...questions].filter(Boolean).join('\n');
+    return summary.length > SUMMARY_FALLBACK_CHARS ? summary.substring(summary.length - SUMMARY_FALLBACK_CHARS) : summary;
+}
+
+// Earlier turns of the case's current thread, summarising whatever no longer fits the budget
+export async function loadQaMemory(caseId: number): Promise<ConversationMemory> {
+    const c = await prisma.caseMatter.findUnique({
+        where: { id: caseId },
+        select: { qaHistory: true, qaThreadStart: true, qaSummary: true, qaSummaryUpTo: true }
+    });
+    if (!c) return { summary: null, turns: [] };
+
+    const history = parseQaHistory(c.qaHistory);
+    const threadStart = Math.min(c.qaThreadStart, history.length);
+
+    // Newest turns first until the budget runs out, never starting on an answer
+    const budget = memoryBudget();
+    let used = 0;
+    let keepFrom = history.length;
+    while (keepFrom > threadStart) {
+        const tokens = estimateTokens(history[keepFrom - 1].content);
+        if (used + tokens > budget) break;
+        used += tokens;
+        keepFrom--;
+    }
+    if (keepFrom < history.length && history[keepFrom].role === 'bot') keepFrom++;
+
+    let summary = c.qaSummary;
+    const summarisedUpTo = Math.max(c.qaSummaryUpTo, threadStart);
+    if (keepFrom > summarisedUpTo) {
+        const older = history.slice(summarisedUpTo, keepFrom);
+        try {
+            summary = await aiService.summarizeConversation(summary, older.map(toMessage));
+        } catch (e) {
+            console.warn(`[QA] Summary failed for case ${caseId}:`, (e as any).message || e);
+            summary = fallbackSummary(summary, older);
+        }
+        await prisma.caseMatter.update({ where: { id: caseId }, data: { qaSummary: summary, qaSummaryUpTo: keepFrom } });
+        console.log(`[QA] Case ${caseId} summarised Q&A up to turn ${keepFrom}`);
+    }
+
+    return { summary, turns: history.slice(Math.max(keepFrom, summarisedUpTo)).map(toMessage) };
+}
+
+// Number of questions asked in the case's current thread
+export async function threadQuestionCount(caseId: number): Promise<number> {
+    const c = await prisma.caseMatter.findUnique({ where: { id: caseId }, select: { qaHistory: true, qaThreadStart: true } });
+    if (!c) return 0;
+    return parseQaHistory(c.qaHistory).slice(c.qaThreadStart).filter(e => e.role === 'user').length;
+}
+
+// Later questions start without the earlier turns. They stay in qaHistory for exports.
+export async function startNewThread(caseId: number): Promise<void> {
+    const c = await prisma.caseMatter.findUnique({ where: { id: caseId }, select: { qaHistory: true } });
+    if (!c) return;
+    const length = parseQaHistory(c.qaHistory).length;
+    await prisma.caseMatter.update({ where: { id: caseId }, data: { qaThreadStart: length, qaSummary: null, qaSummaryUpTo: length } });
+    console.log(`[QA] Case ${caseId} started a new Q&A thread`);
+}
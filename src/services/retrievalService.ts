@@ -0,0 +1,151 @@
+// Retrieval over case documents
+// Documents are split into overlapping passages (per page for PDFs), embedded
+// and stored as DocumentChunk rows the first time their case is queried. A
+// question then gets the passages closest to it instead of the first 20,000
+// characters of the case, each labelled with its document and page so the
+// answer can cite them (see citationService).
+
+import { Document } from '@prisma/client';
+import { prisma } from './db';
+import { llm, OFFLINE_EMBEDDING_MODEL } from './llm';
+import { hashEmbedding } from './llm/hashEmbedding';
+import { documentLabel, getDocumentFile } from './documentService';
+import { extractPdfPages } from './extraction';
+
+const CHUNK_SIZE = 1200; // characters
+const CHUNK_OVERLAP = 200;
+const DEFAULT_TOP_K = 6;
+
+export interface Passage {
+    documentId: number;
+    document: string;    // Label used in citations
+    page: number | null; // null when the format has no pages
+    text: string;
+    score: number;
+}
+
+function topK(): number {
+    const k = parseInt(process.env.RAG_TOP_K || '');
+    return k > 0 ? k : DEFAULT_TOP_K;
+}
+
+// Overlapping passages, ending on a paragraph or sentence where one is near
+export function chunkText(text: string): string[] {
+    const clean = text.replace(/\r/g, '').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+    const chunks: string[] = [];
+    let start = 0;
+    while (start < clean.length) {
+        let end = Math.min(start + CHUNK_SIZE, clean.length);
+        if (end < clean.length) {
+            const tail = clean.substring(start + CHUNK_SIZE / 2, end);
+            const breakAt = Math.max(tail.lastIndexOf('\n\n'), tail.lastIndexOf('. '), tail.lastIndexOf('.\n'));
+            if (breakAt >= 0) end = start + CHUNK_SIZE / 2 + breakAt + 1;
+        }
+        const chunk = clean.substring(start, end).trim();
+        if (chunk) chunks.push(chunk);
+        if (end >= clean.length) break;
+        start = end - CHUNK_OVERLAP;
+    }
+    return chunks;
+}
+
+export function formatCitation(passage: { document: string; page: number | null }): string {
+    return passage.page ? `${passage.document}, p. ${passage.page}` : passage.document;
+}
+
+// PDFs are read again from the file store for their page breaks and full length
+export async function documentPages(doc: Document): Promise<{ page: number | null; text: string }[]> {
+    if (doc.type === 'PDF' && doc.filePath) {
+        try {
+            const file = await getDocumentFile(doc);
+            const pages = file ? await extractPdfPages(file) : [];
+            if (pages.some(p => p.trim())) return pages.map((text, i) => ({ page: i + 1, text }));
+        } catch (e) {
+            console.warn(`[Retrieval] Could not re-read document #${doc.id}, using stored text:`, (e as any).message || e);
+        }
+    }
+    // Stored PDF text is escaped for Telegram Markdown
+    const text = doc.type === 'PDF' ? (doc.textContent || '').replace(/\\(.)/g, '$1') : doc.textContent || '';
+    return text.trim() ? [{ page: null, text }] : [];
+}
+
+// Replace a document's passages with freshly embedded ones
+export async function indexDocument(doc: Document): Promise<number> {
+    const pieces = (await documentPages(doc)).flatMap(p => chunkText(p.text).map(text => ({ page: p.page, text })));
+    const { vectors, model } = pieces.length > 0
+        ? await llm.embed(pieces.map(p => p.text))
+        : { vectors: [], model: OFFLINE_EMBEDDING_MODEL };
+
+    await prisma.$transaction([
+        prisma.documentChunk.deleteMany({ where: { documentId: doc.id } }),
+        prisma.documentChunk.createMany({
+            data: pieces.map((p, i) => ({
+                documentId: doc.id,
+                caseId: doc.caseId,
+                page: p.page,
+                position: i,
+                text: p.text,
+                embedding: JSON.stringify(vectors[i].map(v => Math.round(v * 1e6) / 1e6)),
+                embeddingModel: model
+            }))
+        }),
+        prisma.document.update({ where: { id: doc.id }, data: { indexedAt: new Date() } })
+    ]);
+    console.log(`[Retrieval] Indexed document #${doc.id}: ${pieces.length} passages (${model})`);
+    return pieces.length;
+}
+
+// Index any of the case's documents that haven't been yet
+export async function ensureCaseIndexed(caseId: number): Promise<void> {
+    const docs = await prisma.document.findMany({ where: { caseId, indexedAt: null } });
+    for (const doc of docs) {
+        try {
+            await indexDocument(doc);
+        } catch (e) {
+            console.error(`[Retrieval] Indexing document #${doc.id} failed:`, (e as any).message || e);
+        }
+    }
+}
+
+function cosine(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// The case passages closest to the query, best first
+export async function retrievePassages(caseId: number, query: string, limit: number = topK()): Promise<Passage[]> {
+    await ensureCaseIndexed(caseId);
+    const chunks = await prisma.documentChunk.findMany({ where: { caseId }, include: { document: true } });
+    if (chunks.length === 0) return [];
+
+    // The query has to be embedded by the same model as the passages it is compared with
+    const byModel = new Map<string, typeof chunks>();
+    chunks.forEach(c => byModel.set(c.embeddingModel, [...(byModel.get(c.embeddingModel) || []), c]));
+
+    const scored: Passage[] = [];
+    for (const [model, group] of byModel) {
+        let queryVector: number[];
+        let vectors: number[][];
+        try {
+            [queryVector] = await llm.embedWith(model, [query]);
+            vectors = group.map(c => JSON.parse(c.embedding));
+        } catch (e) {
+            console.warn(`[Retrieval] ${model} unavailable, ranking offline:`, (e as any).message || e);
+            queryVector = hashEmbedding(query);
+            vectors = group.map(c => hashEmbedding(c.text));
+        }
+        group.forEach((c, i) => scored.push({
+            documentId: c.documentId,
+            document: documentLabel(c.document),
+            page: c.page,
+            text: c.text,
+            score: cosine(queryVector, vectors[i])
+        }));
+    }
+    return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
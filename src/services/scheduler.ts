@@ -0,0 +1,59 @@
+// Background jobs
+// Runs periodic maintenance (expiry checks, reminders...) inside the bot
+// process. A job never overlaps with itself: if a run is still going when
+// the next tick fires, that tick is skipped.
+
+interface Job {
+    name: string;
+    intervalMs: number;
+    run: () => Promise<unknown>;
+    running: boolean;
+    timer?: NodeJS.Timeout;
+}
+
+const jobs: Map<string, Job> = new Map();
+
+async function tick(job: Job): Promise<void> {
+    if (job.running) {
+        console.warn(`[Scheduler] ${job.name} still running, skipping this tick`);
+        return;
+    }
+
+    job.running = true;
+    const started = Date.now();
+    try {
+        await job.run();
+    } catch (error) {
+        console.error(`[Scheduler] ${job.name} failed:`, (error as any).message || error);
+    } finally {
+        job.running = false;
+        const elapsed = Date.now() - started;
+        if (elapsed > 5000) console.log(`[Scheduler] ${job.name} took ${Math.round(elapsed / 1000)}s`);
+    }
+}
+
+// Register a job. It first runs after `initialDelayMs` (default: one interval),
+// then every `intervalMs`. Timers are unref'd so they never keep the process alive.
+export function scheduleJob(name: string, intervalMs: number, run: () => Promise<unknown>, initialDelayMs: number = intervalMs): void {
+    if (jobs.has(name)) throw new Error(`Job "${name}" is already scheduled`);
+
+    const job: Job = { name, intervalMs, run, running: false };
+    jobs.set(name, job);
+
+    const first = setTimeout(() => {
+        tick(job);
+        job.timer = setInterval(() => tick(job), intervalMs);
+        job.timer.unref();
+    }, initialDelayMs);
+    first.unref();
+    job.timer = first;
+
+    console.log(`[Scheduler] ${name} every ${Math.round(intervalMs / 60000)} min`);
+}
+
+export function stopAllJobs(): void {
+    for (const job of jobs.values()) {
+        if (job.timer) clearTimeout(job.timer);
+    }
+    jobs.clear();
+}
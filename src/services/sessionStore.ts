@@ -0,0 +1,109 @@
+// Session persistence for the bot wizards
+// Sessions are stored per Telegram user so an intake survives redeploys and
+// can be picked up by any bot instance sharing the same database.
+
+import { PrismaClient } from '@prisma/client';
+import { BotSession, parseSession } from '../bot/session';
+
+const DEFAULT_TTL_HOURS = 72;
+
+// Structurally compatible with Telegraf's async SessionStore
+export interface BotSessionStore {
+    get(key: string): Promise<BotSession | undefined>;
+    set(key: string, value: BotSession): Promise<void>;
+    delete(key: string): Promise<void>;
+    purgeExpired(): Promise<number>;
+}
+
+// In-memory store - for local development or single-instance deployments
+export class MemorySessionStore implements BotSessionStore {
+    private entries: Map<string, { value: string; expiresAt: number }> = new Map();
+
+    constructor(private ttlMs: number) { }
+
+    async get(key: string): Promise<BotSession | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+
+        if (Date.now() > entry.expiresAt) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        // Stored as JSON so both stores hand back the same shape
+        return parseSession(entry.value);
+    }
+
+    async set(key: string, value: BotSession): Promise<void> {
+        this.entries.set(key, { value: JSON.stringify(value), expiresAt: Date.now() + this.ttlMs });
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async purgeExpired(): Promise<number> {
+        const now = Date.now();
+        let removed = 0;
+        for (const [key, entry] of this.entries) {
+            if (now > entry.expiresAt) {
+                this.entries.delete(key);
+                removed++;
+            }
+        }
+        return removed;
+    }
+}
+
+// Postgres store via Prisma - shared between all bot instances
+export class PrismaSessionStore implements BotSessionStore {
+    constructor(private prisma: PrismaClient, private ttlMs: number) { }
+
+    async get(key: string): Promise<BotSession | undefined> {
+        const row = await this.prisma.session.findUnique({ where: { key } });
+        if (!row) return undefined;
+
+        if (row.expiresAt < new Date()) {
+            await this.prisma.session.deleteMany({ where: { key } });
+            return undefined;
+        }
+
+        return parseSession(row.data);
+    }
+
+    async set(key: string, value: BotSession): Promise<void> {
+        const data = JSON.stringify(value);
+        const expiresAt = new Date(Date.now() + this.ttlMs);
+        await this.prisma.session.upsert({
+            where: { key },
+            update: { data, expiresAt },
+            create: { key, data, expiresAt }
+        });
+    }
+
+    async delete(key: string): Promise<void> {
+        // deleteMany so a session that was never persisted doesn't throw
+        await this.prisma.session.deleteMany({ where: { key } });
+    }
+
+    async purgeExpired(): Promise<number> {
+        const result = await this.prisma.session.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+        return result.count;
+    }
+}
+
+// Pick the store from SESSION_STORE ("prisma" | "memory"). Defaults to Prisma
+// whenever a database is configured.
+export function createSessionStore(prisma: PrismaClient): BotSessionStore {
+    const ttlHours = Number(process.env.SESSION_TTL_HOURS) || DEFAULT_TTL_HOURS;
+    const ttlMs = ttlHours * 60 * 60 * 1000;
+    const kind = (process.env.SESSION_STORE || (process.env.DATABASE_URL ? 'prisma' : 'memory')).toLowerCase();
+
+    if (kind === 'memory') {
+        console.log(`[Session] Using in-memory store (TTL ${ttlHours}h).`);
+        return new MemorySessionStore(ttlMs);
+    }
+
+    console.log(`[Session] Using Prisma store (TTL ${ttlHours}h).`);
+    return new PrismaSessionStore(prisma, ttlMs);
+}
@@ -0,0 +1,104 @@
+// Case sharing
+// Owners grant another bot user READ, COMMENT or EDIT access to a case. The
+// grant only takes effect once the recipient accepts it, and can expire or be
+// revoked at any time. Access checks live in authorization.ts.
+
+import { CaseMatter, CaseShare, User } from '@prisma/client';
+import { prisma } from './db';
+import { SharePermission, isShareActive } from './authorization';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PERMISSION_LABELS: Record<SharePermission, string> = {
+    READ: '👁 Read',
+    COMMENT: '💬 Comment',
+    EDIT: '✏️ Edit'
+};
+
+export type ShareWithCase = CaseShare & { case: CaseMatter; sharedBy: User };
+export type ShareWithRecipient = CaseShare & { sharedWith: User };
+
+export type CreateShareResult =
+    | { ok: true; share: CaseShare; recipient: User }
+    | { ok: false; error: string };
+
+// Grant (or re-grant) access. Re-sharing with the same person resets the
+// invitation so they have to accept the new terms.
+export async function createShare(caseId: number, sharedBy: User, recipientUsername: string, permission: SharePermission, days: number | null): Promise<CreateShareResult> {
+    const username = recipientUsername.replace(/^@/, '').trim();
+    const recipient = await prisma.user.findFirst({ where: { username } });
+
+    if (!recipient) return { ok: false, error: `User @${username} not found. They must start the bot first.` };
+    if (recipient.id === sharedBy.id) return { ok: false, error: 'You cannot share a case with yourself.' };
+
+    const expiresAt = days ? new Date(Date.now() + days * DAY_MS) : null;
+    const share = await prisma.caseShare.upsert({
+        where: { caseId_sharedWithId: { caseId, sharedWithId: recipient.id } },
+        update: { sharedById: sharedBy.id, permission, expiresAt, status: 'PENDING', acceptedAt: null, revokedAt: null },
+        create: { caseId, sharedById: sharedBy.id, sharedWithId: recipient.id, permission, expiresAt }
+    });
+
+    console.log(`[Share] Case ${caseId} shared with user ${recipient.id} (${permission}, ${days ? `${days}d` : 'no expiry'})`);
+    return { ok: true, share, recipient };
+}
+
+// Recipient answers an invitation. Only the invited user can respond.
+export async function respondToShare(shareId: number, telegramId: number, accept: boolean): Promise<ShareWithCase | null> {
+    const share = await prisma.caseShare.findUnique({
+        where: { id: shareId },
+        include: { case: true, sharedBy: true, sharedWith: true }
+    });
+    if (!share || share.sharedWith.telegramId !== BigInt(telegramId) || share.status !== 'PENDING') return null;
+    if (share.expiresAt && share.expiresAt < new Date()) return null;
+
+    return prisma.caseShare.update({
+        where: { id: shareId },
+        data: accept ? { status: 'ACCEPTED', acceptedAt: new Date() } : { status: 'DECLINED' },
+        include: { case: true, sharedBy: true }
+    });
+}
+
+export async function revokeShare(shareId: number): Promise<ShareWithRecipient | null> {
+    const share = await prisma.caseShare.findUnique({ where: { id: shareId } });
+    if (!share || share.status === 'REVOKED') return null;
+
+    return prisma.caseShare.update({
+        where: { id: shareId },
+        data: { status: 'REVOKED', revokedAt: new Date() },
+        include: { sharedWith: true }
+    });
+}
+
+// Accepted, unexpired shares plus invitations still waiting for an answer
+export async function listSharedWithMe(userId: number): Promise<{ active: ShareWithCase[]; pending: ShareWithCase[] }> {
+    const shares = await prisma.caseShare.findMany({
+        where: { sharedWithId: userId, status: { in: ['ACCEPTED', 'PENDING'] } },
+        include: { case: true, sharedBy: true },
+        orderBy: { createdAt: 'desc' }
+    });
+
+    const now = new Date();
+    const notExpired = shares.filter(s => !s.expiresAt || s.expiresAt > now);
+    return {
+        active: notExpired.filter(s => isShareActive(s, now)),
+        pending: notExpired.filter(s => s.status === 'PENDING')
+    };
+}
+
+export async function listCaseShares(caseId: number): Promise<ShareWithRecipient[]> {
+    return prisma.caseShare.findMany({
+        where: { caseId, status: { in: ['ACCEPTED', 'PENDING'] } },
+        include: { sharedWith: true },
+        orderBy: { createdAt: 'asc' }
+    });
+}
+
+export function describeShare(share: CaseShare): string {
+    const level = PERMISSION_LABELS[share.permission as SharePermission] || share.permission;
+    const expiry = share.expiresAt ? `until ${share.expiresAt.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}` : 'no expiry';
+    return `${level}, ${expiry}`;
+}
+
+export function userLabel(user: User): string {
+    return user.username ? `@${user.username}` : (user.fullName || user.firstName || `User ${user.id}`);
+}
@@ -0,0 +1,159 @@
+// Subscription lifecycle
+// Works out the plan a user is actually entitled to (team members inherit
+// their owner's plan), downgrades expired plans and sends renewal reminders.
+
+import { User } from '@prisma/client';
+import { prisma } from './db';
+import { createPlanCheckout } from './paymentService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REMINDER_DAYS = [7, 3, 1];
+
+export type Notifier = (telegramId: string, message: string, options?: { parse_mode?: 'Markdown' }) => Promise<unknown>;
+
+export interface EffectivePlan {
+    plan: string;
+    expiresAt: Date | null;        // null = no expiry (FREE, or granted indefinitely)
+    inheritedFrom?: User;          // Team owner the plan comes from
+}
+
+// Plan that applies right now. Expired plans count as FREE even before the
+// scheduler gets round to downgrading them.
+export async function getEffectivePlan(user: User & { teamOwner?: User | null }): Promise<EffectivePlan> {
+    let source: User = user;
+    let inheritedFrom: User | undefined;
+
+    if (user.teamOwnerId) {
+        const owner = user.teamOwner ?? await prisma.user.findUnique({ where: { id: user.teamOwnerId } });
+        if (owner) {
+            source = owner;
+            inheritedFrom = owner;
+        }
+    }
+
+    if (source.subscription !== 'FREE' && source.subscriptionExp && source.subscriptionExp < new Date()) {
+        return { plan: 'FREE', expiresAt: null, inheritedFrom };
+    }
+    return { plan: source.subscription, expiresAt: source.subscription === 'FREE' ? null : source.subscriptionExp, inheritedFrom };
+}
+
+export function daysUntil(date: Date): number {
+    return Math.ceil((date.getTime() - Date.now()) / DAY_MS);
+}
+
+export function formatExpiry(date: Date): string {
+    return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+// One-line status for /start and /myplan, e.g. "expires 12 Mar 2026 (5 days left)"
+export function describeExpiry(effective: EffectivePlan): string {
+    if (effective.plan === 'FREE') return 'no expiry';
+    if (!effective.expiresAt) return 'no expiry date';
+
+    const days = daysUntil(effective.expiresAt);
+    return `expires ${formatExpiry(effective.expiresAt)} (${days} day${days === 1 ? '' : 's'} left)`;
+}
+
+async function safeNotify(notify: Notifier, telegramId: bigint, message: string): Promise<void> {
+    try {
+        await notify(String(telegramId), message, { parse_mode: 'Markdown' });
+    } catch (e) { /* User may have blocked bot */ }
+}
+
+// Renewal reminders for plans ending within 7 days. Each threshold is sent
+// once per expiry date, so a renewal (new subscriptionExp) re-arms them.
+async function sendRenewalReminders(notify: Notifier): Promise<number> {
+    const now = new Date();
+    const users = await prisma.user.findMany({
+        where: {
+            teamOwnerId: null,
+            subscription: { not: 'FREE' },
+            subscriptionExp: { gt: now, lte: new Date(now.getTime() + REMINDER_DAYS[0] * DAY_MS) }
+        }
+    });
+
+    let sent = 0;
+    for (const user of users) {
+        const exp = user.subscriptionExp!;
+        const daysLeft = daysUntil(exp);
+        const threshold = [...REMINDER_DAYS].reverse().find(d => daysLeft <= d);
+        if (!threshold) continue;
+
+        const sameExpiry = user.expiryReminderFor?.getTime() === exp.getTime();
+        if (sameExpiry && user.expiryReminderDays !== null && user.expiryReminderDays <= threshold) continue;
+
+        const checkout = await createPlanCheckout(String(user.telegramId), user.email, user.subscription);
+        const payLine = checkout.success && checkout.url
+            ? `[Renew now](${checkout.url}) - ₦${checkout.amount.toLocaleString()}/month`
+            : 'Use /subscribe to renew.';
+
+        await safeNotify(notify, user.telegramId, `⏰ **Plan Expiring Soon**\n\nYour **${user.subscription}** plan expires on **${formatExpiry(exp)}** (${daysLeft} day${daysLeft === 1 ? '' : 's'} left).\n\n${payLine}\n\nAfter expiry your account moves to the FREE plan${user.accountType !== 'INDIVIDUAL' ? ' and your team loses access to paid features' : ''}.`);
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { expiryReminderFor: exp, expiryReminderDays: threshold }
+        });
+        sent++;
+    }
+    return sent;
+}
+
+// Move expired plans back to FREE, together with their team members
+async function downgradeExpiredPlans(notify: Notifier): Promise<number> {
+    const expired = await prisma.user.findMany({
+        where: {
+            teamOwnerId: null,
+            subscription: { not: 'FREE' },
+            subscriptionExp: { lt: new Date() }
+        },
+        include: { teamMembers: true }
+    });
+
+    for (const user of expired) {
+        const oldPlan = user.subscription;
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { subscription: 'FREE', subscriptionExp: null, expiryReminderFor: null, expiryReminderDays: null }
+        });
+        await prisma.user.updateMany({
+            where: { teamOwnerId: user.id },
+            data: { subscription: 'FREE' }
+        });
+        console.log(`[Subscriptions] ${user.telegramId} downgraded ${oldPlan} -> FREE (${user.teamMembers.length} team members)`);
+
+        await safeNotify(notify, user.telegramId, `⌛ **Plan Expired**\n\nYour **${oldPlan}** plan has ended and your account is now on the **FREE** plan.\n\nUse /subscribe to renew.`);
+        for (const member of user.teamMembers) {
+            await safeNotify(notify, member.telegramId, `⌛ **Organization Plan Expired**\n\nThe ${oldPlan} plan of ${user.firmName || user.branchName || 'your organization'} has ended. Your access is now limited to the FREE plan until it is renewed.`);
+        }
+    }
+    return expired.length;
+}
+
+// Team members keep a copy of the owner's plan - bring stale copies in line
+async function syncTeamPlans(): Promise<number> {
+    const owners = await prisma.user.findMany({
+        where: { teamMembers: { some: {} } },
+        select: { id: true, subscription: true }
+    });
+
+    let updated = 0;
+    for (const owner of owners) {
+        const result = await prisma.user.updateMany({
+            where: { teamOwnerId: owner.id, subscription: { not: owner.subscription } },
+            data: { subscription: owner.subscription }
+        });
+        updated += result.count;
+    }
+    return updated;
+}
+
+// Scheduler entry point
+export async function runSubscriptionCheck(notify: Notifier): Promise<void> {
+    const downgraded = await downgradeExpiredPlans(notify);
+    const reminded = await sendRenewalReminders(notify);
+    const synced = await syncTeamPlans();
+
+    if (downgraded || reminded || synced) {
+        console.log(`[Subscriptions] ${downgraded} downgraded, ${reminded} reminders sent, ${synced} team members synced`);
+    }
+}
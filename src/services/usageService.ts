@@ -0,0 +1,210 @@
+// AI usage ledger
+// Every provider call and Whisper transcription is recorded with its tokens
+// and an estimated cost, attributed to the user whose update triggered it and
+// to the firm they were in at the time (the bot runs each update inside
+// runWithUsageScope). Each plan has a monthly AI budget that the AI features
+// check before calling a provider.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { User } from '@prisma/client';
+import { prisma } from './db';
+import { llm, UsageEvent } from './llm';
+import { getEffectivePlan } from './subscriptionService';
+
+export interface UsageScope {
+    userId: number;
+    plan: string;
+    firmId: number; // Account that owns the user's team (their own id if not staff)
+}
+
+const usageScope = new AsyncLocalStorage<UsageScope>();
+
+// USD per million tokens [input, output]; the longest matching model prefix wins.
+// LLM_PRICES='{"gpt-4o-mini":[0.15,0.6]}' adds or overrides entries.
+const DEFAULT_PRICES: Record<string, [number, number]> = {
+    'gpt-4o-mini': [0.15, 0.6],
+    'gpt-4o': [2.5, 10],
+    'gpt-4.1-mini': [0.4, 1.6],
+    'gpt-4.1': [2, 8],
+    'text-embedding-3-small': [0.02, 0],
+    'text-embedding-3-large': [0.13, 0],
+    'gemini-1.5-flash': [0.075, 0.3],
+    'gemini-1.5-pro': [1.25, 5],
+    'gemini-2.0-flash': [0.1, 0.4],
+    'text-embedding-004': [0, 0]
+};
+const WHISPER_PER_MINUTE = 0.006;
+const UNMETERED_PROVIDERS = ['local', 'mock'];
+
+// Monthly AI budget in USD; AI_BUDGET_<PLAN> overrides, 0 means unlimited
+const DEFAULT_BUDGETS: Record<string, number> = { FREE: 0.5, PRO: 5, FIRM: 25, BAR: 100 };
+
+export interface UsageEntry {
+    feature: string;
+    provider: string;
+    model: string;
+    tokensIn: number;
+    tokensOut: number;
+    costUsd: number;
+}
+
+export interface BudgetCheck {
+    allowed: boolean;
+    plan: string;
+    spent: number;  // USD this calendar month
+    budget: number; // USD, 0 = unlimited
+}
+
+export interface CostLine {
+    label: string;
+    calls: number;
+    tokensIn: number;
+    tokensOut: number;
+    costUsd: number;
+}
+
+export interface CostReport {
+    since: Date;
+    total: CostLine;
+    byFeature: CostLine[];
+    byPlan: CostLine[];
+    byFirm: CostLine[];
+    byUser: CostLine[]; // Most expensive first
+}
+
+// AI calls made inside fn are charged to this user
+export function runWithUsageScope<T>(scope: UsageScope, fn: () => T): T {
+    return usageScope.run(scope, fn);
+}
+
+// The user the current update is for; undefined for background jobs
+export function currentUsageScope(): UsageScope | undefined {
+    return usageScope.getStore();
+}
+
+export async function usageScopeFor(user: User & { teamOwner?: User | null }): Promise<UsageScope> {
+    return { userId: user.id, plan: (await getEffectivePlan(user)).plan, firmId: user.teamOwnerId ?? user.id };
+}
+
+function priceTable(): Record<string, [number, number]> {
+    if (!process.env.LLM_PRICES) return DEFAULT_PRICES;
+    try {
+        return { ...DEFAULT_PRICES, ...JSON.parse(process.env.LLM_PRICES) };
+    } catch (e) {
+        console.error('[Usage] Ignoring invalid LLM_PRICES:', (e as Error).message);
+        return DEFAULT_PRICES;
+    }
+}
+
+export function estimateCost(provider: string, model: string, tokensIn: number, tokensOut: number): number {
+    if (UNMETERED_PROVIDERS.includes(provider)) return 0;
+    const prices = priceTable();
+    const key = Object.keys(prices).filter(prefix => model.startsWith(prefix)).sort((a, b) => b.length - a.length)[0];
+    if (!key) return 0;
+    const [input, output] = prices[key];
+    return (tokensIn * input + tokensOut * output) / 1_000_000;
+}
+
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+    const scope = usageScope.getStore();
+    await prisma.usageRecord.create({
+        data: { ...entry, userId: scope?.userId, plan: scope?.plan, firmId: scope?.firmId }
+    });
+}
+
+function recordEvent(event: UsageEvent): void {
+    const costUsd = estimateCost(event.provider, event.model, event.tokensIn, event.tokensOut);
+    recordUsage({ ...event, costUsd }).catch(err => console.error('[Usage] Could not record usage:', err.message || err));
+}
+
+// Whisper is billed by the minute, not by token
+export function recordTranscription(seconds: number): void {
+    recordUsage({ feature: 'transcription', provider: 'openai', model: 'whisper-1', tokensIn: 0, tokensOut: 0, costUsd: (seconds / 60) * WHISPER_PER_MINUTE })
+        .catch(err => console.error('[Usage] Could not record transcription:', err.message || err));
+}
+
+// Record every call the LLM router makes
+export function startUsageTracking(): void {
+    llm.onUsage(recordEvent);
+}
+
+export function monthlyBudget(plan: string): number {
+    const override = parseFloat(process.env[`AI_BUDGET_${plan}`] || '');
+    if (!isNaN(override) && override >= 0) return override;
+    return DEFAULT_BUDGETS[plan] ?? DEFAULT_BUDGETS.FREE;
+}
+
+function monthStart(now: Date = new Date()): Date {
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+export async function monthlySpend(userId: number): Promise<number> {
+    const result = await prisma.usageRecord.aggregate({
+        where: { userId, createdAt: { gte: monthStart() } },
+        _sum: { costUsd: true }
+    });
+    return result._sum.costUsd || 0;
+}
+
+// May this user start another AI call this month?
+export async function checkAiBudget(telegramId: number): Promise<BudgetCheck> {
+    const user = await prisma.user.findUnique({ where: { telegramId: BigInt(telegramId) }, include: { teamOwner: true } });
+    if (!user) return { allowed: true, plan: 'FREE', spent: 0, budget: monthlyBudget('FREE') };
+
+    const plan = (await getEffectivePlan(user)).plan;
+    const budget = monthlyBudget(plan);
+    const spent = await monthlySpend(user.id);
+    if (budget > 0 && spent >= budget) {
+        console.warn(`[Usage] User ${user.id} reached the ${plan} AI budget ($${spent.toFixed(2)} of $${budget.toFixed(2)})`);
+    }
+    return { allowed: budget === 0 || spent < budget, plan, spent, budget };
+}
+
+function addTo(lines: Map<string, CostLine>, label: string, record: { tokensIn: number; tokensOut: number; costUsd: number }): void {
+    const line = lines.get(label) || { label, calls: 0, tokensIn: 0, tokensOut: 0, costUsd: 0 };
+    line.calls++;
+    line.tokensIn += record.tokensIn;
+    line.tokensOut += record.tokensOut;
+    line.costUsd += record.costUsd;
+    lines.set(label, line);
+}
+
+function byCost(lines: Map<string, CostLine>): CostLine[] {
+    return Array.from(lines.values()).sort((a, b) => b.costUsd - a.costUsd);
+}
+
+function firmLabel(owner: User): string {
+    if (owner.accountType === 'INDIVIDUAL') return 'Individuals';
+    return owner.firmName || owner.branchName || `@${owner.username || owner.telegramId}`;
+}
+
+// Spend since `since`, broken down for the /costs report. Calls count towards
+// the firm the user was in when they made them, not the one they are in now.
+export async function costReport(since: Date = monthStart()): Promise<CostReport> {
+    const records = await prisma.usageRecord.findMany({
+        where: { createdAt: { gte: since } },
+        include: { user: true }
+    });
+    const firmIds = [...new Set(records.flatMap(r => r.firmId !== null ? [r.firmId] : []))];
+    const firmOwners = new Map((await prisma.user.findMany({ where: { id: { in: firmIds } } })).map(u => [u.id, u]));
+
+    const total: CostLine = { label: 'Total', calls: 0, tokensIn: 0, tokensOut: 0, costUsd: 0 };
+    const features = new Map<string, CostLine>();
+    const plans = new Map<string, CostLine>();
+    const firms = new Map<string, CostLine>();
+    const users = new Map<string, CostLine>();
+
+    records.forEach(r => {
+        total.calls++;
+        total.tokensIn += r.tokensIn;
+        total.tokensOut += r.tokensOut;
+        total.costUsd += r.costUsd;
+        addTo(features, r.feature, r);
+        addTo(plans, r.plan || 'Unknown', r);
+        const firm = r.firmId !== null ? firmOwners.get(r.firmId) : undefined;
+        addTo(firms, firm ? firmLabel(firm) : r.firmId !== null ? `Firm #${r.firmId}` : 'System', r);
+        addTo(users, r.user ? `@${r.user.username || r.user.telegramId}` : 'System', r);
+    });
+
+    return { since, total, byFeature: byCost(features), byPlan: byCost(plans), byFirm: byCost(firms), byUser: byCost(users) };
+}